@@ -0,0 +1,105 @@
+import { type Address, erc20Abi, formatUnits, getAbiItem, maxUint256, type PublicClient } from "viem";
+
+import { readTokenMetadata } from "./tokens.ts";
+
+// Blocks scanned for Approval events when no range is given
+export const DEFAULT_SCAN_BLOCKS = 10_000n;
+
+// Widest range one scan may cover, which bounds the number of eth_getLogs calls
+export const MAX_SCAN_BLOCKS = 100_000n;
+
+// Blocks per eth_getLogs call; many public RPCs refuse wider ranges
+const LOG_CHUNK_BLOCKS = 2_000n;
+
+const approvalEvent = getAbiItem({ abi: erc20Abi, name: "Approval" });
+
+// Current ERC-20 allowance of an owner to a spender
+export interface AllowanceInfo {
+  token: Address;
+  spender: Address;
+  symbol?: string;
+  decimals: number;
+  raw: bigint;
+  formatted: string;
+  unlimited: boolean;
+  // Block of the owner's latest Approval event for the pair, when found by a scan
+  lastApprovalBlock?: bigint;
+}
+
+/**
+ * Read the current allowance of `owner` to `spender` on `token`, with the token's decimals and symbol
+ */
+export async function readAllowance(
+  client: PublicClient,
+  owner: Address,
+  token: Address,
+  spender: Address,
+): Promise<AllowanceInfo> {
+  const [raw, { decimals, symbol }] = await Promise.all([
+    client.readContract({ address: token, abi: erc20Abi, functionName: "allowance", args: [owner, spender] }),
+    readTokenMetadata(client, token),
+  ]);
+  return {
+    token,
+    spender,
+    symbol,
+    decimals,
+    raw,
+    formatted: formatUnits(raw, decimals),
+    unlimited: raw === maxUint256,
+  };
+}
+
+/**
+ * Find the token/spender pairs `owner` has approved in a block range from ERC-20 Approval logs,
+ * then read each pair's current allowance. Logs are fetched in chunks; contracts whose
+ * allowance can't be read (e.g. ERC-721 approvals sharing the event name) are skipped.
+ */
+export async function scanAllowances(
+  client: PublicClient,
+  owner: Address,
+  range: { fromBlock?: bigint; toBlock?: bigint } = {},
+): Promise<{ allowances: AllowanceInfo[]; fromBlock: bigint; toBlock: bigint }> {
+  const toBlock = range.toBlock ?? await client.getBlockNumber();
+  const fromBlock = range.fromBlock ?? (toBlock >= DEFAULT_SCAN_BLOCKS ? toBlock - DEFAULT_SCAN_BLOCKS + 1n : 0n);
+  if (fromBlock > toBlock) {
+    throw new Error(`fromBlock ${fromBlock} is after toBlock ${toBlock}`);
+  }
+  if (toBlock - fromBlock + 1n > MAX_SCAN_BLOCKS) {
+    throw new Error(`Block range is too wide: at most ${MAX_SCAN_BLOCKS} blocks can be scanned at once`);
+  }
+
+  // Latest Approval block per token/spender pair, in order of first appearance
+  const pairs = new Map<string, { token: Address; spender: Address; block: bigint }>();
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+    const end = start + LOG_CHUNK_BLOCKS - 1n < toBlock ? start + LOG_CHUNK_BLOCKS - 1n : toBlock;
+    const logs = await client.getLogs({ event: approvalEvent, args: { owner }, fromBlock: start, toBlock: end, strict: true });
+    for (const log of logs) {
+      const key = `${log.address.toLowerCase()}:${log.args.spender.toLowerCase()}`;
+      const pair = pairs.get(key);
+      if (pair) {
+        pair.block = log.blockNumber;
+      } else {
+        pairs.set(key, { token: log.address, spender: log.args.spender, block: log.blockNumber });
+      }
+    }
+  }
+
+  const results = await Promise.all(
+    [...pairs.values()].map(async ({ token, spender, block }): Promise<AllowanceInfo | null> => {
+      try {
+        return { ...await readAllowance(client, owner, token, spender), lastApprovalBlock: block };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[mcp-wallet-signer] Skipping allowance of ${token}: ${message}`);
+        return null;
+      }
+    }),
+  );
+
+  return {
+    allowances: results.filter((entry): entry is AllowanceInfo => entry !== null),
+    fromBlock,
+    toBlock,
+  };
+}
@@ -0,0 +1,61 @@
+import { parseUnits } from "viem";
+
+import { getChainConfig } from "./config.ts";
+
+// Units accepted by valueUnits, with their decimals relative to wei
+const VALUE_UNITS: Record<string, number> = {
+  wei: 0,
+  gwei: 9,
+  ether: 18,
+};
+
+/**
+ * Parse a human-readable decimal amount (e.g. "0.25") into base units.
+ * Unlike parseUnits, rejects malformed input and amounts with more precision than the token supports.
+ */
+export function parseAmount(amount: string, decimals: number): bigint {
+  const trimmed = amount.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+    throw new Error(`Invalid amount "${amount}": expected a decimal number like "0.25"`);
+  }
+  const fraction = trimmed.split(".")[1] ?? "";
+  if (fraction.length > decimals) {
+    throw new Error(`Invalid amount "${amount}": at most ${decimals} decimal places are supported`);
+  }
+  return parseUnits(trimmed, decimals);
+}
+
+/**
+ * Resolve the value of a send_transaction call on a chain to a wei string.
+ * Accepts exactly one of value (wei), valueEther (decimal amount of the chain's native currency, in its decimals)
+ * or valueUnits (amount with a unit, e.g. "30 gwei"). Returns undefined if none is set.
+ */
+export function resolveTransactionValue(params: {
+  value?: string;
+  valueEther?: string;
+  valueUnits?: string;
+}, chainId: number): string | undefined {
+  const given = [params.value, params.valueEther, params.valueUnits].filter((v) => v !== undefined);
+  if (given.length > 1) {
+    throw new Error("Pass only one of value, valueEther or valueUnits");
+  }
+
+  if (params.valueEther !== undefined) {
+    return parseAmount(params.valueEther, getChainConfig(chainId)?.nativeCurrency.decimals ?? 18).toString();
+  }
+
+  if (params.valueUnits !== undefined) {
+    const match = params.valueUnits.trim().match(/^([\d.]+)\s*([a-zA-Z]+)$/);
+    const decimals = match ? VALUE_UNITS[match[2].toLowerCase()] : undefined;
+    if (!match || decimals === undefined) {
+      throw new Error(
+        `Invalid valueUnits "${params.valueUnits}": expected an amount and unit (${
+          Object.keys(VALUE_UNITS).join(", ")
+        }), e.g. "30 gwei"`,
+      );
+    }
+    return parseAmount(match[1], decimals).toString();
+  }
+
+  return params.value;
+}
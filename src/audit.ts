@@ -0,0 +1,188 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { getAuditLogPath } from "./config.ts";
+import type {
+  AuditEvent,
+  AuditRecord,
+  PendingRequest,
+  RequestHistoryFilters,
+  RequestRecord,
+  TransactionIntent,
+} from "./types.ts";
+
+// Number of requests returned by a history query without an explicit limit
+const DEFAULT_HISTORY_LIMIT = 20;
+
+/**
+ * Recipient of a transfer, or spender of a revoked approval
+ */
+function intentCounterparty(intent: TransactionIntent | undefined): string | undefined {
+  return intent?.kind === "revoke" ? intent.spender : intent?.recipient;
+}
+
+/**
+ * Addresses a request involves: recipients, the expected signer, and the wallet a connect request returned
+ */
+function involvedAddresses(record: AuditRecord): string[] {
+  const request = record.request;
+  const addresses: Array<string | undefined> = [];
+  switch (request.type) {
+    case "connect":
+      addresses.push(record.result?.success ? record.result.result : undefined);
+      break;
+    case "send_transaction":
+      addresses.push(request.to, intentCounterparty(request.intent));
+      break;
+    case "send_transactions":
+      for (const tx of request.transactions) {
+        addresses.push(tx.to, intentCounterparty(tx.intent));
+      }
+      break;
+    case "sign_message":
+    case "sign_typed_data":
+      addresses.push(request.address);
+      break;
+  }
+  return addresses.filter((address): address is string => !!address).map((address) => address.toLowerCase());
+}
+
+/**
+ * Append-only JSONL log of every request the agent makes and how it ended.
+ * Each lifecycle step (created, opened, completed) is its own line, so the file is never rewritten.
+ * Approval URLs are logged without their secret fragment.
+ */
+export class AuditLog {
+  private opened: Set<string> = new Set();
+
+  // Path is resolved from the config on first use unless given (null disables the log)
+  constructor(private path?: string | null) {}
+
+  /**
+   * Record a new request and its approval URL
+   */
+  recordCreated(request: PendingRequest, approvalUrl: string): void {
+    this.append({
+      event: "created",
+      id: request.id,
+      at: request.createdAt,
+      request,
+      approvalUrl: approvalUrl.split("#")[0],
+    });
+  }
+
+  /**
+   * Record the first time the approval page loads a request
+   */
+  recordOpened(id: string): void {
+    if (this.opened.has(id)) {
+      return;
+    }
+    this.opened.add(id);
+    this.append({ event: "opened", id, at: Date.now() });
+  }
+
+  /**
+   * Record how a request ended: approved, rejected, cancelled or expired
+   */
+  recordCompleted(record: RequestRecord): void {
+    this.opened.delete(record.request.id);
+    if (record.status === "pending") {
+      return;
+    }
+    this.append({
+      event: "completed",
+      id: record.request.id,
+      at: record.completedAt ?? Date.now(),
+      status: record.status,
+      result: record.result,
+      error: record.error,
+    });
+  }
+
+  /**
+   * Read the log back as one record per request, newest first
+   */
+  query(filters: RequestHistoryFilters = {}): AuditRecord[] {
+    const path = this.resolvePath();
+    if (!path || !existsSync(path)) {
+      return [];
+    }
+
+    const records = new Map<string, AuditRecord>();
+    for (const line of readFileSync(path, "utf8").split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      let event: AuditEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // Partially written line, e.g. after a crash
+        continue;
+      }
+
+      if (event.event === "created") {
+        records.set(event.id, {
+          request: event.request,
+          status: "pending",
+          approvalUrl: event.approvalUrl,
+          createdAt: event.at,
+        });
+        continue;
+      }
+      const record = records.get(event.id);
+      if (!record) {
+        continue;
+      }
+      if (event.event === "opened") {
+        record.openedAt = event.at;
+      } else {
+        record.status = event.status;
+        record.result = event.result;
+        record.error = event.error;
+        record.completedAt = event.at;
+      }
+    }
+
+    const since = filters.since ? Date.parse(filters.since) : undefined;
+    const until = filters.until ? Date.parse(filters.until) : undefined;
+    const address = filters.address?.toLowerCase();
+
+    return [...records.values()]
+      .filter((record) =>
+        (!filters.type || record.request.type === filters.type) &&
+        (filters.chainId === undefined || record.request.chainId === filters.chainId) &&
+        (since === undefined || record.createdAt >= since) &&
+        (until === undefined || record.createdAt < until) &&
+        (!address || involvedAddresses(record).includes(address))
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, filters.limit ?? DEFAULT_HISTORY_LIMIT);
+  }
+
+  private resolvePath(): string | null {
+    if (this.path === undefined) {
+      this.path = getAuditLogPath();
+    }
+    return this.path;
+  }
+
+  private append(event: AuditEvent): void {
+    const path = this.resolvePath();
+    if (!path) {
+      return;
+    }
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      appendFileSync(path, JSON.stringify(event) + "\n", { mode: 0o600 });
+    } catch (error) {
+      // Losing an audit line shouldn't fail the signing flow itself
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[mcp-wallet-signer] Failed to write audit log ${path}: ${message}`);
+    }
+  }
+}
+
+// Singleton instance
+export const auditLog = new AuditLog();
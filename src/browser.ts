@@ -1,9 +1,16 @@
 import open from "open";
 
+import { requestEvents } from "./events.ts";
+
 /**
- * Open a URL in the default browser
+ * Open a URL in the default browser, unless an approval tab is already open and was sent the request
  */
 export async function openBrowser(url: string): Promise<void> {
+  if (requestEvents.listenerCount > 0) {
+    console.error(`[mcp-wallet-signer] Sent request to the open approval tab: ${url}`);
+    return;
+  }
+
   try {
     await open(url);
   } catch (error) {
@@ -14,15 +21,23 @@ export async function openBrowser(url: string): Promise<void> {
 }
 
 /**
- * Build the URL for a specific signing request
+ * Build the URL for a specific signing request.
+ * The secret goes in the fragment so it is never sent to the server in the URL or leaked via Referer.
  */
-export function buildSignUrl(port: number, requestId: string): string {
-  return `http://127.0.0.1:${port}/sign/${requestId}`;
+export function buildSignUrl(port: number, requestId: string, secret: string): string {
+  return `http://127.0.0.1:${port}/sign/${requestId}#${secret}`;
 }
 
 /**
  * Build the URL for wallet connection
  */
-export function buildConnectUrl(port: number, requestId: string): string {
-  return `http://127.0.0.1:${port}/connect/${requestId}`;
+export function buildConnectUrl(port: number, requestId: string, secret: string): string {
+  return `http://127.0.0.1:${port}/connect/${requestId}#${secret}`;
+}
+
+/**
+ * Build the URL for the dashboard of pending and recent requests
+ */
+export function buildDashboardUrl(port: number, token: string): string {
+  return `http://127.0.0.1:${port}/#${token}`;
 }
@@ -0,0 +1,57 @@
+import type { WalletCapabilities } from "./types.ts";
+
+// Key under which EIP-5792 2.0.0 wallets report capabilities that apply to every chain
+const ALL_CHAINS_KEY = "0x0";
+
+// Readable names for the capabilities agents care about; others are listed by their key
+const CAPABILITY_NAMES: Record<string, string> = {
+  atomic: "atomic batching",
+  atomicBatch: "atomic batching",
+  paymasterService: "gas sponsorship (paymaster service)",
+  auxiliaryFunds: "auxiliary funds",
+};
+
+/**
+ * Whether a single capability entry is usable.
+ * 1.0 wallets report `{ supported: true }`; 2.0.0 reports atomic as `{ status: "supported" | "ready" | "unsupported" }`.
+ */
+function isSupported(capability: unknown): boolean {
+  if (!capability || typeof capability !== "object") {
+    return false;
+  }
+  const { supported, status } = capability as { supported?: unknown; status?: unknown };
+  return supported === true || status === "supported" || status === "ready";
+}
+
+function chainCapabilities(capabilities: WalletCapabilities, chainId: number): Record<string, unknown> {
+  return { ...capabilities[ALL_CHAINS_KEY], ...capabilities[`0x${chainId.toString(16)}`] };
+}
+
+/**
+ * Whether the wallet reported a capability as supported on a chain
+ */
+export function hasCapability(capabilities: WalletCapabilities, chainId: number, name: string): boolean {
+  const chain = chainCapabilities(capabilities, chainId);
+  if (name === "atomic") {
+    return isSupported(chain.atomic) || isSupported(chain.atomicBatch);
+  }
+  return isSupported(chain[name]);
+}
+
+/**
+ * Describe the supported capabilities, one line per chain, e.g. "Chain 8453: atomic batching, auxiliary funds"
+ */
+export function describeCapabilities(capabilities: WalletCapabilities): string[] {
+  const lines: string[] = [];
+  for (const [key, chain] of Object.entries(capabilities)) {
+    const names = Object.entries(chain ?? {})
+      .filter(([, capability]) => isSupported(capability))
+      .map(([name]) => CAPABILITY_NAMES[name] ?? name);
+    if (names.length === 0) {
+      continue;
+    }
+    const label = key === ALL_CHAINS_KEY ? "All chains" : `Chain ${Number.parseInt(key, 16)}`;
+    lines.push(`${label}: ${[...new Set(names)].join(", ")}`);
+  }
+  return lines;
+}
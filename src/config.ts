@@ -1,5 +1,17 @@
 import process from "node:process";
-import type { ChainConfig } from "./types.ts";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import {
+  type ChainConfig,
+  type ChainOverride,
+  ChainOverrideSchema,
+  type ConfigFile,
+  ConfigFileSchema,
+  MAX_REQUEST_TIMEOUT_SECONDS,
+  MIN_REQUEST_TIMEOUT_SECONDS,
+} from "./types.ts";
 
 // Default HTTP server port
 export const DEFAULT_PORT = 3847;
@@ -16,6 +28,22 @@ export function getPort(): number {
   return DEFAULT_PORT;
 }
 
+// Default time a signing request waits for the user (5 minutes)
+export const DEFAULT_REQUEST_TIMEOUT_SECONDS = 5 * 60;
+
+// Get how long signing requests wait for the user, in milliseconds: EVM_MCP_REQUEST_TIMEOUT (seconds),
+// the config file's requestTimeoutSeconds, or 5 minutes
+export function getRequestTimeoutMs(): number {
+  const envTimeout = process.env.EVM_MCP_REQUEST_TIMEOUT;
+  if (envTimeout) {
+    const parsed = parseInt(envTimeout, 10);
+    if (!isNaN(parsed) && parsed >= MIN_REQUEST_TIMEOUT_SECONDS && parsed <= MAX_REQUEST_TIMEOUT_SECONDS) {
+      return parsed * 1000;
+    }
+  }
+  return (getConfigFile()?.requestTimeoutSeconds ?? DEFAULT_REQUEST_TIMEOUT_SECONDS) * 1000;
+}
+
 // Get default chain ID from environment or use mainnet
 export function getDefaultChainId(): number {
   const envChain = process.env.EVM_MCP_DEFAULT_CHAIN;
@@ -35,6 +63,7 @@ export const CHAINS: Record<number, ChainConfig> = {
     id: 1,
     name: "Ethereum",
     rpcUrl: "https://eth.llamarpc.com",
+    fallbackRpcUrls: ["https://ethereum-rpc.publicnode.com", "https://cloudflare-eth.com"],
     nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
     blockExplorer: "https://etherscan.io",
   },
@@ -43,6 +72,7 @@ export const CHAINS: Record<number, ChainConfig> = {
     id: 11155111,
     name: "Sepolia",
     rpcUrl: "https://rpc.sepolia.org",
+    fallbackRpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com"],
     nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
     blockExplorer: "https://sepolia.etherscan.io",
   },
@@ -51,6 +81,7 @@ export const CHAINS: Record<number, ChainConfig> = {
     id: 137,
     name: "Polygon",
     rpcUrl: "https://polygon-rpc.com",
+    fallbackRpcUrls: ["https://polygon-bor-rpc.publicnode.com"],
     nativeCurrency: { name: "MATIC", symbol: "MATIC", decimals: 18 },
     blockExplorer: "https://polygonscan.com",
   },
@@ -59,6 +90,7 @@ export const CHAINS: Record<number, ChainConfig> = {
     id: 42161,
     name: "Arbitrum One",
     rpcUrl: "https://arb1.arbitrum.io/rpc",
+    fallbackRpcUrls: ["https://arbitrum-one-rpc.publicnode.com"],
     nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
     blockExplorer: "https://arbiscan.io",
   },
@@ -67,6 +99,7 @@ export const CHAINS: Record<number, ChainConfig> = {
     id: 10,
     name: "Optimism",
     rpcUrl: "https://mainnet.optimism.io",
+    fallbackRpcUrls: ["https://optimism-rpc.publicnode.com"],
     nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
     blockExplorer: "https://optimistic.etherscan.io",
   },
@@ -75,6 +108,7 @@ export const CHAINS: Record<number, ChainConfig> = {
     id: 8453,
     name: "Base",
     rpcUrl: "https://mainnet.base.org",
+    fallbackRpcUrls: ["https://base-rpc.publicnode.com"],
     nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
     blockExplorer: "https://basescan.org",
   },
@@ -83,6 +117,7 @@ export const CHAINS: Record<number, ChainConfig> = {
     id: 43114,
     name: "Avalanche",
     rpcUrl: "https://api.avax.network/ext/bc/C/rpc",
+    fallbackRpcUrls: ["https://avalanche-c-chain-rpc.publicnode.com"],
     nativeCurrency: { name: "AVAX", symbol: "AVAX", decimals: 18 },
     blockExplorer: "https://snowtrace.io",
   },
@@ -91,17 +126,208 @@ export const CHAINS: Record<number, ChainConfig> = {
     id: 56,
     name: "BNB Smart Chain",
     rpcUrl: "https://bsc-dataseed.binance.org",
+    fallbackRpcUrls: ["https://bsc-rpc.publicnode.com"],
     nativeCurrency: { name: "BNB", symbol: "BNB", decimals: 18 },
     blockExplorer: "https://bscscan.com",
   },
 };
 
-// Get chain config by ID, with fallback for unknown chains
+// Native currency for chains that don't specify one
+const DEFAULT_NATIVE_CURRENCY = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+// Config file contents, loaded on first use
+let configFile: ConfigFile | undefined;
+let configFileLoaded = false;
+
+// Chains after applying the config file and environment overrides, loaded on first use
+let chains: Record<number, ChainConfig> | null = null;
+
+// Get the config file path: EVM_MCP_CONFIG, or mcp-wallet-signer/config.json in the XDG config directory
+export function getConfigPath(): string {
+  if (process.env.EVM_MCP_CONFIG) {
+    return process.env.EVM_MCP_CONFIG;
+  }
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "mcp-wallet-signer", "config.json");
+}
+
+// Get the audit log path: EVM_MCP_AUDIT_LOG ("off" disables it), the config file's auditLog, or
+// mcp-wallet-signer/audit.jsonl in the XDG state directory. Returns null when the log is disabled.
+export function getAuditLogPath(): string | null {
+  const fromEnv = process.env.EVM_MCP_AUDIT_LOG;
+  if (fromEnv) {
+    return fromEnv === "off" ? null : fromEnv;
+  }
+  const fromFile = getConfigFile()?.auditLog;
+  if (fromFile !== undefined) {
+    return fromFile || null;
+  }
+  const stateHome = process.env.XDG_STATE_HOME || join(homedir(), ".local", "state");
+  return join(stateHome, "mcp-wallet-signer", "audit.jsonl");
+}
+
+// Get the request store path: EVM_MCP_REQUEST_STORE ("off" disables it), the config file's requestStore, or
+// mcp-wallet-signer/requests.json in the XDG state directory. Returns null when requests are kept in memory only.
+export function getRequestStorePath(): string | null {
+  const fromEnv = process.env.EVM_MCP_REQUEST_STORE;
+  if (fromEnv) {
+    return fromEnv === "off" ? null : fromEnv;
+  }
+  const fromFile = getConfigFile()?.requestStore;
+  if (fromFile !== undefined) {
+    return fromFile || null;
+  }
+  const stateHome = process.env.XDG_STATE_HOME || join(homedir(), ".local", "state");
+  return join(stateHome, "mcp-wallet-signer", "requests.json");
+}
+
+// Get the file that holds recent spending for the policy's daily limits, next to the request store.
+// Returns null when requests are kept in memory only, and spending with them.
+export function getSpendingLedgerPath(): string | null {
+  const store = getRequestStorePath();
+  return store ? join(dirname(store), "spending.json") : null;
+}
+
+// Get the daemon file of the approval server on a port, in the XDG state directory
+export function getDaemonFilePath(port: number): string {
+  const stateHome = process.env.XDG_STATE_HOME || join(homedir(), ".local", "state");
+  return join(stateHome, "mcp-wallet-signer", `daemon-${port}.json`);
+}
+
+// Read and validate a config file. A missing file is only an error if it was named explicitly.
+export function readConfigFile(path: string, required = false): ConfigFile | undefined {
+  if (!existsSync(path)) {
+    if (required) {
+      throw new Error(`Config file not found: ${path}`);
+    }
+    return undefined;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid config file ${path}: ${message}`);
+  }
+
+  const parsed = ConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${path}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+// Collect per-chain overrides from EVM_MCP_RPC_<id> (comma-separated, first is primary), EVM_MCP_WALLET_RPC_<id>, EVM_MCP_EXPLORER_<id>,
+// EVM_MCP_CHAIN_NAME_<id> and EVM_MCP_NATIVE_SYMBOL_<id>
+export function readEnvOverrides(env: Record<string, string | undefined>): Record<string, ChainOverride> {
+  const fields: Array<[RegExp, (override: Record<string, unknown>, value: string) => void]> = [
+    [/^EVM_MCP_RPC_(\d+)$/, (o, v) => {
+      const [rpcUrl, ...fallbackRpcUrls] = v.split(",").map((url) => url.trim()).filter(Boolean);
+      o.rpcUrl = rpcUrl;
+      if (fallbackRpcUrls.length > 0) {
+        o.fallbackRpcUrls = fallbackRpcUrls;
+      }
+    }],
+    [/^EVM_MCP_WALLET_RPC_(\d+)$/, (o, v) => (o.walletRpcUrl = v)],
+    [/^EVM_MCP_EXPLORER_(\d+)$/, (o, v) => (o.blockExplorer = v)],
+    [/^EVM_MCP_CHAIN_NAME_(\d+)$/, (o, v) => (o.name = v)],
+    [/^EVM_MCP_NATIVE_SYMBOL_(\d+)$/, (o, v) => (o.nativeCurrency = { symbol: v })],
+  ];
+
+  const raw: Record<string, Record<string, unknown>> = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (!value) {
+      continue;
+    }
+    for (const [pattern, apply] of fields) {
+      const match = key.match(pattern);
+      if (match) {
+        apply(raw[match[1]] ??= {}, value);
+      }
+    }
+  }
+
+  const overrides: Record<string, ChainOverride> = {};
+  for (const [chainId, override] of Object.entries(raw)) {
+    const parsed = ChainOverrideSchema.safeParse(override);
+    if (!parsed.success) {
+      throw new Error(`Invalid environment overrides for chain ${chainId}: ${parsed.error.message}`);
+    }
+    overrides[chainId] = parsed.data;
+  }
+  return overrides;
+}
+
+// Apply config file and environment overrides (environment wins) on top of the built-in chains
+export function buildChains(
+  file: ConfigFile | undefined,
+  envOverrides: Record<string, ChainOverride>,
+): Record<number, ChainConfig> {
+  const result: Record<number, ChainConfig> = { ...CHAINS };
+
+  for (const overrides of [file?.chains ?? {}, envOverrides]) {
+    for (const [key, override] of Object.entries(overrides)) {
+      const id = Number(key);
+      const base = result[id];
+      const rpcUrl = override.rpcUrl ?? base?.rpcUrl;
+      if (!rpcUrl) {
+        throw new Error(`Chain ${id} is not built in, so it needs an rpcUrl`);
+      }
+
+      const nativeCurrency = base?.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY;
+      result[id] = {
+        id,
+        name: override.name ?? base?.name ?? `Chain ${id}`,
+        rpcUrl,
+        // A replaced RPC URL replaces the public fallbacks too, so reads never leave the chosen provider silently
+        fallbackRpcUrls: override.fallbackRpcUrls ?? (override.rpcUrl ? undefined : base?.fallbackRpcUrls),
+        walletRpcUrl: override.walletRpcUrl ?? base?.walletRpcUrl,
+        nativeCurrency: override.nativeCurrency
+          ? {
+            name: override.nativeCurrency.name ?? override.nativeCurrency.symbol,
+            symbol: override.nativeCurrency.symbol,
+            decimals: override.nativeCurrency.decimals ?? nativeCurrency.decimals,
+          }
+          : nativeCurrency,
+        blockExplorer: override.blockExplorer ?? base?.blockExplorer,
+      };
+    }
+  }
+
+  return result;
+}
+
+// Get the parsed config file, reading it on first use (undefined when there is none)
+export function getConfigFile(): ConfigFile | undefined {
+  if (!configFileLoaded) {
+    configFile = readConfigFile(getConfigPath(), Boolean(process.env.EVM_MCP_CONFIG));
+    configFileLoaded = true;
+  }
+  return configFile;
+}
+
+// Get all configured chains, loading the config file and environment on first use
+export function getChains(): Record<number, ChainConfig> {
+  if (!chains) {
+    chains = buildChains(getConfigFile(), readEnvOverrides(process.env));
+  }
+  return chains;
+}
+
+// Get chain config by ID, or undefined for unconfigured chains
 export function getChainConfig(chainId: number): ChainConfig | undefined {
-  return CHAINS[chainId];
+  return getChains()[chainId];
+}
+
+// Get all RPC URLs for a chain, primary first
+export function getRpcUrls(chainId: number): string[] {
+  const chain = getChainConfig(chainId);
+  return chain ? [chain.rpcUrl, ...(chain.fallbackRpcUrls ?? [])] : [];
 }
 
-// Get RPC URL for a chain
-export function getRpcUrl(chainId: number): string | undefined {
-  return CHAINS[chainId]?.rpcUrl;
+// Get block explorer link for a transaction, if the chain has an explorer
+export function getExplorerTxUrl(chainId: number, hash: string): string | null {
+  const explorer = getChainConfig(chainId)?.blockExplorer;
+  return explorer ? `${explorer.replace(/\/+$/, "")}/tx/${hash}` : null;
 }
@@ -0,0 +1,138 @@
+import process from "node:process";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { getDaemonFilePath } from "./config.ts";
+import type { DaemonInfo, DaemonRegisterApiRequest, RequestRecord } from "./types.ts";
+
+// Header carrying the daemon secret from MCP server processes that share the approval server
+export const DAEMON_TOKEN_HEADER = "X-Daemon-Token";
+
+// How long a call to the host may take before it counts as unreachable
+const DAEMON_CALL_TIMEOUT_MS = 5_000;
+
+// Delay between looks for the daemon file of a host that has only just started listening
+const DAEMON_RETRY_DELAY_MS = 200;
+
+/**
+ * Read the daemon file of the approval server on `port`, if one was written
+ */
+export function readDaemonInfo(port: number): DaemonInfo | undefined {
+  const path = getDaemonFilePath(port);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    const info = JSON.parse(readFileSync(path, "utf8")) as DaemonInfo;
+    return info.port === port && typeof info.token === "string" ? info : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Advertise the approval server this process hosts to other MCP server processes. Only the user can read the file.
+ */
+export function writeDaemonInfo(info: DaemonInfo): void {
+  const path = getDaemonFilePath(info.port);
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(info), { mode: 0o600 });
+  } catch (error) {
+    // Other processes then start their own server on another port, as before daemons existed
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[mcp-wallet-signer] Failed to write daemon file ${path}: ${message}`);
+  }
+}
+
+/**
+ * Remove the daemon file of `port` if this process wrote it
+ */
+export function removeDaemonInfo(port: number): void {
+  if (readDaemonInfo(port)?.pid === process.pid) {
+    rmSync(getDaemonFilePath(port), { force: true });
+  }
+}
+
+/**
+ * Client for the approval server hosted by another MCP server process.
+ * Requests are registered with the host, which shows them in its dashboard and approval tab,
+ * then followed until the host reports how they ended.
+ */
+export class DaemonClient {
+  constructor(readonly port: number, private token: string) {}
+
+  /**
+   * Call a daemon endpoint; resolves to undefined when the host doesn't know the resource
+   */
+  private async call<T>(method: string, path: string, body?: unknown): Promise<T | undefined> {
+    const response = await fetch(`http://127.0.0.1:${this.port}/api/daemon${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", [DAEMON_TOKEN_HEADER]: this.token },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(DAEMON_CALL_TIMEOUT_MS),
+    });
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return undefined;
+    }
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+    return data as T;
+  }
+
+  /**
+   * Check that the host is still up and accepts this client's token
+   */
+  async isAlive(): Promise<boolean> {
+    try {
+      return (await this.call<{ ok: boolean }>("GET", "/health"))?.ok === true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Hand a request to the host, which logs it and opens (or pushes to) the approval tab
+   */
+  async register(registration: DaemonRegisterApiRequest): Promise<void> {
+    await this.call("POST", "/requests", registration);
+  }
+
+  /**
+   * Get the host's record of a request
+   */
+  getRecord(id: string): Promise<RequestRecord | undefined> {
+    return this.call<RequestRecord>("GET", `/requests/${id}`);
+  }
+
+  /**
+   * Cancel a request at the host; resolves to false if it was no longer pending
+   */
+  async cancel(id: string, reason: string): Promise<boolean> {
+    return (await this.call<{ cancelled: boolean }>("POST", `/requests/${id}/cancel`, { reason }))?.cancelled === true;
+  }
+}
+
+/**
+ * Find the approval server another process hosts on `port` from its daemon file.
+ * The host writes the file just after it starts listening, so a process that lost the race for the port
+ * can wait `retries` times for it to appear.
+ */
+export async function findDaemon(port: number, retries = 0): Promise<DaemonClient | undefined> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const info = readDaemonInfo(port);
+    if (info && info.pid !== process.pid) {
+      const client = new DaemonClient(port, info.token);
+      if (await client.isAlive()) {
+        return client;
+      }
+    }
+    if (attempt < retries) {
+      await new Promise((resolve) => setTimeout(resolve, DAEMON_RETRY_DELAY_MS));
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,82 @@
+import type { RequestEvent } from "./types.ts";
+
+// Interval between keep-alive comments, so idle connections aren't dropped by the browser
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+// Open server-sent events response (node:http ServerResponse in practice)
+export interface EventStream {
+  write(chunk: string): unknown;
+}
+
+/**
+ * Server-sent events channel to open approval tabs and dashboards.
+ * New requests are pushed to a tab that is already open instead of launching a new one per request.
+ */
+export class RequestEvents {
+  private streams: Set<EventStream> = new Set();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  // In-process listeners, such as MCP resource subscriptions; they don't count as open tabs
+  private listeners: Set<(event: RequestEvent) => void> = new Set();
+
+  /**
+   * Start sending events to a stream; returns a function that stops them
+   */
+  subscribe(stream: EventStream): () => void {
+    this.streams.add(stream);
+    if (!this.heartbeat) {
+      this.heartbeat = setInterval(() => this.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+    }
+
+    return () => {
+      this.streams.delete(stream);
+      if (this.streams.size === 0 && this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = null;
+      }
+    };
+  }
+
+  /**
+   * Call `listener` with every event published in this process; returns a function that stops it
+   */
+  listen(listener: (event: RequestEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Push an event to every open stream and in-process listener
+   */
+  publish(event: RequestEvent): void {
+    this.write(`data: ${JSON.stringify(event)}\n\n`);
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[mcp-wallet-signer] Request event listener failed: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Number of open tabs listening for requests
+   */
+  get listenerCount(): number {
+    return this.streams.size;
+  }
+
+  private write(chunk: string): void {
+    for (const stream of this.streams) {
+      try {
+        stream.write(chunk);
+      } catch {
+        // Connection went away; its close handler unsubscribes it
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const requestEvents = new RequestEvents();
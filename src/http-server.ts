@@ -1,15 +1,79 @@
+import process from "node:process";
+import { timingSafeEqual } from "node:crypto";
 import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
 import { statSync } from "node:fs";
 import { readFile } from "node:fs/promises";
 import type { AddressInfo } from "node:net";
+import { type Abi, type Address, type Hex, isAddress } from "viem";
 
-import { getPort } from "./config.ts";
+import { auditLog } from "./audit.ts";
+import { buildConnectUrl, buildDashboardUrl, buildSignUrl, openBrowser } from "./browser.ts";
+import { DAEMON_TOKEN_HEADER, DaemonClient, findDaemon, removeDaemonInfo, writeDaemonInfo } from "./daemon.ts";
+import { requestEvents } from "./events.ts";
+import { getChainConfig, getDefaultChainId, getPort } from "./config.ts";
 import { pendingStore } from "./pending-store.ts";
-import type { CompleteApiRequest, PendingApiResponse } from "./types.ts";
+import { rpcClients } from "./rpc.ts";
+import { walletSession } from "./session.ts";
+import { simulateTransaction } from "./simulate.ts";
+import { verifyResult } from "./verify.ts";
+import {
+  type ApiChain,
+  type CompleteApiRequest,
+  type DaemonRegisterApiRequest,
+  type ExtendApiResponse,
+  GetRequestHistorySchema,
+  type HistoryApiResponse,
+  type PendingApiResponse,
+  type PendingListApiResponse,
+  type PendingListItem,
+  type RequestStage,
+  type RequestType,
+  type SimulateApiRequest,
+  type SimulateApiResponse,
+  type StageApiRequest,
+} from "./types.ts";
+
+// Header carrying the per-request capability secret from the approval page
+const REQUEST_TOKEN_HEADER = "X-Request-Token";
+
+// Header carrying the server-wide secret for views across requests (dashboard, history)
+const DASHBOARD_TOKEN_HEADER = "X-Dashboard-Token";
+
+// Server-wide capability secret, generated per process (256 bits, hex encoded)
+const dashboardSecret = Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, "0"))
+  .join("");
+
+// Secret other MCP server processes present to register requests with this one (256 bits, hex encoded)
+const daemonSecret = Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, "0"))
+  .join("");
+
+// Request IDs are UUIDs; request secrets are 256 bits, hex encoded
+const REQUEST_ID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/;
+const REQUEST_SECRET_PATTERN = /^[a-f0-9]{64}$/;
+
+const REQUEST_TYPES: RequestType[] = [
+  "connect",
+  "send_transaction",
+  "send_transactions",
+  "sign_message",
+  "sign_typed_data",
+  "calls_status",
+];
+
+const REQUEST_STAGES: RequestStage[] = [
+  "browser_opened",
+  "page_loaded",
+  "wallet_connected",
+  "awaiting_signature",
+  "broadcast",
+];
 
 let server: Server | null = null;
 let serverPort: number | null = null;
 
+// Approval server hosted by another MCP server process, when this one shares it instead of hosting
+let daemon: DaemonClient | null = null;
+
 // Store test results for e2e browser testing
 const testResults = new Map<string, { success: boolean; result?: string; error?: string }>();
 
@@ -39,6 +103,61 @@ function getWebDistPath(): string {
   }
 }
 
+/**
+ * Get the secret that grants access to server-wide views such as the request history
+ */
+export function getDashboardToken(): string {
+  return dashboardSecret;
+}
+
+/**
+ * Get the secret other MCP server processes use to share this server (it is also in the daemon file)
+ */
+export function getDaemonToken(): string {
+  return daemonSecret;
+}
+
+function verifyDashboardToken(token: string | null): boolean {
+  return !!token && token.length === dashboardSecret.length &&
+    timingSafeEqual(new TextEncoder().encode(token), new TextEncoder().encode(dashboardSecret));
+}
+
+function verifyDaemonToken(token: string | null): boolean {
+  return !!token && token.length === daemonSecret.length &&
+    timingSafeEqual(new TextEncoder().encode(token), new TextEncoder().encode(daemonSecret));
+}
+
+/**
+ * Check a request registered by another MCP server process before taking it over
+ */
+function isValidRegistration(data: DaemonRegisterApiRequest | null, origin: string): boolean {
+  const request = data?.request;
+  return !!data && !!request && typeof request === "object" &&
+    typeof request.id === "string" && REQUEST_ID_PATTERN.test(request.id) &&
+    REQUEST_TYPES.includes(request.type) &&
+    typeof request.createdAt === "number" &&
+    typeof data.secret === "string" && REQUEST_SECRET_PATTERN.test(data.secret) &&
+    typeof data.expiresAt === "number" && data.expiresAt > Date.now() &&
+    typeof data.approvalUrl === "string" && data.approvalUrl.startsWith(`${origin}/`);
+}
+
+/**
+ * Describe a configured chain for the approval page, using the wallet-facing RPC URL
+ */
+function getApiChain(chainId: number): ApiChain | undefined {
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    return undefined;
+  }
+  return {
+    id: chain.id,
+    name: chain.name,
+    rpcUrl: chain.walletRpcUrl ?? chain.rpcUrl,
+    nativeCurrency: chain.nativeCurrency,
+    blockExplorer: chain.blockExplorer,
+  };
+}
+
 /**
  * Serve static files from the web dist directory
  */
@@ -105,13 +224,27 @@ function getContentType(path: string): string {
 }
 
 /**
- * Handle API requests
+ * Handle API requests.
+ * `origin` is the server's own origin; `token` is the request capability secret sent by the approval page,
+ * `dashboardToken` the server-wide secret for history views and `daemonToken` the secret of MCP server
+ * processes sharing this server.
  */
-function handleApiRequest(pathname: string, method: string, body: unknown): Response {
+async function handleApiRequest(
+  url: URL,
+  method: string,
+  body: unknown,
+  origin: string,
+  token: string | null,
+  dashboardToken: string | null,
+  daemonToken: string | null,
+): Promise<Response> {
+  const pathname = url.pathname;
+
+  // Only the bundled UI (served from this origin) may read API responses
   const corsHeaders = {
-    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Origin": origin,
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Headers": `Content-Type, ${REQUEST_TOKEN_HEADER}, ${DASHBOARD_TOKEN_HEADER}`,
   };
 
   // Handle CORS preflight
@@ -119,6 +252,40 @@ function handleApiRequest(pathname: string, method: string, body: unknown): Resp
     return new Response(null, { status: 204, headers: corsHeaders });
   }
 
+  // GET /api/pending - List pending requests for the dashboard, oldest first
+  if (pathname === "/api/pending" && method === "GET") {
+    if (!verifyDashboardToken(dashboardToken)) {
+      return new Response(JSON.stringify({ error: "Invalid dashboard token" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const port = Number(new URL(origin).port);
+    const requests: PendingListItem[] = [];
+    for (const id of pendingStore.getPendingIds()) {
+      const request = pendingStore.get(id);
+      const secret = pendingStore.getSecret(id);
+      const expiresAt = pendingStore.getExpiresAt(id);
+      if (!request || !secret || !expiresAt) {
+        continue;
+      }
+      requests.push({
+        request,
+        chain: getApiChain(request.chainId ?? getDefaultChainId()),
+        approvalUrl: request.type === "connect" ? buildConnectUrl(port, id, secret) : buildSignUrl(port, id, secret),
+        expiresAt,
+        stage: pendingStore.getRecord(id)?.stage,
+      });
+    }
+    requests.sort((a, b) => a.request.createdAt - b.request.createdAt);
+
+    const response: PendingListApiResponse = { requests };
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
   // GET /api/pending/:id - Get pending request details
   const pendingMatch = pathname.match(/^\/api\/pending\/([a-f0-9-]+)$/);
   if (pendingMatch && method === "GET") {
@@ -132,24 +299,203 @@ function handleApiRequest(pathname: string, method: string, body: unknown): Resp
       });
     }
 
-    const response: PendingApiResponse = { request };
+    if (!pendingStore.verifySecret(id, token)) {
+      return new Response(JSON.stringify({ error: "Invalid request token" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    auditLog.recordOpened(id);
+
+    const response: PendingApiResponse = {
+      request,
+      chain: getApiChain(request.chainId ?? getDefaultChainId()),
+      dashboardToken: dashboardSecret,
+      expiresAt: pendingStore.getExpiresAt(id),
+    };
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // GET /api/history - Past requests and their outcomes from the audit log
+  if (pathname === "/api/history" && method === "GET") {
+    if (!verifyDashboardToken(dashboardToken)) {
+      return new Response(JSON.stringify({ error: "Invalid dashboard token" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const query = Object.fromEntries(url.searchParams);
+    const parsed = GetRequestHistorySchema.safeParse({
+      ...query,
+      chainId: query.chainId ? Number(query.chainId) : undefined,
+      limit: query.limit ? Number(query.limit) : undefined,
+    });
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: `Invalid query: ${parsed.error.message}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const response: HistoryApiResponse = { records: auditLog.query(parsed.data) };
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // POST /api/simulate/:id - Dry-run a pending transaction against the chain RPC
+  const simulateMatch = pathname.match(/^\/api\/simulate\/([a-f0-9-]+)$/);
+  if (simulateMatch && method === "POST") {
+    const id = simulateMatch[1];
+    const request = pendingStore.get(id);
+
+    if (!request || request.type !== "send_transaction") {
+      return new Response(JSON.stringify({ error: "Request not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!pendingStore.verifySecret(id, token)) {
+      return new Response(JSON.stringify({ error: "Invalid request token" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const from = (body as SimulateApiRequest | null)?.from ?? walletSession.get().address;
+    if (from !== undefined && !isAddress(from, { strict: false })) {
+      return new Response(JSON.stringify({ error: "Invalid request body" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const chainId = request.chainId || getDefaultChainId();
+    const client = rpcClients.getClient(chainId);
+    if (!client) {
+      return new Response(JSON.stringify({ error: `No RPC URL configured for chain ${chainId}` }), {
+        status: 503,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const simulation = await simulateTransaction(
+        client,
+        chainId,
+        {
+          from,
+          to: request.to as Address,
+          value: request.value ? BigInt(request.value) : undefined,
+          data: request.data as Hex | undefined,
+          gas: request.gasLimit ? BigInt(request.gasLimit) : undefined,
+        },
+        request.abi as Abi | undefined,
+      );
+      const response: SimulateApiResponse = { simulation };
+      return new Response(JSON.stringify(response, (_key, value) => typeof value === "bigint" ? value.toString() : value), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return new Response(JSON.stringify({ error: `Simulation failed: ${message}` }), {
+        status: 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // POST /api/extend/:id - Give the user more time to act on a pending request
+  const extendMatch = pathname.match(/^\/api\/extend\/([a-f0-9-]+)$/);
+  if (extendMatch && method === "POST") {
+    const id = extendMatch[1];
+
+    if (!pendingStore.has(id)) {
+      return new Response(JSON.stringify({ error: "Request not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!pendingStore.verifySecret(id, token)) {
+      return new Response(JSON.stringify({ error: "Invalid request token" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const expiresAt = pendingStore.extend(id);
+    if (expiresAt === undefined) {
+      return new Response(JSON.stringify({ error: "The request can't be extended any further" }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const response: ExtendApiResponse = { expiresAt };
     return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   }
 
+  // POST /api/status/:id - Report how far the user has got, passed on to the waiting agent as progress
+  const statusMatch = pathname.match(/^\/api\/status\/([a-f0-9-]+)$/);
+  if (statusMatch && method === "POST") {
+    const id = statusMatch[1];
+
+    if (!pendingStore.has(id)) {
+      return new Response(JSON.stringify({ error: "Request not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!pendingStore.verifySecret(id, token)) {
+      return new Response(JSON.stringify({ error: "Invalid request token" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const data = body as StageApiRequest | null;
+    if (!data || !REQUEST_STAGES.includes(data.stage)) {
+      return new Response(JSON.stringify({ error: "Invalid request body" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    pendingStore.setStage(id, data.stage);
+    return new Response(JSON.stringify({ ok: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
   // POST /api/complete/:id - Complete a pending request
   const completeMatch = pathname.match(/^\/api\/complete\/([a-f0-9-]+)$/);
   if (completeMatch && method === "POST") {
     const id = completeMatch[1];
+    const request = pendingStore.getCompletable(id);
 
-    if (!pendingStore.has(id)) {
+    if (!request) {
       return new Response(JSON.stringify({ error: "Request not found" }), {
         status: 404,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
+    if (!pendingStore.verifySecret(id, token)) {
+      return new Response(JSON.stringify({ error: "Invalid request token" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     const data = body as CompleteApiRequest;
 
     if (typeof data.success !== "boolean") {
@@ -159,15 +505,37 @@ function handleApiRequest(pathname: string, method: string, body: unknown): Resp
       });
     }
 
+    // Only batches report per-transaction outcomes; connect and calls_status requests report what the wallet returned
+    const batch = data.batch && Array.isArray(data.batch.hashes) ? { batch: data.batch } : {};
+    const details = {
+      ...(data.capabilities && typeof data.capabilities === "object" ? { capabilities: data.capabilities } : {}),
+      ...(data.callsStatus && typeof data.callsStatus === "object" ? { callsStatus: data.callsStatus } : {}),
+    };
     const result = data.success
-      ? { success: true as const, result: data.result || "" }
-      : { success: false as const, error: data.error || "Unknown error" };
+      ? { success: true as const, result: data.result || "", ...batch, ...details }
+      : { success: false as const, error: data.error || "Unknown error", ...batch };
 
-    const completed = pendingStore.complete(id, result);
+    // Never hand the agent an address, hash or signature that doesn't match what it asked for
+    const verified = await verifyResult(request, result);
+    const completed = pendingStore.complete(id, verified);
 
+    // Verification can take a while; the request may have been cancelled, timed out or completed meanwhile
     if (!completed) {
-      return new Response(JSON.stringify({ error: "Failed to complete request" }), {
-        status: 500,
+      const status = pendingStore.getRecord(id)?.status;
+      const ended = status === "cancelled" || status === "expired";
+      return new Response(JSON.stringify({ error: ended ? `Request ${status}` : "Request already completed" }), {
+        status: ended ? 410 : 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (verified.success && request.type === "connect") {
+      walletSession.setConnected(verified.result, request.chainId, verified.capabilities);
+    }
+
+    if (!verified.success && result.success) {
+      return new Response(JSON.stringify({ error: verified.error }), {
+        status: 422,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
@@ -190,20 +558,92 @@ function handleApiRequest(pathname: string, method: string, body: unknown): Resp
     );
   }
 
+  // === Daemon endpoints (for other MCP server processes sharing this server) ===
+  // Browsers can't call these: the token header isn't allowed cross-origin and the bundled UI never sends it.
+
+  if (pathname.startsWith("/api/daemon/") && !verifyDaemonToken(daemonToken)) {
+    return new Response(JSON.stringify({ error: "Invalid daemon token" }), {
+      status: 403,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // GET /api/daemon/health - Confirm this process hosts the approval server
+  if (pathname === "/api/daemon/health" && method === "GET") {
+    return new Response(JSON.stringify({ ok: true, pid: process.pid }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // POST /api/daemon/requests - Take over a request another process created, and open its approval page
+  if (pathname === "/api/daemon/requests" && method === "POST") {
+    const data = body as DaemonRegisterApiRequest | null;
+    if (!isValidRegistration(data, origin)) {
+      return new Response(JSON.stringify({ error: "Invalid request body" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { request, secret, expiresAt, approvalUrl } = data!;
+    if (!pendingStore.adopt(request, secret, expiresAt)) {
+      return new Response(JSON.stringify({ error: "Request already exists" }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    auditLog.recordCreated(request, approvalUrl);
+    await openBrowser(approvalUrl);
+    pendingStore.setStage(request.id, "browser_opened");
+
+    return new Response(JSON.stringify({ ok: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // GET /api/daemon/requests/:id - Status and outcome of a request, for the process that created it
+  const daemonRecordMatch = pathname.match(/^\/api\/daemon\/requests\/([a-f0-9-]+)$/);
+  if (daemonRecordMatch && method === "GET") {
+    const record = pendingStore.getRecord(daemonRecordMatch[1]);
+    if (!record) {
+      return new Response(JSON.stringify({ error: "Request not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    return new Response(JSON.stringify(record), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // POST /api/daemon/requests/:id/cancel - Withdraw a request on behalf of the process that created it
+  const daemonCancelMatch = pathname.match(/^\/api\/daemon\/requests\/([a-f0-9-]+)\/cancel$/);
+  if (daemonCancelMatch && method === "POST") {
+    const reason = (body as { reason?: unknown } | null)?.reason;
+    const cancelled = pendingStore.cancel(daemonCancelMatch[1], typeof reason === "string" ? reason : undefined);
+    return new Response(JSON.stringify({ cancelled }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
   // === Test endpoints (for e2e browser testing) ===
 
   // POST /api/test/create-request - Create a pending request for testing
   if (pathname === "/api/test/create-request" && method === "POST") {
     const data = body as Record<string, unknown>;
     const type = data.type as string;
+    const timeoutMs = typeof data.timeoutSeconds === "number" ? data.timeoutSeconds * 1000 : undefined;
 
     let id: string;
+    let secret: string;
     let promise: Promise<unknown>;
 
     switch (type) {
       case "connect": {
-        const result = pendingStore.createConnectRequest(data.chainId as number | undefined);
+        const result = pendingStore.createConnectRequest(data.chainId as number | undefined, timeoutMs);
         id = result.id;
+        secret = result.secret;
         promise = result.promise;
         break;
       }
@@ -216,8 +656,25 @@ function handleApiRequest(pathname: string, method: string, body: unknown): Resp
           gasLimit: data.gasLimit as string | undefined,
           maxFeePerGas: data.maxFeePerGas as string | undefined,
           maxPriorityFeePerGas: data.maxPriorityFeePerGas as string | undefined,
-        });
+          abi: data.abi as Record<string, unknown>[] | undefined,
+          functionSignature: data.functionSignature as string | undefined,
+          policyWarnings: data.policyWarnings as string[] | undefined,
+          intent: data.intent as Parameters<typeof pendingStore.createSendTransactionRequest>[0]["intent"],
+        }, timeoutMs);
+        id = result.id;
+        secret = result.secret;
+        promise = result.promise;
+        break;
+      }
+      case "send_transactions": {
+        const result = pendingStore.createSendTransactionsRequest({
+          transactions: data.transactions as Parameters<typeof pendingStore.createSendTransactionsRequest>[0]["transactions"],
+          chainId: data.chainId as number | undefined,
+          atomic: data.atomic as boolean | undefined,
+          paymasterUrl: data.paymasterUrl as string | undefined,
+        }, timeoutMs);
         id = result.id;
+        secret = result.secret;
         promise = result.promise;
         break;
       }
@@ -226,8 +683,10 @@ function handleApiRequest(pathname: string, method: string, body: unknown): Resp
           message: data.message as string,
           address: data.address as string | undefined,
           chainId: data.chainId as number | undefined,
-        });
+          siwe: data.siwe as Parameters<typeof pendingStore.createSignMessageRequest>[0]["siwe"],
+        }, timeoutMs);
         id = result.id;
+        secret = result.secret;
         promise = result.promise;
         break;
       }
@@ -239,8 +698,21 @@ function handleApiRequest(pathname: string, method: string, body: unknown): Resp
           message: data.message as Record<string, unknown>,
           address: data.address as string | undefined,
           chainId: data.chainId as number | undefined,
-        });
+          permit: data.permit as Parameters<typeof pendingStore.createSignTypedDataRequest>[0]["permit"],
+        }, timeoutMs);
         id = result.id;
+        secret = result.secret;
+        promise = result.promise;
+        break;
+      }
+      case "calls_status": {
+        const result = pendingStore.createCallsStatusRequest({
+          callsId: data.callsId as string,
+          wait: data.wait as boolean | undefined,
+          chainId: data.chainId as number | undefined,
+        }, timeoutMs);
+        id = result.id;
+        secret = result.secret;
         promise = result.promise;
         break;
       }
@@ -258,7 +730,7 @@ function handleApiRequest(pathname: string, method: string, body: unknown): Resp
       testResults.set(id, { success: false, error: err.message });
     });
 
-    return new Response(JSON.stringify({ id }), {
+    return new Response(JSON.stringify({ id, secret }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   }
@@ -330,6 +802,24 @@ function makeHandler(webDistPath: string) {
 
     let response: Response;
 
+    // GET /api/events - Push request events to open tabs.
+    // Streams, so it's handled outside handleApiRequest; EventSource can't set headers, so the token is a query parameter.
+    if (pathname === "/api/events" && method === "GET") {
+      if (!verifyDashboardToken(url.searchParams.get("token"))) {
+        response = new Response(JSON.stringify({ error: "Invalid dashboard token" }), {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        });
+        await writeResponse(res, response);
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", "Connection": "keep-alive" });
+      res.write(": connected\n\n");
+      req.on("close", requestEvents.subscribe(res));
+      return;
+    }
+
     if (pathname.startsWith("/api/")) {
       let body: unknown = null;
       if (method === "POST") {
@@ -345,7 +835,19 @@ function makeHandler(webDistPath: string) {
           return;
         }
       }
-      response = handleApiRequest(pathname, method, body);
+      const origin = `http://127.0.0.1:${req.socket.localPort}`;
+      const token = req.headers[REQUEST_TOKEN_HEADER.toLowerCase()];
+      const dashboard = req.headers[DASHBOARD_TOKEN_HEADER.toLowerCase()];
+      const daemonToken = req.headers[DAEMON_TOKEN_HEADER.toLowerCase()];
+      response = await handleApiRequest(
+        url,
+        method,
+        body,
+        origin,
+        typeof token === "string" ? token : null,
+        typeof dashboard === "string" ? dashboard : null,
+        typeof daemonToken === "string" ? daemonToken : null,
+      );
     } else {
       response = await serveStaticFile(pathname, webDistPath);
     }
@@ -355,34 +857,83 @@ function makeHandler(webDistPath: string) {
 }
 
 /**
- * Start the HTTP server if not already running
+ * Share the approval server another MCP server process hosts on `port`, forwarding new requests to it
+ */
+function useDaemon(client: DaemonClient): void {
+  daemon = client;
+  pendingStore.useDaemon(client);
+  console.error(`[mcp-wallet-signer] Sharing the approval server of another MCP server on http://127.0.0.1:${client.port}`);
+}
+
+/**
+ * Join the approval server another MCP server process already hosts, if there is one.
+ * Returns whether this process now forwards its requests there.
+ */
+export async function joinRunningServer(overridePort?: number): Promise<boolean> {
+  const client = await findDaemon(overridePort ?? getPort());
+  if (client) {
+    useDaemon(client);
+  }
+  return client !== undefined;
+}
+
+/**
+ * Start the HTTP server if not already running.
+ * If another MCP server process holds the port, share its server instead; if that process has gone, take over.
+ * Returns the port approval pages are served on.
  */
 export async function ensureServerRunning(overridePort?: number): Promise<number> {
   if (server && serverPort) {
     return serverPort;
   }
 
+  if (daemon) {
+    if (await daemon.isAlive()) {
+      return daemon.port;
+    }
+    console.error(`[mcp-wallet-signer] The approval server on port ${daemon.port} has stopped; taking over`);
+    daemon = null;
+    pendingStore.useDaemon(null);
+    // Pick up what the previous host saved, so its open approval tabs keep working
+    pendingStore.restore();
+  }
+
   const port = overridePort ?? getPort();
   const webDistPath = getWebDistPath();
 
   const srv = createServer(makeHandler(webDistPath));
 
-  await new Promise<void>((resolve) => {
-    srv.listen(port, "127.0.0.1", () => resolve());
-  });
+  try {
+    await new Promise<void>((resolve, reject) => {
+      srv.once("error", reject);
+      srv.listen(port, "127.0.0.1", () => resolve());
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EADDRINUSE") {
+      throw error;
+    }
+    const client = await findDaemon(port, 10);
+    if (!client) {
+      throw new Error(`Port ${port} is in use by another program; set EVM_MCP_PORT to use a different port`);
+    }
+    useDaemon(client);
+    return client.port;
+  }
 
   server = srv;
   serverPort = (srv.address() as AddressInfo).port;
+  writeDaemonInfo({ port: serverPort, pid: process.pid, token: daemonSecret });
   console.error(`[mcp-wallet-signer] HTTP server running on http://127.0.0.1:${serverPort}`);
+  console.error(`[mcp-wallet-signer] Dashboard: ${buildDashboardUrl(serverPort, dashboardSecret)}`);
 
   return serverPort;
 }
 
 /**
- * Get the current server port (if running)
+ * Get the port approval pages are served on: this process's server, or the one it shares (if any)
  */
 export function getServerPort(): number | null {
-  return serverPort;
+  return serverPort ?? daemon?.port ?? null;
 }
 
 /**
@@ -393,6 +944,7 @@ export async function stopServer(): Promise<void> {
     await new Promise<void>((resolve, reject) => {
       server!.close((err) => (err ? reject(err) : resolve()));
     });
+    removeDaemonInfo(serverPort!);
     server = null;
     serverPort = null;
   }
@@ -417,6 +969,8 @@ export async function startTestServer(): Promise<{ port: number; stop: () => Pro
     stop: () =>
       new Promise<void>((resolve, reject) => {
         srv.close((err) => (err ? reject(err) : resolve()));
+        // close() waits for keep-alive sockets held by fetch clients; drop them so stop() returns promptly
+        srv.closeAllConnections();
       }),
   };
 }
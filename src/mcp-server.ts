@@ -1,13 +1,85 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { createPublicClient, formatEther, http } from "viem";
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  type Abi,
+  type Address,
+  encodeFunctionData,
+  erc20Abi,
+  formatEther,
+  formatGwei,
+  type Hex,
+  isAddress,
+  isHash,
+  isHex,
+  parseAbiItem,
+  WaitForTransactionReceiptTimeoutError,
+} from "viem";
 
 import { pendingStore } from "./pending-store.ts";
-import { ensureServerRunning } from "./http-server.ts";
+import { ensureServerRunning, getServerPort, joinRunningServer } from "./http-server.ts";
 import { buildConnectUrl, buildSignUrl, openBrowser } from "./browser.ts";
-import { CHAINS, getDefaultChainId, getRpcUrl } from "./config.ts";
-import { ConnectWalletSchema, GetBalanceSchema, SendTransactionSchema, SignMessageSchema, SignTypedDataSchema } from "./types.ts";
+import { getChainConfig, getChains, getDefaultChainId, getExplorerTxUrl } from "./config.ts";
+import { redactRpcUrl, rpcClients } from "./rpc.ts";
+import { formatPolicyViolations, getPolicyEngine } from "./policy.ts";
+import { readTokenBalance, readTokenMetadata, resolveTokenAddress, TOKENS } from "./tokens.ts";
+import { parseAmount, resolveTransactionValue } from "./amounts.ts";
+import { getTransactionReport, waitForTransactionReport } from "./receipts.ts";
+import { simulateTransaction } from "./simulate.ts";
+import { walletSession } from "./session.ts";
+import { auditLog } from "./audit.ts";
+import { describeCapabilities, hasCapability } from "./capabilities.ts";
+import { buildSiweMessage, checkSiweMessage } from "./siwe.ts";
+import { buildErc2612Permit, buildPermit2, splitPermitSignature } from "./permits.ts";
+import { type AllowanceInfo, readAllowance, scanAllowances } from "./allowances.ts";
+import { verifyMessageSigner } from "./verify.ts";
+import { requestEvents } from "./events.ts";
+import { getUpdatedResources, readResource, RESOURCE_TEMPLATES, RESOURCES } from "./resources.ts";
+import {
+  CancelRequestSchema,
+  ConnectWalletSchema,
+  GetAllowancesSchema,
+  GetBalanceSchema,
+  GetCallsStatusSchema,
+  GetRequestHistorySchema,
+  GetRequestStatusSchema,
+  GetRpcStatusSchema,
+  GetTokenBalanceSchema,
+  GetTransactionReceiptSchema,
+  RevokeAllowanceSchema,
+  SendTransactionSchema,
+  SendTransactionsSchema,
+  SignInWithEthereumSchema,
+  SignMessageSchema,
+  SignPermit2Schema,
+  SignPermitSchema,
+  SignTypedDataSchema,
+  SimulateTransactionSchema,
+  TransferTokenSchema,
+  VerifySiweSchema,
+  WaitForTransactionSchema,
+} from "./types.ts";
+import type {
+  BatchTransaction,
+  CallsStatus,
+  PermitSummary,
+  RequestResult,
+  RequestStage,
+  RequestType,
+  RevokeIntent,
+  SimulationReport,
+  TransactionIntent,
+  TransactionReceiptReport,
+  TransferIntent,
+} from "./types.ts";
 import pkg from "../package.json" with { type: "json" };
 
 // Tool definitions
@@ -15,7 +87,7 @@ const TOOLS = [
   {
     name: "connect_wallet",
     description:
-      "Connect to a browser wallet and get the wallet address. IMPORTANT: This tool opens a browser window where the user must approve the connection. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (5 min).",
+      "Connect to a browser wallet and get the wallet address, plus the EIP-5792 capabilities it reports per chain (atomic batching, gas sponsorship via a paymaster service, auxiliary funds). IMPORTANT: This tool opens a browser window where the user must approve the connection. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -23,13 +95,22 @@ const TOOLS = [
           type: "number",
           description: "Chain ID to connect to (default: 1 for Ethereum mainnet)",
         },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
       },
     },
   },
   {
     name: "send_transaction",
     description:
-      "Send a transaction (ETH transfer or contract call) via the connected browser wallet. IMPORTANT: This tool opens a browser window where the user must review and approve the transaction. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (5 min).",
+      "Send a transaction (ETH transfer or contract call) via the connected browser wallet. IMPORTANT: This tool opens a browser window where the user must review and approve the transaction. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -41,6 +122,14 @@ const TOOLS = [
           type: "string",
           description: "Amount in wei to send (optional for contract calls)",
         },
+        valueEther: {
+          type: "string",
+          description: 'Amount of the chain\'s native currency to send, e.g. "0.25" (alternative to value)',
+        },
+        valueUnits: {
+          type: "string",
+          description: 'Amount to send with a unit (wei, gwei or ether), e.g. "30 gwei" (alternative to value)',
+        },
         data: {
           type: "string",
           description: "Contract call data, hex encoded (optional)",
@@ -61,14 +150,207 @@ const TOOLS = [
           type: "string",
           description: "Max priority fee per gas in wei (optional)",
         },
+        abi: {
+          type: "array",
+          description:
+            "Contract ABI (optional) used to decode the call data on the approval page and revert reasons in the receipt",
+          items: { type: "object" },
+        },
+        functionSignature: {
+          type: "string",
+          description:
+            'Function signature (optional) used to decode the call data on the approval page, e.g. "transfer(address to, uint256 amount)"',
+        },
+        waitForReceipt: {
+          type: "boolean",
+          description: "After sending, wait for the transaction to be mined and include the receipt (ignored in async mode)",
+        },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
       },
       required: ["to"],
     },
   },
+  {
+    name: "send_transactions",
+    description:
+      "Send several related transactions (e.g. an ERC-20 approve followed by a swap) that the user reviews together on one approval page. They are sent in order, each after the previous one is mined, or atomically in one call bundle when the wallet supports EIP-5792 wallet_sendCalls. Returns every transaction hash, or which transaction failed. IMPORTANT: This tool opens a browser window where the user must approve; tell the user to switch to it. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        transactions: {
+          type: "array",
+          description: "Transactions to send in order (1-20)",
+          items: {
+            type: "object",
+            properties: {
+              to: { type: "string", description: "Recipient or contract address (0x...)" },
+              value: { type: "string", description: "Amount in wei to send" },
+              valueEther: { type: "string", description: 'Amount of the native currency to send, e.g. "0.25"' },
+              valueUnits: { type: "string", description: 'Amount to send with a unit, e.g. "30 gwei"' },
+              data: { type: "string", description: "Contract call data, hex encoded" },
+              gasLimit: { type: "string", description: "Gas limit" },
+              maxFeePerGas: { type: "string", description: "Max fee per gas in wei" },
+              maxPriorityFeePerGas: { type: "string", description: "Max priority fee per gas in wei" },
+              abi: {
+                type: "array",
+                description: "Contract ABI used to decode the call data on the approval page",
+                items: { type: "object" },
+              },
+              functionSignature: {
+                type: "string",
+                description: "Function signature used to decode the call data on the approval page",
+              },
+            },
+            required: ["to"],
+          },
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+        atomic: {
+          type: "boolean",
+          description:
+            "true: require atomic execution via EIP-5792 wallet_sendCalls and fail if the wallet can't; false: always send one by one; default: atomic when the wallet supports it",
+        },
+        paymasterUrl: {
+          type: "string",
+          description:
+            "ERC-7677 paymaster service URL that sponsors the gas. Needs a wallet reporting the paymasterService capability (see connect_wallet); the batch is then always sent with wallet_sendCalls",
+        },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
+      },
+      required: ["transactions"],
+    },
+  },
+  {
+    name: "get_calls_status",
+    description:
+      "Get the status of an EIP-5792 call bundle (e.g. one sent atomically by send_transactions) from the wallet with wallet_getCallsStatus: pending, confirmed or failed, with the transaction receipts. Only the wallet knows its bundles, so this goes through the approval page in the browser; it needs no approval and completes on its own. Set wait to keep polling until the bundle is confirmed or fails.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        callsId: {
+          type: "string",
+          description: "Call bundle ID returned by wallet_sendCalls, e.g. from send_transactions",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID the bundle was sent on (default: 1)",
+        },
+        wait: {
+          type: "boolean",
+          description: "Keep polling until the bundle is confirmed or fails (default: false)",
+        },
+        async: {
+          type: "boolean",
+          description: "Return the request ID immediately instead of waiting for the result (default: false)",
+        },
+      },
+      required: ["callsId"],
+    },
+  },
+  {
+    name: "transfer_token",
+    description:
+      "Transfer the native currency or an ERC-20 token using a human-readable amount (e.g. 0.25 USDC). Token decimals are read on-chain and the transfer calldata is encoded for you. IMPORTANT: This tool opens a browser window where the user must review and approve the transfer. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        to: {
+          type: "string",
+          description: "Recipient address (0x...)",
+        },
+        amount: {
+          type: "string",
+          description: 'Amount in whole tokens, e.g. "0.25"',
+        },
+        token: {
+          type: "string",
+          description:
+            "Token contract address (0x...) or symbol from the built-in registry (e.g. USDC). Omit or pass the native symbol (e.g. ETH) to send the native currency",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+        waitForReceipt: {
+          type: "boolean",
+          description: "After sending, wait for the transaction to be mined and include the receipt (ignored in async mode)",
+        },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
+      },
+      required: ["to", "amount"],
+    },
+  },
+  {
+    name: "revoke_allowance",
+    description:
+      "Revoke an ERC-20 allowance by sending approve(spender, 0). Revoke the approvals a task created once it is done. Returns without opening the browser if the allowance is already zero. IMPORTANT: This tool opens a browser window where the user must approve the revoke transaction. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        token: {
+          type: "string",
+          description: "Token contract address (0x...) or symbol from the built-in registry (e.g. USDC)",
+        },
+        spender: {
+          type: "string",
+          description: "Spender whose allowance is set to zero (0x...)",
+        },
+        owner: {
+          type: "string",
+          description: "Token owner, to check the current allowance (uses connected address if not specified)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+        waitForReceipt: {
+          type: "boolean",
+          description: "After sending, wait for the transaction to be mined and include the receipt (ignored in async mode)",
+        },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
+      },
+      required: ["token", "spender"],
+    },
+  },
   {
     name: "sign_message",
     description:
-      "Sign an arbitrary message using personal_sign. IMPORTANT: This tool opens a browser window where the user must approve the signature. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (5 min).",
+      "Sign an arbitrary message using personal_sign. IMPORTANT: This tool opens a browser window where the user must approve the signature. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -84,14 +366,127 @@ const TOOLS = [
           type: "number",
           description: "Chain ID",
         },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
       },
       required: ["message"],
     },
   },
+  {
+    name: "sign_in_with_ethereum",
+    description:
+      "Sign in to a site with the connected wallet (Sign-In With Ethereum, EIP-4361). Builds a spec-compliant sign-in message from the fields given, so don't hand-craft one for sign_message. The approval page shows the domain prominently and warns if it looks unlike the site being signed in to. Returns the message and the signature. IMPORTANT: This tool opens a browser window where the user must approve the signature. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        domain: {
+          type: "string",
+          description: 'Domain (RFC 3986 authority) asking for the sign-in, e.g. "app.example.com"',
+        },
+        uri: {
+          type: "string",
+          description: 'URI the sign-in is for, e.g. "https://app.example.com/login"',
+        },
+        statement: {
+          type: "string",
+          description: "Human-readable statement the user agrees to (one line)",
+        },
+        nonce: {
+          type: "string",
+          description: "Nonce from the relying party, at least 8 alphanumeric characters (generated if omitted)",
+        },
+        resources: {
+          type: "array",
+          description: "URIs the user wishes to have resolved as part of authentication",
+          items: { type: "string" },
+        },
+        expirationTime: {
+          type: "string",
+          description: "When the signed message expires (ISO 8601)",
+        },
+        notBefore: {
+          type: "string",
+          description: "When the signed message becomes valid (ISO 8601)",
+        },
+        requestId: {
+          type: "string",
+          description: "Relying party's identifier for the sign-in request",
+        },
+        address: {
+          type: "string",
+          description: "Address to sign in with (uses connected address if not specified)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID the session is bound to (default: 1)",
+        },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
+      },
+      required: ["domain", "uri"],
+    },
+  },
+  {
+    name: "verify_siwe",
+    description:
+      "Check a Sign-In With Ethereum (EIP-4361) message and signature locally: the message is well formed and not expired, says what you expect (domain, nonce, address, URI, chain), and the signature is from the address in the message. Smart contract wallet signatures are checked on-chain when the chain has an RPC URL.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        message: {
+          type: "string",
+          description: "EIP-4361 message that was signed",
+        },
+        signature: {
+          type: "string",
+          description: "Signature over the message (0x...)",
+        },
+        domain: {
+          type: "string",
+          description: "Expected domain",
+        },
+        nonce: {
+          type: "string",
+          description: "Expected nonce",
+        },
+        address: {
+          type: "string",
+          description: "Expected signer address",
+        },
+        uri: {
+          type: "string",
+          description: "Expected URI",
+        },
+        chainId: {
+          type: "number",
+          description: "Expected chain ID",
+        },
+        time: {
+          type: "string",
+          description: "Time to check expiration and not-before against, ISO 8601 (default: now)",
+        },
+      },
+      required: ["message", "signature"],
+    },
+  },
   {
     name: "sign_typed_data",
     description:
-      "Sign EIP-712 typed data. IMPORTANT: This tool opens a browser window where the user must review and approve the signature. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (5 min).",
+      "Sign EIP-712 typed data. IMPORTANT: This tool opens a browser window where the user must review and approve the signature. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -126,10 +521,111 @@ const TOOLS = [
           type: "number",
           description: "Chain ID",
         },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
       },
       required: ["domain", "types", "primaryType", "message"],
     },
   },
+  {
+    name: "sign_permit",
+    description:
+      "Sign an ERC-2612 permit letting a spender move up to an amount of a token, without an approve transaction. Reads the token's EIP-712 domain and the owner's nonce on-chain, so don't build Permit typed data by hand. Returns the packed signature and its v, r, s parts. IMPORTANT: This tool opens a browser window where the user must approve the signature. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        token: {
+          type: "string",
+          description: "Token contract address (0x...) or symbol from the built-in registry (e.g. USDC)",
+        },
+        spender: {
+          type: "string",
+          description: "Address allowed to spend the tokens (0x...)",
+        },
+        amount: {
+          type: "string",
+          description: 'Amount in token units, e.g. "100.5". Pass "unlimited" only if the user explicitly asks for it.',
+        },
+        deadline: {
+          type: "number",
+          description: "Unix time (seconds) after which the signature can no longer be used (default: 30 minutes from now)",
+        },
+        owner: {
+          type: "string",
+          description: "Token owner who signs the permit (uses connected address if not specified)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
+      },
+      required: ["token", "spender", "amount"],
+    },
+  },
+  {
+    name: "sign_permit2",
+    description:
+      "Sign a Permit2 (Uniswap) allowance letting a spender move up to an amount of a token through the Permit2 contract until an expiration. Reads the owner's Permit2 nonce on-chain and warns if the token isn't approved for Permit2. Returns the packed signature and its v, r, s parts. IMPORTANT: This tool opens a browser window where the user must approve the signature. Tell the user to switch to their browser window to approve. This tool blocks until the user acts or the request times out (after timeoutSeconds; the user can extend it), unless async is set - then it returns a request ID to poll with get_request_status.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        token: {
+          type: "string",
+          description: "Token contract address (0x...) or symbol from the built-in registry (e.g. USDC)",
+        },
+        spender: {
+          type: "string",
+          description: "Address allowed to spend the tokens (0x...)",
+        },
+        amount: {
+          type: "string",
+          description: 'Amount in token units, e.g. "100.5". Pass "unlimited" only if the user explicitly asks for it.',
+        },
+        deadline: {
+          type: "number",
+          description: "Unix time (seconds) after which the signature can no longer be used (default: 30 minutes from now)",
+        },
+        expiration: {
+          type: "number",
+          description: "Unix time (seconds) when the Permit2 allowance expires (default: 24 hours from now)",
+        },
+        owner: {
+          type: "string",
+          description: "Token owner who signs the permit (uses connected address if not specified)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+        async: {
+          type: "boolean",
+          description: "Return the request ID and approval URL immediately instead of waiting for approval (default: false)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description:
+            "Seconds the user has to approve before the request times out, 30 to 3600 (default: the server's request timeout, 5 minutes unless configured)",
+        },
+      },
+      required: ["token", "spender", "amount"],
+    },
+  },
   {
     name: "get_balance",
     description: "Get the ETH balance of an address. Does not require browser interaction - reads directly from the blockchain.",
@@ -148,45 +644,401 @@ const TOOLS = [
       required: ["address"],
     },
   },
-];
-
-/**
- * Create and configure the MCP server
- */
-export function createMcpServer(): Server {
-  const server = new Server(
-    {
-      name: "mcp-wallet-signer",
-      version: pkg.version,
-    },
-    {
-      capabilities: {
-        tools: {},
+  {
+    name: "get_token_balance",
+    description:
+      "Get the ERC-20 token balance of an address. Accepts a token contract address or a well-known symbol (USDC, USDT, DAI, WETH, ...) for the chain. Does not require browser interaction - reads directly from the blockchain.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        token: {
+          type: "string",
+          description: "Token contract address (0x...) or symbol from the built-in registry (e.g. USDC)",
+        },
+        address: {
+          type: "string",
+          description: "Address to get balance for (0x...)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
       },
+      required: ["token", "address"],
     },
-  );
-
-  // List available tools
-  server.setRequestHandler(ListToolsRequestSchema, () => {
-    return { tools: TOOLS };
-  });
-
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    try {
-      switch (name) {
-        case "connect_wallet":
-          return await handleConnectWallet(args);
+  },
+  {
+    name: "get_allowances",
+    description:
+      "List ERC-20 allowances an owner has granted. Reads allowance(owner, spender) for the given token/spender pairs, and/or scans the owner's Approval events over a block range (up to 100,000 blocks) to find approvals, then reads each one's current allowance. Use revoke_allowance to clean up allowances that are no longer needed. Does not require browser interaction - reads directly from the blockchain.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        owner: {
+          type: "string",
+          description: "Token owner (uses connected address if not specified)",
+        },
+        allowances: {
+          type: "array",
+          description: "Token/spender pairs to read",
+          items: {
+            type: "object",
+            properties: {
+              token: { type: "string", description: "Token contract address (0x...) or registry symbol (e.g. USDC)" },
+              spender: { type: "string", description: "Spender address (0x...)" },
+            },
+            required: ["token", "spender"],
+          },
+        },
+        scan: {
+          type: "boolean",
+          description: "Find approvals from the owner's Approval events (default: true when no pairs are given)",
+        },
+        fromBlock: {
+          type: "number",
+          description: "First block to scan (default: 10,000 blocks before toBlock)",
+        },
+        toBlock: {
+          type: "number",
+          description: "Last block to scan (default: latest)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+      },
+    },
+  },
+  {
+    name: "wait_for_transaction",
+    description:
+      "Wait for a transaction to be mined and report its status, gas used, effective gas price, emitted logs, block number, explorer link and revert reason. Does not require browser interaction - reads directly from the blockchain.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        hash: {
+          type: "string",
+          description: "Transaction hash (0x...)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+        confirmations: {
+          type: "number",
+          description: "Number of confirmations to wait for (default: 1)",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description: "How long to wait before giving up (default: 120)",
+        },
+        abi: {
+          type: "array",
+          description: "Contract ABI (optional) used to decode custom errors and events",
+          items: { type: "object" },
+        },
+      },
+      required: ["hash"],
+    },
+  },
+  {
+    name: "get_transaction_receipt",
+    description:
+      "Get the receipt of a transaction without waiting: status, gas used, logs, revert reason, or 'pending' if not mined yet. Does not require browser interaction - reads directly from the blockchain.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        hash: {
+          type: "string",
+          description: "Transaction hash (0x...)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+        abi: {
+          type: "array",
+          description: "Contract ABI (optional) used to decode custom errors and events",
+          items: { type: "object" },
+        },
+      },
+      required: ["hash"],
+    },
+  },
+  {
+    name: "simulate_transaction",
+    description:
+      "Dry-run a transaction against the chain RPC (eth_call + eth_estimateGas) without signing it. Reports whether it would revert (with the decoded reason), the estimated gas and the fee in the native currency. Use it to check calldata before asking the user to approve. Does not require browser interaction.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        to: {
+          type: "string",
+          description: "Recipient or contract address (0x...)",
+        },
+        from: {
+          type: "string",
+          description: "Sender address (default: the connected wallet)",
+        },
+        value: {
+          type: "string",
+          description: "Amount in wei to send (optional)",
+        },
+        valueEther: {
+          type: "string",
+          description: 'Amount of the chain\'s native currency to send, e.g. "0.25" (alternative to value)',
+        },
+        valueUnits: {
+          type: "string",
+          description: 'Amount to send with a unit (wei, gwei or ether), e.g. "30 gwei" (alternative to value)',
+        },
+        data: {
+          type: "string",
+          description: "Contract call data, hex encoded (optional)",
+        },
+        chainId: {
+          type: "number",
+          description: "Chain ID (default: 1)",
+        },
+        gasLimit: {
+          type: "string",
+          description: "Gas limit (optional, will be estimated if not provided)",
+        },
+        abi: {
+          type: "array",
+          description: "Contract ABI (optional) used to decode custom errors",
+          items: { type: "object" },
+        },
+      },
+      required: ["to"],
+    },
+  },
+  {
+    name: "get_rpc_status",
+    description:
+      "Report the health of the RPC endpoints used for read-only calls: request and failure counts, average latency and the last error per endpoint. Reads fall back to the next endpoint when one fails or is rate-limited.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chainId: {
+          type: "number",
+          description: "Only report endpoints for this chain (default: all chains used so far)",
+        },
+      },
+    },
+  },
+  {
+    name: "get_request_status",
+    description:
+      "Get the status of a signing request created with async: true (pending, approved, rejected, cancelled or expired) and its result once approved. Also works for requests that timed out or were made before the server restarted: if the user finishes in an approval tab that was left open, the late result shows up here. Finished requests are retained for one hour.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        requestId: {
+          type: "string",
+          description: "Request ID returned by an async signing tool call",
+        },
+      },
+      required: ["requestId"],
+    },
+  },
+  {
+    name: "get_request_history",
+    description:
+      "Search the audit log of past signing requests, newest first: what was asked, when the approval page was opened, and how each request ended (approved with its result, rejected, cancelled or expired). The log persists across restarts.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        type: {
+          type: "string",
+          // Taken from the zod schema so the advertised filter never drifts from what is accepted
+          enum: GetRequestHistorySchema.shape.type.unwrap().options,
+          description: "Only requests of this type",
+        },
+        chainId: {
+          type: "number",
+          description: "Only requests on this chain",
+        },
+        address: {
+          type: "string",
+          description: "Only requests involving this address (recipient, signer or connected wallet)",
+        },
+        since: {
+          type: "string",
+          description: 'Only requests created at or after this ISO 8601 date or time, e.g. "2026-01-31"',
+        },
+        until: {
+          type: "string",
+          description: "Only requests created before this ISO 8601 date or time",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of requests to return (default: 20, max: 500)",
+        },
+      },
+    },
+  },
+  {
+    name: "cancel_request",
+    description: "Cancel a pending signing request. The approval page will no longer accept a result for it.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        requestId: {
+          type: "string",
+          description: "Request ID of the pending request to cancel",
+        },
+      },
+      required: ["requestId"],
+    },
+  },
+];
+
+// Defaults for waiting on transaction receipts
+const DEFAULT_CONFIRMATIONS = 1;
+const DEFAULT_RECEIPT_TIMEOUT_SECONDS = 120;
+
+// Label for the result value of each request type
+const RESULT_LABELS: Record<RequestType, string> = {
+  connect: "Address",
+  send_transaction: "Transaction Hash",
+  send_transactions: "Transaction Hashes",
+  calls_status: "Bundle Status",
+  sign_message: "Signature",
+  sign_typed_data: "Signature",
+};
+
+// Progress messages for the stages the user goes through on the approval page
+const STAGE_MESSAGES: Record<RequestStage, string> = {
+  browser_opened: "Approval page sent to the browser",
+  page_loaded: "Approval page loaded",
+  wallet_connected: "Wallet connected",
+  awaiting_signature: "Waiting for the user to confirm in their wallet",
+  broadcast: "Transaction broadcast, waiting for it to be mined",
+};
+
+// The MCP request behind a tool call: where to report progress and how the client cancels it
+interface ToolCall {
+  server: Server;
+  signal: AbortSignal;
+  // Set when the client asked for progress notifications
+  progressToken?: string | number;
+}
+
+/**
+ * Create and configure the MCP server
+ */
+export function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: "mcp-wallet-signer",
+      version: pkg.version,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+      },
+    },
+  );
+
+  // Label requests with the client's name, so the dashboard can tell agents apart
+  server.oninitialized = () => {
+    pendingStore.setClientName(server.getClientVersion()?.name);
+  };
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, () => {
+    return { tools: TOOLS };
+  });
+
+  // Wallet state as resources
+  server.setRequestHandler(ListResourcesRequestSchema, () => {
+    return { resources: RESOURCES };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [await readResource(request.params.uri)] };
+  });
+
+  // Tell the client when a resource it subscribed to changes
+  const subscriptions = new Set<string>();
+  server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopListening = requestEvents.listen((event) => {
+    for (const uri of getUpdatedResources(event)) {
+      if (subscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`[mcp-wallet-signer] Failed to notify resource update of ${uri}: ${error}`);
+        });
+      }
+    }
+  });
+  server.onclose = stopListening;
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, { signal }) => {
+    const { name, arguments: args } = request.params;
+    const call: ToolCall = { server, signal, progressToken: request.params._meta?.progressToken };
+
+    try {
+      switch (name) {
+        case "connect_wallet":
+          return await handleConnectWallet(args, call);
         case "send_transaction":
-          return await handleSendTransaction(args);
+          return await handleSendTransaction(args, call);
+        case "send_transactions":
+          return await handleSendTransactions(args, call);
+        case "get_calls_status":
+          return await handleGetCallsStatus(args, call);
+        case "transfer_token":
+          return await handleTransferToken(args, call);
+        case "revoke_allowance":
+          return await handleRevokeAllowance(args, call);
         case "sign_message":
-          return await handleSignMessage(args);
+          return await handleSignMessage(args, call);
+        case "sign_in_with_ethereum":
+          return await handleSignInWithEthereum(args, call);
+        case "verify_siwe":
+          return await handleVerifySiwe(args);
         case "sign_typed_data":
-          return await handleSignTypedData(args);
+          return await handleSignTypedData(args, call);
+        case "sign_permit":
+          return await handleSignPermit("erc2612", args, call);
+        case "sign_permit2":
+          return await handleSignPermit("permit2", args, call);
         case "get_balance":
           return await handleGetBalance(args);
+        case "get_token_balance":
+          return await handleGetTokenBalance(args);
+        case "get_allowances":
+          return await handleGetAllowances(args);
+        case "wait_for_transaction":
+          return await handleWaitForTransaction(args);
+        case "get_transaction_receipt":
+          return await handleGetTransactionReceipt(args);
+        case "simulate_transaction":
+          return await handleSimulateTransaction(args);
+        case "get_rpc_status":
+          return handleGetRpcStatus(args);
+        case "get_request_status":
+          return await handleGetRequestStatus(args);
+        case "get_request_history":
+          return handleGetRequestHistory(args);
+        case "cancel_request":
+          return handleCancelRequest(args);
         default:
           return {
             content: [{ type: "text", text: `Unknown tool: ${name}` }],
@@ -202,11 +1054,1138 @@ export function createMcpServer(): Server {
     }
   });
 
-  return server;
+  return server;
+}
+
+/**
+ * Log a new request to the audit log and open its approval page.
+ * When another process hosts the approval server, it does both for the request.
+ */
+async function openApprovalPage(id: string, url: string): Promise<void> {
+  if (pendingStore.isForwarding()) {
+    await pendingStore.forward(id, url);
+    return;
+  }
+
+  const request = pendingStore.get(id);
+  if (request) {
+    auditLog.recordCreated(request, url);
+  }
+  await openBrowser(url);
+  pendingStore.setStage(id, "browser_opened");
+}
+
+/**
+ * Wait for the user to act on a request. Each stage they reach is reported to the client as progress
+ * when it asked for it; if the client cancels the tool call, the request is withdrawn from the approval page.
+ */
+async function awaitApproval(id: string, promise: Promise<RequestResult>, call: ToolCall): Promise<RequestResult> {
+  const { server, signal, progressToken } = call;
+
+  let stopReporting = () => {};
+  if (progressToken !== undefined) {
+    let progress = 0;
+    const reportStage = (stage: RequestStage) => {
+      server.notification({
+        method: "notifications/progress",
+        params: { progressToken, progress: ++progress, message: STAGE_MESSAGES[stage] },
+      }).catch((error) => console.error(`[mcp-wallet-signer] Failed to report progress of request ${id}: ${error}`));
+    };
+    stopReporting = pendingStore.onStage(id, reportStage);
+    // Catch the client up on the stage reached before it started listening, e.g. the browser opening
+    const stage = pendingStore.getRecord(id)?.stage;
+    if (stage) {
+      reportStage(stage);
+    }
+  }
+
+  const withdraw = () => pendingStore.cancel(id, "Request cancelled by the MCP client");
+  if (signal.aborted) {
+    withdraw();
+  }
+  signal.addEventListener("abort", withdraw);
+
+  try {
+    return await promise;
+  } finally {
+    stopReporting();
+    signal.removeEventListener("abort", withdraw);
+  }
+}
+
+/**
+ * Convert a tool's timeoutSeconds argument for the pending store, which falls back to the configured timeout
+ */
+function toTimeoutMs(timeoutSeconds: number | undefined): number | undefined {
+  return timeoutSeconds === undefined ? undefined : timeoutSeconds * 1000;
+}
+
+/**
+ * Build the tool response for a request created in async mode
+ */
+function buildAsyncResponse(id: string, url: string, promise: Promise<RequestResult>) {
+  // The store retains the outcome; nobody awaits the promise, so don't let a cancel/timeout go unhandled
+  promise.catch(() => {});
+  return {
+    content: [
+      {
+        type: "text",
+        text:
+          `Request ID: ${id}\nApproval URL: ${url}\nStatus: pending\nThe user must approve in the browser. Poll get_request_status with this request ID, or cancel it with cancel_request.`,
+      },
+    ],
+  };
+}
+
+/**
+ * Format the lines reporting a wallet connection's EIP-5792 capabilities
+ */
+function formatCapabilities(result: RequestResult): string[] {
+  if (!result.success || !result.capabilities) {
+    return ["Capabilities: not reported (the wallet doesn't support EIP-5792 wallet_getCapabilities)"];
+  }
+  const lines = describeCapabilities(result.capabilities);
+  return lines.length > 0 ? ["Capabilities:", ...lines.map((line) => `- ${line}`)] : ["Capabilities: none"];
+}
+
+/**
+ * Warning for a result whose transactions the RPC hadn't indexed yet, so they weren't checked against the request
+ */
+function formatUnverified(result: RequestResult): string[] {
+  return result.success && result.unverified
+    ? [
+      `WARNING: not verified (${result.unverified}), so it was not checked against the request and may not exist. ` +
+      "Use wait_for_transaction before relying on it.",
+    ]
+    : [];
+}
+
+/**
+ * Format an EIP-5792 call bundle status for the agent
+ */
+function formatCallsStatus(status: CallsStatus, chainId: number): string[] {
+  const lines = [`Status: ${status.status}`];
+  if (status.atomic !== undefined) {
+    lines.push(`Atomic: ${status.atomic ? "yes" : "no"}`);
+  }
+  if (status.receipts.length > 0) {
+    lines.push("Receipts:");
+    for (const receipt of status.receipts) {
+      const explorerUrl = getExplorerTxUrl(chainId, receipt.transactionHash);
+      const block = receipt.blockNumber !== undefined ? `, block ${receipt.blockNumber}` : "";
+      lines.push(`- ${receipt.transactionHash}: ${receipt.status}${block}${explorerUrl ? ` (${explorerUrl})` : ""}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Format a transaction receipt report for the agent
+ */
+function formatReceiptReport(report: TransactionReceiptReport): string {
+  const symbol = getChainConfig(report.chainId)?.nativeCurrency.symbol || "ETH";
+  const fee = report.gasUsed * report.effectiveGasPrice;
+
+  const lines = [`Status: ${report.status}`];
+  if (report.revertReason) {
+    lines.push(`Revert reason: ${report.revertReason}`);
+  }
+  lines.push(
+    `Block: ${report.blockNumber}`,
+    `Confirmations: ${report.confirmations}`,
+    `Gas used: ${report.gasUsed}`,
+    `Effective gas price: ${formatGwei(report.effectiveGasPrice)} gwei`,
+    `Fee: ${formatEther(fee)} ${symbol}`,
+  );
+  if (report.explorerUrl) {
+    lines.push(`Explorer: ${report.explorerUrl}`);
+  }
+
+  lines.push(`Logs (${report.logs.length}):`);
+  report.logs.forEach((log, index) => {
+    if (log.eventName) {
+      const args = Object.entries(log.args ?? {}).map(([key, value]) => `${key}=${String(value)}`);
+      lines.push(`  [${index}] ${log.address} ${log.eventName}(${args.join(", ")})`);
+    } else {
+      lines.push(`  [${index}] ${log.address} topics=${log.topics.join(",")}`);
+    }
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a simulation report for the agent
+ */
+function formatSimulationReport(report: SimulationReport): string {
+  if (!report.success) {
+    return `Simulation: would revert\nRevert reason: ${report.revertReason}`;
+  }
+
+  const symbol = getChainConfig(report.chainId)?.nativeCurrency.symbol || "ETH";
+  const lines = ["Simulation: would succeed"];
+  if (report.gasEstimate !== undefined) {
+    lines.push(`Estimated gas: ${report.gasEstimate}`);
+  }
+  if (report.gasPrice !== undefined) {
+    lines.push(`Gas price: ${formatGwei(report.gasPrice)} gwei`);
+  }
+  if (report.estimatedFee !== undefined) {
+    lines.push(`Estimated fee: ${formatEther(report.estimatedFee)} ${symbol}`);
+  }
+  if (report.returnData && report.returnData !== "0x") {
+    lines.push(`Return data: ${report.returnData}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * One-line summary of a transaction intent, e.g. "Transfer: 0.25 USDC to 0x..."
+ */
+function describeIntent(intent: TransactionIntent): string {
+  if (intent.kind === "revoke") {
+    return `Revoke: ${intent.symbol} allowance of ${intent.spender}`;
+  }
+  return `Transfer: ${intent.amount} ${intent.symbol} to ${intent.recipient}`;
+}
+
+/**
+ * One line per allowance, e.g. "USDC (0x...) -> 0x...: 100"
+ */
+function formatAllowances(allowances: AllowanceInfo[]): string[] {
+  return allowances.map((entry) => {
+    const amount = entry.unlimited ? "unlimited" : entry.raw === 0n ? "0 (revoked)" : entry.formatted;
+    const block = entry.lastApprovalBlock !== undefined ? ` (last approved in block ${entry.lastApprovalBlock})` : "";
+    return `${entry.symbol ?? "Token"} (${entry.token}) -> ${entry.spender}: ${amount}${block}`;
+  });
+}
+
+/**
+ * Normalize a function signature to the "function name(type name, ...)" form the approval page parses.
+ * Returns undefined if it is not a valid function signature.
+ */
+function normalizeFunctionSignature(signature: string): string | undefined {
+  const trimmed = signature.trim();
+  const normalized = trimmed.startsWith("function ") ? trimmed : `function ${trimmed}`;
+  try {
+    return parseAbiItem(normalized).type === "function" ? normalized : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a token symbol or contract address on a chain.
+ * Returns the tool error listing the chain's known symbols if the symbol isn't in the registry.
+ */
+function resolveTokenOrError(chainId: number, token: string) {
+  const address = resolveTokenAddress(chainId, token);
+  if (address) {
+    return address;
+  }
+  const known = (TOKENS[chainId] ?? []).map((entry) => entry.symbol).join(", ") || "none";
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Unknown token "${token}" on chain ${chainId}. Known symbols: ${known}. Pass a contract address instead.`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Check labelled addresses from tool arguments, skipping unset ones.
+ * Returns the tool error for the first invalid address, or undefined if they are all valid.
+ */
+function checkAddresses(addresses: Array<[label: string, address: string | undefined]>) {
+  for (const [label, address] of addresses) {
+    if (address !== undefined && !isAddress(address, { strict: false })) {
+      return { content: [{ type: "text", text: `Invalid ${label} address: ${address}` }], isError: true };
+    }
+  }
+  return undefined;
+}
+
+async function handleConnectWallet(args: unknown, call: ToolCall) {
+  const parsed = ConnectWalletSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const { violations } = getPolicyEngine().checkChain(chainId);
+  if (violations.length > 0) {
+    return { content: [{ type: "text", text: formatPolicyViolations(violations) }], isError: true };
+  }
+
+  const port = await ensureServerRunning();
+
+  const { id, secret, promise } = pendingStore.createConnectRequest(chainId, toTimeoutMs(parsed.data.timeoutSeconds));
+  const url = buildConnectUrl(port, id, secret);
+
+  await openApprovalPage(id, url);
+
+  if (parsed.data.async) {
+    return buildAsyncResponse(id, url, promise);
+  }
+
+  const result = await awaitApproval(id, promise, call);
+
+  if (result.success) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Approval URL: ${url}`,
+            "Wallet connected successfully!",
+            `Address: ${result.result}`,
+            ...formatCapabilities(result),
+          ]
+            .join("\n"),
+        },
+      ],
+    };
+  } else {
+    return {
+      content: [
+        { type: "text", text: `Approval URL: ${url}\nFailed to connect wallet: ${result.error}` },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSendTransaction(args: unknown, call: ToolCall) {
+  const parsed = SendTransactionSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  let value: string | undefined;
+  try {
+    value = resolveTransactionValue(parsed.data, chainId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${message}` }],
+      isError: true,
+    };
+  }
+
+  let functionSignature: string | undefined;
+  if (parsed.data.functionSignature) {
+    functionSignature = normalizeFunctionSignature(parsed.data.functionSignature);
+    if (!functionSignature) {
+      return {
+        content: [{ type: "text", text: `Invalid function signature: ${parsed.data.functionSignature}` }],
+        isError: true,
+      };
+    }
+  }
+
+  return await submitTransaction(
+    {
+      to: parsed.data.to,
+      value,
+      data: parsed.data.data,
+      chainId,
+      gasLimit: parsed.data.gasLimit,
+      maxFeePerGas: parsed.data.maxFeePerGas,
+      maxPriorityFeePerGas: parsed.data.maxPriorityFeePerGas,
+      abi: parsed.data.abi,
+      functionSignature,
+    },
+    parsed.data,
+    call,
+  );
+}
+
+async function handleSendTransactions(args: unknown, call: ToolCall) {
+  const parsed = SendTransactionsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const transactions: BatchTransaction[] = [];
+  for (const [index, tx] of parsed.data.transactions.entries()) {
+    let value: string | undefined;
+    try {
+      value = resolveTransactionValue(tx, chainId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text", text: `Invalid arguments: transaction ${index + 1}: ${message}` }],
+        isError: true,
+      };
+    }
+
+    let functionSignature: string | undefined;
+    if (tx.functionSignature) {
+      functionSignature = normalizeFunctionSignature(tx.functionSignature);
+      if (!functionSignature) {
+        return {
+          content: [{ type: "text", text: `Invalid function signature in transaction ${index + 1}: ${tx.functionSignature}` }],
+          isError: true,
+        };
+      }
+    }
+
+    transactions.push({
+      to: tx.to,
+      value,
+      data: tx.data,
+      gasLimit: tx.gasLimit,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      abi: tx.abi,
+      functionSignature,
+    });
+  }
+
+  const { paymasterUrl } = parsed.data;
+  if (paymasterUrl) {
+    // Sponsored batches go through wallet_sendCalls, which the connected wallet may already have ruled out
+    const { capabilities } = walletSession.get();
+    let problem: string | null = null;
+    if (parsed.data.atomic === false) {
+      problem = "paymasterUrl needs wallet_sendCalls, which sends the batch atomically; don't combine it with atomic: false";
+    } else if (capabilities && !hasCapability(capabilities, chainId, "paymasterService")) {
+      problem = `The connected wallet doesn't report the paymasterService capability on chain ${chainId}`;
+    }
+    if (problem) {
+      return { content: [{ type: "text", text: problem }], isError: true };
+    }
+  }
+
+  const policy = getPolicyEngine();
+  const decision = policy.checkTransactions(chainId, transactions);
+  if (decision.violations.length > 0) {
+    return { content: [{ type: "text", text: formatPolicyViolations(decision.violations) }], isError: true };
+  }
+
+  const port = await ensureServerRunning();
+
+  const { id, secret, promise } = pendingStore.createSendTransactionsRequest({
+    transactions,
+    chainId,
+    atomic: parsed.data.atomic,
+    paymasterUrl,
+    policyWarnings: decision.warnings.length > 0 ? decision.warnings : undefined,
+  }, toTimeoutMs(parsed.data.timeoutSeconds));
+
+  // Spending is released only if nothing was sent; a batch that failed partway already spent some of it.
+  // An expired batch can still be sent late from its approval tab, so the store releases it once that can't happen.
+  policy.recordSpending(id, chainId, decision.spending);
+  promise.then(
+    (result) => !result.success && !result.batch?.hashes.length && policy.releaseSpending(id),
+    () => pendingStore.getRecord(id)?.status !== "expired" && policy.releaseSpending(id),
+  );
+
+  const url = buildSignUrl(port, id, secret);
+  await openApprovalPage(id, url);
+
+  if (parsed.data.async) {
+    return buildAsyncResponse(id, url, promise);
+  }
+
+  const result = await awaitApproval(id, promise, call);
+  const lines = [`Approval URL: ${url}`];
+  const batch = result.batch;
+
+  if (result.success) {
+    lines.push(
+      result.unverified
+        ? `Batch of ${transactions.length} transactions reported as sent by the wallet, but NOT verified on chain yet`
+        : batch?.callsId
+        ? `Batch of ${transactions.length} transactions sent atomically (call bundle ${batch.callsId})`
+        : `All ${transactions.length} transactions sent and mined`,
+      ...formatUnverified(result),
+    );
+  } else {
+    lines.push(`Batch failed: ${result.error}`);
+    if (batch?.failedIndex !== undefined) {
+      lines.push(
+        `Failed at transaction ${batch.failedIndex + 1} of ${transactions.length}; the transactions after it were not sent.`,
+      );
+    }
+  }
+
+  if (batch?.hashes.length) {
+    lines.push("Transaction hashes:");
+    for (const [index, hash] of batch.hashes.entries()) {
+      const explorerUrl = getExplorerTxUrl(chainId, hash);
+      lines.push(`${batch.callsId ? "-" : `${index + 1}.`} ${hash}${explorerUrl ? ` (${explorerUrl})` : ""}`);
+    }
+  }
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    ...(result.success ? {} : { isError: true }),
+  };
+}
+
+async function handleGetCallsStatus(args: unknown, call: ToolCall) {
+  const parsed = GetCallsStatusSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const port = await ensureServerRunning();
+
+  const { id, secret, promise } = pendingStore.createCallsStatusRequest({
+    callsId: parsed.data.callsId,
+    wait: parsed.data.wait,
+    chainId,
+  });
+  const url = buildSignUrl(port, id, secret);
+
+  await openApprovalPage(id, url);
+
+  if (parsed.data.async) {
+    return buildAsyncResponse(id, url, promise);
+  }
+
+  const result = await awaitApproval(id, promise, call);
+
+  if (result.success && result.callsStatus) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Call bundle: ${parsed.data.callsId}`,
+            ...formatCallsStatus(result.callsStatus, chainId),
+            ...formatUnverified(result),
+          ].join("\n"),
+        },
+      ],
+    };
+  } else {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to get call bundle status: ${result.success ? "the wallet returned no status" : result.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleTransferToken(args: unknown, call: ToolCall) {
+  const parsed = TransferTokenSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const { to } = parsed.data;
+  const invalid = checkAddresses([["recipient", to]]);
+  if (invalid) {
+    return invalid;
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const nativeCurrency = getChainConfig(chainId)?.nativeCurrency ?? { symbol: "ETH", decimals: 18 };
+  const token = parsed.data.token;
+  const isNative = !token || token.toLowerCase() === "native" ||
+    token.toUpperCase() === nativeCurrency.symbol.toUpperCase();
+
+  let intent: TransferIntent;
+  if (isNative) {
+    intent = {
+      kind: "transfer",
+      amount: parsed.data.amount,
+      symbol: nativeCurrency.symbol,
+      decimals: nativeCurrency.decimals,
+      recipient: to,
+    };
+  } else {
+    const address = resolveTokenOrError(chainId, token);
+    if (typeof address !== "string") {
+      return address;
+    }
+
+    const client = rpcClients.getClient(chainId);
+    if (!client) {
+      return {
+        content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
+        isError: true,
+      };
+    }
+
+    const metadata = await readTokenMetadata(client, address);
+    const registered = TOKENS[chainId]?.find((entry) => entry.address.toLowerCase() === address.toLowerCase());
+    intent = {
+      kind: "transfer",
+      amount: parsed.data.amount,
+      symbol: metadata.symbol || registered?.symbol || "tokens",
+      decimals: metadata.decimals,
+      recipient: to,
+      token: address,
+    };
+  }
+
+  let amount: bigint;
+  try {
+    amount = parseAmount(intent.amount, intent.decimals);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${message}` }],
+      isError: true,
+    };
+  }
+  if (amount === 0n) {
+    return {
+      content: [{ type: "text", text: "Invalid arguments: amount must be greater than zero" }],
+      isError: true,
+    };
+  }
+
+  const params = intent.token
+    ? {
+      to: intent.token,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [to as Address, amount] }),
+    }
+    : { to, value: amount.toString() };
+
+  return await submitTransaction({ ...params, chainId, intent }, parsed.data, call);
+}
+
+async function handleRevokeAllowance(args: unknown, call: ToolCall) {
+  const parsed = RevokeAllowanceSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const { spender } = parsed.data;
+  const owner = parsed.data.owner ?? walletSession.get().address;
+  const invalid = checkAddresses([["spender", spender], ["owner", owner]]);
+  if (invalid) {
+    return invalid;
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const token = resolveTokenOrError(chainId, parsed.data.token);
+  if (typeof token !== "string") {
+    return token;
+  }
+
+  const client = rpcClients.getClient(chainId);
+  if (!client) {
+    return {
+      content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
+      isError: true,
+    };
+  }
+
+  let intent: RevokeIntent;
+  if (owner) {
+    const current = await readAllowance(client, owner as Address, token, spender as Address);
+    if (current.raw === 0n) {
+      return {
+        content: [
+          { type: "text", text: `${owner} has no ${current.symbol ?? "token"} allowance for ${spender}; nothing to revoke.` },
+        ],
+      };
+    }
+    intent = {
+      kind: "revoke",
+      token,
+      symbol: current.symbol ?? "tokens",
+      decimals: current.decimals,
+      spender,
+      currentAllowance: current.unlimited ? "unlimited" : current.formatted,
+    };
+  } else {
+    const { decimals, symbol } = await readTokenMetadata(client, token);
+    intent = { kind: "revoke", token, symbol: symbol ?? "tokens", decimals, spender };
+  }
+
+  return await submitTransaction(
+    {
+      to: token,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [spender as Address, 0n] }),
+      chainId,
+      intent,
+    },
+    parsed.data,
+    call,
+  );
+}
+
+/**
+ * Create a send_transaction request, open the approval page and report the outcome.
+ * Shared by send_transaction and transfer_token.
+ */
+async function submitTransaction(
+  params: Parameters<typeof pendingStore.createSendTransactionRequest>[0] & { chainId: number },
+  options: { waitForReceipt?: boolean; async?: boolean; timeoutSeconds?: number },
+  call: ToolCall,
+) {
+  const policy = getPolicyEngine();
+  const decision = policy.checkTransaction(params);
+  if (decision.violations.length > 0) {
+    return { content: [{ type: "text", text: formatPolicyViolations(decision.violations) }], isError: true };
+  }
+
+  const port = await ensureServerRunning();
+
+  const { id, secret, promise } = pendingStore.createSendTransactionRequest({
+    ...params,
+    policyWarnings: decision.warnings.length > 0 ? decision.warnings : undefined,
+  }, toTimeoutMs(options.timeoutSeconds));
+
+  // Spending counts towards daily limits unless the request is rejected or cancelled.
+  // An expired request can still be sent late from its approval tab, so the store releases it once that can't happen.
+  policy.recordSpending(id, params.chainId, decision.spending);
+  promise.then(
+    (result) => !result.success && policy.releaseSpending(id),
+    () => pendingStore.getRecord(id)?.status !== "expired" && policy.releaseSpending(id),
+  );
+
+  const url = buildSignUrl(port, id, secret);
+  await openApprovalPage(id, url);
+
+  if (options.async) {
+    return buildAsyncResponse(id, url, promise);
+  }
+
+  const result = await awaitApproval(id, promise, call);
+
+  if (result.success) {
+    const { chainId } = params;
+    const explorerUrl = getExplorerTxUrl(chainId, result.result);
+
+    const headline = result.unverified
+      ? "Transaction reported as sent by the wallet, but NOT verified on chain yet."
+      : "Transaction sent successfully!";
+    let text = `Approval URL: ${url}\n${headline}`;
+    if (params.intent) {
+      text += `\n${describeIntent(params.intent)}`;
+    }
+    text += `\nTransaction Hash: ${result.result}`;
+    if (explorerUrl) {
+      text += `\nExplorer: ${explorerUrl}`;
+    }
+    for (const line of formatUnverified(result)) {
+      text += `\n${line}`;
+    }
+
+    const client = rpcClients.getClient(chainId);
+    if (options.waitForReceipt && client) {
+      try {
+        const report = await waitForTransactionReport(client, chainId, result.result as Hex, {
+          confirmations: DEFAULT_CONFIRMATIONS,
+          timeoutMs: DEFAULT_RECEIPT_TIMEOUT_SECONDS * 1000,
+          abi: params.abi as Abi | undefined,
+        });
+        text += `\n\nReceipt:\n${formatReceiptReport(report)}`;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        text += `\n\nCould not get receipt: ${message}\nUse wait_for_transaction to keep waiting.`;
+      }
+    } else if (options.waitForReceipt) {
+      text += `\n\nCould not wait for receipt: no RPC URL configured for chain ${chainId}.`;
+    }
+
+    return {
+      content: [{ type: "text", text }],
+    };
+  } else {
+    return {
+      content: [
+        { type: "text", text: `Approval URL: ${url}\nTransaction failed: ${result.error}` },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSignMessage(args: unknown, call: ToolCall) {
+  const parsed = SignMessageSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const { violations } = getPolicyEngine().checkMessage(chainId);
+  if (violations.length > 0) {
+    return { content: [{ type: "text", text: formatPolicyViolations(violations) }], isError: true };
+  }
+
+  const port = await ensureServerRunning();
+
+  const { id, secret, promise } = pendingStore.createSignMessageRequest({
+    message: parsed.data.message,
+    address: parsed.data.address,
+    chainId,
+  }, toTimeoutMs(parsed.data.timeoutSeconds));
+
+  const url = buildSignUrl(port, id, secret);
+  await openApprovalPage(id, url);
+
+  if (parsed.data.async) {
+    return buildAsyncResponse(id, url, promise);
+  }
+
+  const result = await awaitApproval(id, promise, call);
+
+  if (result.success) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Approval URL: ${url}\nMessage signed successfully!\nSignature: ${result.result}`,
+        },
+      ],
+    };
+  } else {
+    return {
+      content: [
+        { type: "text", text: `Approval URL: ${url}\nSigning failed: ${result.error}` },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSignInWithEthereum(args: unknown, call: ToolCall) {
+  const parsed = SignInWithEthereumSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  // The signer's address is part of the message, so it has to be known up front
+  const address = parsed.data.address ?? walletSession.get().address;
+  if (!address || !isAddress(address, { strict: false })) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: address
+            ? `Invalid address: ${address}`
+            : "No wallet address known. Call connect_wallet first, or pass the address to sign in with.",
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const { violations } = getPolicyEngine().checkMessage(chainId);
+  if (violations.length > 0) {
+    return { content: [{ type: "text", text: formatPolicyViolations(violations) }], isError: true };
+  }
+
+  let siwe: ReturnType<typeof buildSiweMessage>;
+  try {
+    siwe = buildSiweMessage({ ...parsed.data, address: address as Address, chainId });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: "text", text: `Invalid arguments: ${message}` }], isError: true };
+  }
+
+  const port = await ensureServerRunning();
+
+  const { id, secret, promise } = pendingStore.createSignMessageRequest({
+    message: siwe.message,
+    address,
+    chainId,
+    siwe: siwe.details,
+  }, toTimeoutMs(parsed.data.timeoutSeconds));
+
+  const url = buildSignUrl(port, id, secret);
+  await openApprovalPage(id, url);
+
+  if (parsed.data.async) {
+    return buildAsyncResponse(id, url, promise);
+  }
+
+  const result = await awaitApproval(id, promise, call);
+
+  if (result.success) {
+    const lines = [`Approval URL: ${url}`, `Signed in to ${siwe.details.domain} as ${address}`];
+    if (siwe.details.warnings.length > 0) {
+      lines.push("Warnings shown to the user:", ...siwe.details.warnings.map((warning) => `- ${warning}`));
+    }
+    lines.push(`Signature: ${result.result}`, "Message:", siwe.message);
+    return { content: [{ type: "text", text: lines.join("\n") }] };
+  } else {
+    return {
+      content: [
+        { type: "text", text: `Approval URL: ${url}\nSign-in failed: ${result.error}` },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleVerifySiwe(args: unknown) {
+  const parsed = VerifySiweSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const { message, signature, time, ...expected } = parsed.data;
+  const { fields, problems } = checkSiweMessage(message, { ...expected, time: time ? new Date(time) : undefined });
+  if (fields.address) {
+    const problem = isHex(signature)
+      ? await verifyMessageSigner(fields.address, fields.chainId, message, signature)
+      : "signature is not hex encoded";
+    if (problem) {
+      problems.push(`signature: ${problem}`);
+    }
+  }
+
+  const lines = [problems.length === 0 ? "Valid Sign-In With Ethereum message and signature" : "Invalid"];
+  lines.push(...problems.map((problem) => `- ${problem}`));
+  const shown = [
+    ["Domain", fields.domain],
+    ["Address", fields.address],
+    ["URI", fields.uri],
+    ["Chain ID", fields.chainId],
+    ["Nonce", fields.nonce],
+    ["Issued at", fields.issuedAt?.toISOString()],
+    ["Expires", fields.expirationTime?.toISOString()],
+    ["Not before", fields.notBefore?.toISOString()],
+    ["Statement", fields.statement],
+  ] as const;
+  for (const [label, value] of shown) {
+    if (value !== undefined) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    ...(problems.length > 0 ? { isError: true } : {}),
+  };
+}
+
+async function handleSignTypedData(args: unknown, call: ToolCall) {
+  const parsed = SignTypedDataSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const { violations } = getPolicyEngine().checkTypedData(chainId, parsed.data);
+  if (violations.length > 0) {
+    return { content: [{ type: "text", text: formatPolicyViolations(violations) }], isError: true };
+  }
+
+  const port = await ensureServerRunning();
+
+  const { id, secret, promise } = pendingStore.createSignTypedDataRequest({
+    domain: parsed.data.domain,
+    types: parsed.data.types,
+    primaryType: parsed.data.primaryType,
+    message: parsed.data.message,
+    address: parsed.data.address,
+    chainId,
+  }, toTimeoutMs(parsed.data.timeoutSeconds));
+
+  const url = buildSignUrl(port, id, secret);
+  await openApprovalPage(id, url);
+
+  if (parsed.data.async) {
+    return buildAsyncResponse(id, url, promise);
+  }
+
+  const result = await awaitApproval(id, promise, call);
+
+  if (result.success) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Approval URL: ${url}\nTyped data signed successfully!\nSignature: ${result.result}`,
+        },
+      ],
+    };
+  } else {
+    return {
+      content: [
+        { type: "text", text: `Approval URL: ${url}\nSigning failed: ${result.error}` },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSignPermit(kind: PermitSummary["kind"], args: unknown, call: ToolCall) {
+  const parsed = (kind === "erc2612" ? SignPermitSchema : SignPermit2Schema).safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const { spender } = parsed.data;
+  const owner = parsed.data.owner ?? walletSession.get().address;
+  const invalid = checkAddresses([["spender", spender], ["owner", owner]]);
+  if (invalid) {
+    return invalid;
+  }
+  if (!owner) {
+    return {
+      content: [
+        { type: "text", text: "No wallet address known. Call connect_wallet first, or pass the owner address." },
+      ],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const token = resolveTokenOrError(chainId, parsed.data.token);
+  if (typeof token !== "string") {
+    return token;
+  }
+
+  const client = rpcClients.getClient(chainId);
+  if (!client) {
+    return {
+      content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
+      isError: true,
+    };
+  }
+
+  let permit: Awaited<ReturnType<typeof buildErc2612Permit>>;
+  try {
+    const params = { ...parsed.data, token, owner: owner as Address, spender: spender as Address, chainId };
+    permit = kind === "erc2612" ? await buildErc2612Permit(client, params) : await buildPermit2(client, params);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: "text", text: `Could not build the permit: ${message}` }], isError: true };
+  }
+
+  const { violations } = getPolicyEngine().checkTypedData(chainId, permit.typedData);
+  if (violations.length > 0) {
+    return { content: [{ type: "text", text: formatPolicyViolations(violations) }], isError: true };
+  }
+
+  const port = await ensureServerRunning();
+
+  const { id, secret, promise } = pendingStore.createSignTypedDataRequest({
+    ...permit.typedData,
+    address: owner,
+    chainId,
+    permit: permit.summary,
+  }, toTimeoutMs(parsed.data.timeoutSeconds));
+
+  const url = buildSignUrl(port, id, secret);
+  await openApprovalPage(id, url);
+
+  if (parsed.data.async) {
+    return buildAsyncResponse(id, url, promise);
+  }
+
+  const result = await awaitApproval(id, promise, call);
+
+  if (!result.success) {
+    return {
+      content: [
+        { type: "text", text: `Approval URL: ${url}\nSigning failed: ${result.error}` },
+      ],
+      isError: true,
+    };
+  }
+
+  const { summary, typedData } = permit;
+  const { v, r, s } = splitPermitSignature(result.result as Hex);
+  const lines = [
+    `Approval URL: ${url}`,
+    `Permit signed: ${spender} may spend ${summary.amount} ${summary.symbol ?? token}`,
+    `Signature: ${result.result}`,
+    `v: ${v}`,
+    `r: ${r}`,
+    `s: ${s}`,
+    `Deadline: ${summary.deadline}`,
+  ];
+  if (summary.expiresAt !== undefined) {
+    lines.push(`Expiration: ${summary.expiresAt}`);
+  }
+  lines.push(...summary.warnings.map((warning) => `Warning: ${warning}`));
+  lines.push(`Signed message: ${JSON.stringify(typedData.message)}`);
+  return { content: [{ type: "text", text: lines.join("\n") }] };
+}
+
+async function handleGetBalance(args: unknown) {
+  const parsed = GetBalanceSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const client = rpcClients.getClient(chainId);
+  if (!client) {
+    return {
+      content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
+      isError: true,
+    };
+  }
+
+  const balance = await client.getBalance({
+    address: parsed.data.address as `0x${string}`,
+  });
+
+  const chain = getChainConfig(chainId);
+  const symbol = chain?.nativeCurrency.symbol || "ETH";
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Balance: ${formatEther(balance)} ${symbol}\nWei: ${balance.toString()}`,
+      },
+    ],
+  };
 }
 
-async function handleConnectWallet(args: unknown) {
-  const parsed = ConnectWalletSchema.safeParse(args);
+async function handleGetTokenBalance(args: unknown) {
+  const parsed = GetTokenBalanceSchema.safeParse(args);
   if (!parsed.success) {
     return {
       content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
@@ -214,37 +2193,107 @@ async function handleConnectWallet(args: unknown) {
     };
   }
 
-  const { chainId } = parsed.data;
-  const port = await ensureServerRunning();
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const client = rpcClients.getClient(chainId);
+  if (!client) {
+    return {
+      content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
+      isError: true,
+    };
+  }
 
-  const { id, promise } = pendingStore.createConnectRequest(chainId || getDefaultChainId());
-  const url = buildConnectUrl(port, id);
+  const tokenAddress = resolveTokenOrError(chainId, parsed.data.token);
+  if (typeof tokenAddress !== "string") {
+    return tokenAddress;
+  }
 
-  await openBrowser(url);
+  const balance = await readTokenBalance(client, tokenAddress, parsed.data.address as `0x${string}`);
+  const registered = TOKENS[chainId]?.find((token) => token.address.toLowerCase() === tokenAddress.toLowerCase());
+  const symbol = balance.symbol || registered?.symbol || "tokens";
+
+  return {
+    content: [
+      {
+        type: "text",
+        text:
+          `Balance: ${balance.formatted} ${symbol}\nRaw: ${balance.raw.toString()}\nDecimals: ${balance.decimals}\nToken: ${tokenAddress}`,
+      },
+    ],
+  };
+}
 
-  const result = await promise;
+async function handleGetAllowances(args: unknown) {
+  const parsed = GetAllowancesSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
 
-  if (result.success) {
+  const owner = parsed.data.owner ?? walletSession.get().address;
+  if (!owner || !isAddress(owner, { strict: false })) {
     return {
       content: [
         {
           type: "text",
-          text: `Approval URL: ${url}\nWallet connected successfully!\nAddress: ${result.result}`,
+          text: owner
+            ? `Invalid owner address: ${owner}`
+            : "No wallet address known. Call connect_wallet first, or pass the owner.",
         },
       ],
+      isError: true,
     };
-  } else {
+  }
+
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const client = rpcClients.getClient(chainId);
+  if (!client) {
     return {
-      content: [
-        { type: "text", text: `Approval URL: ${url}\nFailed to connect wallet: ${result.error}` },
-      ],
+      content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
       isError: true,
     };
   }
+
+  const pairs: Array<{ token: Address; spender: Address }> = [];
+  for (const pair of parsed.data.allowances ?? []) {
+    const token = resolveTokenOrError(chainId, pair.token);
+    if (typeof token !== "string") {
+      return token;
+    }
+    const invalid = checkAddresses([["spender", pair.spender]]);
+    if (invalid) {
+      return invalid;
+    }
+    pairs.push({ token, spender: pair.spender as Address });
+  }
+
+  const lines = [`Owner: ${owner}`, `Chain: ${chainId}`];
+  try {
+    if (pairs.length > 0) {
+      const allowances = await Promise.all(
+        pairs.map(({ token, spender }) => readAllowance(client, owner as Address, token, spender)),
+      );
+      lines.push("", "Requested allowances:", ...formatAllowances(allowances));
+    }
+
+    if (parsed.data.scan ?? pairs.length === 0) {
+      const toBlock = parsed.data.toBlock !== undefined ? BigInt(parsed.data.toBlock) : undefined;
+      const fromBlock = parsed.data.fromBlock !== undefined ? BigInt(parsed.data.fromBlock) : undefined;
+      const scan = await scanAllowances(client, owner as Address, { fromBlock, toBlock });
+      lines.push("", `Approvals found in blocks ${scan.fromBlock}-${scan.toBlock}:`);
+      lines.push(...(scan.allowances.length > 0 ? formatAllowances(scan.allowances) : ["none"]));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: "text", text: `Could not read allowances: ${message}` }], isError: true };
+  }
+
+  return { content: [{ type: "text", text: lines.join("\n") }] };
 }
 
-async function handleSendTransaction(args: unknown) {
-  const parsed = SendTransactionSchema.safeParse(args);
+async function handleWaitForTransaction(args: unknown) {
+  const parsed = WaitForTransactionSchema.safeParse(args);
   if (!parsed.success) {
     return {
       content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
@@ -252,89 +2301,146 @@ async function handleSendTransaction(args: unknown) {
     };
   }
 
-  const port = await ensureServerRunning();
-
-  const { id, promise } = pendingStore.createSendTransactionRequest({
-    to: parsed.data.to,
-    value: parsed.data.value,
-    data: parsed.data.data,
-    chainId: parsed.data.chainId || getDefaultChainId(),
-    gasLimit: parsed.data.gasLimit,
-    maxFeePerGas: parsed.data.maxFeePerGas,
-    maxPriorityFeePerGas: parsed.data.maxPriorityFeePerGas,
-  });
-
-  const url = buildSignUrl(port, id);
-  await openBrowser(url);
+  const { hash } = parsed.data;
+  if (!isHash(hash)) {
+    return {
+      content: [{ type: "text", text: `Invalid transaction hash: ${hash}` }],
+      isError: true,
+    };
+  }
 
-  const result = await promise;
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const client = rpcClients.getClient(chainId);
+  if (!client) {
+    return {
+      content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
+      isError: true,
+    };
+  }
 
-  if (result.success) {
-    const chainId = parsed.data.chainId || getDefaultChainId();
-    const chain = CHAINS[chainId];
-    const explorerUrl = chain?.blockExplorer ? `${chain.blockExplorer}/tx/${result.result}` : null;
+  const confirmations = parsed.data.confirmations ?? DEFAULT_CONFIRMATIONS;
+  const timeoutSeconds = parsed.data.timeoutSeconds ?? DEFAULT_RECEIPT_TIMEOUT_SECONDS;
 
-    let text = `Approval URL: ${url}\nTransaction sent successfully!\nTransaction Hash: ${result.result}`;
-    if (explorerUrl) {
-      text += `\nExplorer: ${explorerUrl}`;
+  try {
+    const report = await waitForTransactionReport(client, chainId, hash, {
+      confirmations,
+      timeoutMs: timeoutSeconds * 1000,
+      abi: parsed.data.abi as Abi | undefined,
+    });
+    return {
+      content: [{ type: "text", text: `Transaction Hash: ${hash}\n${formatReceiptReport(report)}` }],
+    };
+  } catch (error) {
+    if (error instanceof WaitForTransactionReceiptTimeoutError) {
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Timed out after ${timeoutSeconds}s waiting for ${confirmations} confirmation(s) of ${hash}. The transaction may still be pending; call wait_for_transaction again.`,
+          },
+        ],
+        isError: true,
+      };
     }
+    throw error;
+  }
+}
 
+async function handleGetTransactionReceipt(args: unknown) {
+  const parsed = GetTransactionReceiptSchema.safeParse(args);
+  if (!parsed.success) {
     return {
-      content: [{ type: "text", text }],
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
     };
-  } else {
+  }
+
+  const { hash } = parsed.data;
+  if (!isHash(hash)) {
     return {
-      content: [
-        { type: "text", text: `Approval URL: ${url}\nTransaction failed: ${result.error}` },
-      ],
+      content: [{ type: "text", text: `Invalid transaction hash: ${hash}` }],
       isError: true,
     };
   }
-}
 
-async function handleSignMessage(args: unknown) {
-  const parsed = SignMessageSchema.safeParse(args);
-  if (!parsed.success) {
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  const client = rpcClients.getClient(chainId);
+  if (!client) {
     return {
-      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
       isError: true,
     };
   }
 
-  const port = await ensureServerRunning();
+  const report = await getTransactionReport(client, chainId, hash, parsed.data.abi as Abi | undefined);
+  if (!report) {
+    return {
+      content: [{ type: "text", text: `Transaction Hash: ${hash}\nStatus: pending (no receipt yet)` }],
+    };
+  }
 
-  const { id, promise } = pendingStore.createSignMessageRequest({
-    message: parsed.data.message,
-    address: parsed.data.address,
-    chainId: parsed.data.chainId || getDefaultChainId(),
-  });
+  return {
+    content: [{ type: "text", text: `Transaction Hash: ${hash}\n${formatReceiptReport(report)}` }],
+  };
+}
 
-  const url = buildSignUrl(port, id);
-  await openBrowser(url);
+async function handleSimulateTransaction(args: unknown) {
+  const parsed = SimulateTransactionSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
 
-  const result = await promise;
+  const from = parsed.data.from ?? walletSession.get().address;
+  const invalid = checkAddresses([["to", parsed.data.to], ["from", from]]);
+  if (invalid) {
+    return invalid;
+  }
 
-  if (result.success) {
+  const chainId = parsed.data.chainId || getDefaultChainId();
+  let value: string | undefined;
+  try {
+    value = resolveTransactionValue(parsed.data, chainId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
     return {
-      content: [
-        {
-          type: "text",
-          text: `Approval URL: ${url}\nMessage signed successfully!\nSignature: ${result.result}`,
-        },
-      ],
+      content: [{ type: "text", text: `Invalid arguments: ${message}` }],
+      isError: true,
     };
-  } else {
+  }
+
+  const client = rpcClients.getClient(chainId);
+  if (!client) {
     return {
-      content: [
-        { type: "text", text: `Approval URL: ${url}\nSigning failed: ${result.error}` },
-      ],
+      content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
       isError: true,
     };
   }
+
+  const report = await simulateTransaction(
+    client,
+    chainId,
+    {
+      from: from as Address | undefined,
+      to: parsed.data.to as Address,
+      value: value ? BigInt(value) : undefined,
+      data: parsed.data.data as Hex | undefined,
+      gas: parsed.data.gasLimit ? BigInt(parsed.data.gasLimit) : undefined,
+    },
+    parsed.data.abi as Abi | undefined,
+  );
+
+  const sender = from ? `From: ${from}\n` : "From: (none - connect a wallet or pass from for an accurate result)\n";
+  return {
+    content: [{ type: "text", text: `${sender}${formatSimulationReport(report)}` }],
+  };
 }
 
-async function handleSignTypedData(args: unknown) {
-  const parsed = SignTypedDataSchema.safeParse(args);
+async function handleGetRequestStatus(args: unknown) {
+  const parsed = GetRequestStatusSchema.safeParse(args);
   if (!parsed.success) {
     return {
       content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
@@ -342,43 +2448,157 @@ async function handleSignTypedData(args: unknown) {
     };
   }
 
-  const port = await ensureServerRunning();
+  await pendingStore.refresh(parsed.data.requestId);
+  const record = pendingStore.getRecord(parsed.data.requestId);
+  if (!record) {
+    return {
+      content: [{ type: "text", text: `Request not found: ${parsed.data.requestId}` }],
+      isError: true,
+    };
+  }
 
-  const { id, promise } = pendingStore.createSignTypedDataRequest({
-    domain: parsed.data.domain,
-    types: parsed.data.types,
-    primaryType: parsed.data.primaryType,
-    message: parsed.data.message,
-    address: parsed.data.address,
-    chainId: parsed.data.chainId || getDefaultChainId(),
-  });
+  const { request } = record;
+  const lines = [`Request ID: ${request.id}`, `Type: ${request.type}`, `Status: ${record.status}`];
+  if (record.stage) {
+    lines.push(`Progress: ${STAGE_MESSAGES[record.stage]}`);
+  }
+  if (record.late) {
+    lines.push("Completed in the browser after the request had expired");
+  }
+  if (request.type === "send_transaction" && request.intent) {
+    lines.push(describeIntent(request.intent));
+  }
 
-  const url = buildSignUrl(port, id);
-  await openBrowser(url);
+  const port = getServerPort();
+  const secret = pendingStore.getSecret(request.id);
+  if (record.status === "pending" && port && secret) {
+    const url = request.type === "connect" ? buildConnectUrl(port, request.id, secret) : buildSignUrl(port, request.id, secret);
+    lines.push(`Approval URL: ${url}`);
+  }
+
+  if (record.result?.success) {
+    lines.push(`${RESULT_LABELS[request.type]}: ${record.result.result}`);
+    const explorerUrl = request.type === "send_transaction"
+      ? getExplorerTxUrl(request.chainId || getDefaultChainId(), record.result.result)
+      : null;
+    if (explorerUrl) {
+      lines.push(`Explorer: ${explorerUrl}`);
+    }
+    lines.push(...formatUnverified(record.result));
+    if (request.type === "connect") {
+      lines.push(...formatCapabilities(record.result));
+    } else if (record.result.callsStatus) {
+      lines.push(...formatCallsStatus(record.result.callsStatus, request.chainId || getDefaultChainId()).slice(1));
+    }
+  } else if (record.result) {
+    lines.push(`Error: ${record.result.error}`);
+  } else if (record.error) {
+    lines.push(`Error: ${record.error}`);
+  }
 
-  const result = await promise;
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+  };
+}
 
-  if (result.success) {
+function handleCancelRequest(args: unknown) {
+  const parsed = CancelRequestSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
+      isError: true,
+    };
+  }
+
+  const { requestId } = parsed.data;
+  if (!pendingStore.cancel(requestId, "Request cancelled by agent")) {
+    const record = pendingStore.getRecord(requestId);
     return {
       content: [
         {
           type: "text",
-          text: `Approval URL: ${url}\nTyped data signed successfully!\nSignature: ${result.result}`,
+          text: record
+            ? `Request ${requestId} is no longer pending (status: ${record.status})`
+            : `Request not found: ${requestId}`,
         },
       ],
+      isError: true,
     };
-  } else {
+  }
+
+  return {
+    content: [{ type: "text", text: `Request ${requestId} cancelled.` }],
+  };
+}
+
+function handleGetRequestHistory(args: unknown) {
+  const parsed = GetRequestHistorySchema.safeParse(args ?? {});
+  if (!parsed.success) {
     return {
-      content: [
-        { type: "text", text: `Approval URL: ${url}\nSigning failed: ${result.error}` },
-      ],
+      content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
       isError: true,
     };
   }
+
+  const records = auditLog.query(parsed.data);
+  if (records.length === 0) {
+    return {
+      content: [{ type: "text", text: "No requests found." }],
+    };
+  }
+
+  const entries = records.map((record) => {
+    const { request } = record;
+    const lines = [
+      `${new Date(record.createdAt).toISOString()} ${request.type} (${record.status})`,
+      `  Request ID: ${request.id}`,
+    ];
+    if (request.chainId !== undefined) {
+      const name = getChainConfig(request.chainId)?.name;
+      lines.push(`  Chain: ${request.chainId}${name ? ` (${name})` : ""}`);
+    }
+    if (request.type === "send_transaction") {
+      if (request.intent) {
+        lines.push(`  ${describeIntent(request.intent)}`);
+      } else {
+        const symbol = getChainConfig(request.chainId || getDefaultChainId())?.nativeCurrency.symbol || "ETH";
+        lines.push(`  To: ${request.to}`);
+        if (request.value && request.value !== "0") {
+          lines.push(`  Value: ${formatEther(BigInt(request.value))} ${symbol}`);
+        }
+      }
+    } else if (request.type === "send_transactions") {
+      lines.push(`  ${request.transactions.length} transactions to ${request.transactions.map((tx) => tx.to).join(", ")}`);
+    } else if (request.type === "calls_status") {
+      lines.push(`  Call bundle: ${request.callsId}`);
+    } else if (request.type === "sign_message" || request.type === "sign_typed_data") {
+      if (request.address) {
+        lines.push(`  Signer: ${request.address}`);
+      }
+    }
+    if (record.openedAt) {
+      lines.push(`  Opened: ${new Date(record.openedAt).toISOString()}`);
+    }
+    if (record.completedAt) {
+      lines.push(`  Completed: ${new Date(record.completedAt).toISOString()}`);
+    }
+    if (record.result?.success) {
+      lines.push(`  ${RESULT_LABELS[request.type]}: ${record.result.result}`);
+    } else if (record.result) {
+      lines.push(`  Error: ${record.result.error}`);
+    } else if (record.error) {
+      lines.push(`  Error: ${record.error}`);
+    }
+    return lines.join("\n");
+  });
+
+  return {
+    content: [{ type: "text", text: entries.join("\n\n") }],
+  };
 }
 
-async function handleGetBalance(args: unknown) {
-  const parsed = GetBalanceSchema.safeParse(args);
+function handleGetRpcStatus(args: unknown) {
+  const parsed = GetRpcStatusSchema.safeParse(args ?? {});
   if (!parsed.success) {
     return {
       content: [{ type: "text", text: `Invalid arguments: ${parsed.error.message}` }],
@@ -386,34 +2606,47 @@ async function handleGetBalance(args: unknown) {
     };
   }
 
-  const chainId = parsed.data.chainId || getDefaultChainId();
-  const rpcUrl = getRpcUrl(chainId);
-
-  if (!rpcUrl) {
+  const { chainId } = parsed.data;
+  // Set up the chain's client so its configured endpoints are listed even before first use
+  if (chainId !== undefined && !rpcClients.getClient(chainId)) {
     return {
       content: [{ type: "text", text: `Unknown chain ID: ${chainId}. No RPC URL configured.` }],
       isError: true,
     };
   }
 
-  const client = createPublicClient({
-    transport: http(rpcUrl),
-  });
-
-  const balance = await client.getBalance({
-    address: parsed.data.address as `0x${string}`,
-  });
+  const endpoints = rpcClients.getStatus(chainId);
+  if (endpoints.length === 0) {
+    return {
+      content: [{ type: "text", text: "No RPC endpoints used yet. Pass chainId to list a chain's endpoints." }],
+    };
+  }
 
-  const chain = CHAINS[chainId];
-  const symbol = chain?.nativeCurrency.symbol || "ETH";
+  const lines: string[] = [];
+  let currentChainId: number | undefined;
+  for (const endpoint of endpoints) {
+    if (endpoint.chainId !== currentChainId) {
+      currentChainId = endpoint.chainId;
+      const name = getChainConfig(endpoint.chainId)?.name;
+      lines.push(`${lines.length > 0 ? "\n" : ""}Chain ${endpoint.chainId}${name ? ` (${name})` : ""}:`);
+    }
+    const health = endpoint.requests === 0
+      ? "unused"
+      : endpoint.consecutiveFailures > 0
+      ? `failing (${endpoint.consecutiveFailures} consecutive failures)`
+      : "healthy";
+    let line = `- ${redactRpcUrl(endpoint.url)}: ${health}, ${endpoint.requests} requests, ${endpoint.failures} failures`;
+    if (endpoint.averageLatencyMs !== undefined) {
+      line += `, avg latency ${endpoint.averageLatencyMs} ms`;
+    }
+    if (endpoint.lastError && endpoint.lastErrorAt) {
+      line += `\n  Last error (${new Date(endpoint.lastErrorAt).toISOString()}): ${endpoint.lastError}`;
+    }
+    lines.push(line);
+  }
 
   return {
-    content: [
-      {
-        type: "text",
-        text: `Balance: ${formatEther(balance)} ${symbol}\nWei: ${balance.toString()}`,
-      },
-    ],
+    content: [{ type: "text", text: lines.join("\n") }],
   };
 }
 
@@ -421,6 +2654,20 @@ async function handleGetBalance(args: unknown) {
  * Run the MCP server with stdio transport
  */
 export async function runServer(): Promise<void> {
+  // Load the config up front so a broken config file or policy fails at startup rather than mid-request
+  getChains();
+  getPolicyEngine();
+
+  // Another MCP server process may already host the approval server; if so, its dashboard and tab are shared.
+  // Otherwise approval tabs left open before a restart report back to the HTTP server, so bring it up for them.
+  if (!(await joinRunningServer())) {
+    const restored = pendingStore.restore();
+    if (restored > 0) {
+      console.error(`[mcp-wallet-signer] Restored ${restored} request(s) from before the restart`);
+      await ensureServerRunning();
+    }
+  }
+
   const server = createMcpServer();
   const transport = new StdioServerTransport();
 
@@ -1,11 +1,30 @@
-import type {
-  ConnectRequest,
-  PendingEntry,
-  PendingRequest,
-  RequestResult,
-  SendTransactionRequest,
-  SignMessageRequest,
-  SignTypedDataRequest,
+import { timingSafeEqual } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { auditLog } from "./audit.ts";
+import { getRequestStorePath, getRequestTimeoutMs } from "./config.ts";
+import type { DaemonClient } from "./daemon.ts";
+import { requestEvents } from "./events.ts";
+import { getPolicyEngine, type PolicyEngine } from "./policy.ts";
+import { walletSession } from "./session.ts";
+import {
+  type CallsStatusRequest,
+  type ConnectRequest,
+  type CreatedRequest,
+  MAX_REQUEST_TIMEOUT_SECONDS,
+  type PendingEntry,
+  type PendingRequest,
+  type RequestRecord,
+  type RequestResult,
+  type RequestStage,
+  type RequestStatus,
+  type SendTransactionRequest,
+  type SendTransactionsRequest,
+  type SignMessageRequest,
+  type SignTypedDataRequest,
+  type StoredRequests,
+  type TransactionIntent,
 } from "./types.ts";
 
 // Generates a unique request ID
@@ -13,28 +32,81 @@ function generateId(): string {
   return crypto.randomUUID();
 }
 
-// Timeout for pending requests (5 minutes)
-const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+// Generates the per-request capability secret (256 bits, hex encoded)
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Time added each time the user asks for more on the approval page (5 minutes)
+const REQUEST_EXTENSION_MS = 5 * 60 * 1000;
+
+// Longest a request may stay pending, counting extensions
+const MAX_REQUEST_LIFETIME_MS = MAX_REQUEST_TIMEOUT_SECONDS * 1000;
+
+// How long outcomes of finished requests stay queryable (1 hour)
+const COMPLETED_RETENTION_MS = 60 * 60 * 1000;
+
+// Interval between looks at the host's record of a forwarded request
+const FOLLOW_INTERVAL_MS = 1000;
+
+// Failed looks in a row after which the host counts as gone
+const FOLLOW_MAX_FAILURES = 5;
+
+/**
+ * Reason recorded for a request nobody acted on in time
+ */
+function timeoutReason(request: PendingRequest, expiresAt: number): string {
+  const seconds = Math.round((expiresAt - request.createdAt) / 1000);
+  if (seconds % 60 !== 0) {
+    return `Request timed out after ${seconds} seconds`;
+  }
+  return `Request timed out after ${seconds / 60} minute${seconds === 60 ? "" : "s"}`;
+}
+
+/**
+ * Error an agent waiting on a request gets when it times out
+ */
+function expiredError(id: string, reason: string): Error {
+  return new Error(`${reason}. If the user still finishes it, get_request_status ${id} will show the result.`);
+}
 
 /**
  * Store for pending signing requests.
  * Each request creates a Promise that resolves when the browser completes the signing.
+ * Pending and recently finished requests are saved to disk, so an approval tab left open
+ * across a server restart can still complete its request.
  */
-class PendingStore {
+export class PendingStore {
   private pending: Map<string, PendingEntry> = new Map();
-  private timeouts: Map<string, number> = new Map();
+  private timeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private finished: Map<string, RequestRecord> = new Map();
+  // Secrets of expired requests, so the approval page can still report what the user did
+  private lateSecrets: Map<string, string> = new Map();
+  // Approval server hosted by another process that new requests are forwarded to
+  private daemon: DaemonClient | null = null;
+  // Timers following forwarded requests at the host
+  private followers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  // MCP client this process serves, recorded on new requests
+  private clientName?: string;
+  // Callbacks of agents waiting on a request, told each time the user gets further
+  private stageListeners: Map<string, (stage: RequestStage) => void> = new Map();
+
+  // Path is resolved from the config on first use unless given (null keeps requests in memory only).
+  // The policy engine holds the spending of expired requests until they can no longer be completed late.
+  constructor(private path?: string | null, private getPolicy: () => PolicyEngine = getPolicyEngine) {}
 
   /**
    * Create a new connect wallet request
    */
-  createConnectRequest(chainId?: number): { id: string; promise: Promise<RequestResult> } {
+  createConnectRequest(chainId?: number, timeoutMs?: number): CreatedRequest {
     const request: ConnectRequest = {
       id: generateId(),
       type: "connect",
       chainId,
       createdAt: Date.now(),
     };
-    return this.create(request);
+    return this.create(request, timeoutMs);
   }
 
   /**
@@ -48,14 +120,37 @@ class PendingStore {
     gasLimit?: string;
     maxFeePerGas?: string;
     maxPriorityFeePerGas?: string;
-  }): { id: string; promise: Promise<RequestResult> } {
+    intent?: TransactionIntent;
+    abi?: Record<string, unknown>[];
+    functionSignature?: string;
+    policyWarnings?: string[];
+  }, timeoutMs?: number): CreatedRequest {
     const request: SendTransactionRequest = {
       id: generateId(),
       type: "send_transaction",
       createdAt: Date.now(),
       ...params,
     };
-    return this.create(request);
+    return this.create(request, timeoutMs);
+  }
+
+  /**
+   * Create a new request for a batch of transactions, reviewed together and sent in order
+   */
+  createSendTransactionsRequest(params: {
+    transactions: SendTransactionsRequest["transactions"];
+    chainId?: number;
+    atomic?: boolean;
+    paymasterUrl?: string;
+    policyWarnings?: string[];
+  }, timeoutMs?: number): CreatedRequest {
+    const request: SendTransactionsRequest = {
+      id: generateId(),
+      type: "send_transactions",
+      createdAt: Date.now(),
+      ...params,
+    };
+    return this.create(request, timeoutMs);
   }
 
   /**
@@ -65,14 +160,15 @@ class PendingStore {
     message: string;
     address?: string;
     chainId?: number;
-  }): { id: string; promise: Promise<RequestResult> } {
+    siwe?: SignMessageRequest["siwe"];
+  }, timeoutMs?: number): CreatedRequest {
     const request: SignMessageRequest = {
       id: generateId(),
       type: "sign_message",
       createdAt: Date.now(),
       ...params,
     };
-    return this.create(request);
+    return this.create(request, timeoutMs);
   }
 
   /**
@@ -85,41 +181,326 @@ class PendingStore {
     message: Record<string, unknown>;
     address?: string;
     chainId?: number;
-  }): { id: string; promise: Promise<RequestResult> } {
+    permit?: SignTypedDataRequest["permit"];
+  }, timeoutMs?: number): CreatedRequest {
     const request: SignTypedDataRequest = {
       id: generateId(),
       type: "sign_typed_data",
       createdAt: Date.now(),
       ...params,
     };
-    return this.create(request);
+    return this.create(request, timeoutMs);
+  }
+
+  /**
+   * Create a new request for the approval page to look up a call bundle's status
+   */
+  createCallsStatusRequest(params: { callsId: string; wait?: boolean; chainId?: number }, timeoutMs?: number): CreatedRequest {
+    const request: CallsStatusRequest = {
+      id: generateId(),
+      type: "calls_status",
+      createdAt: Date.now(),
+      ...params,
+    };
+    return this.create(request, timeoutMs);
   }
 
   /**
-   * Create a pending request and return a Promise that resolves when completed
+   * Create a pending request and return a Promise that resolves when completed.
+   * It times out after `timeoutMs`, or the configured request timeout.
    */
-  private create<T extends PendingRequest>(request: T): { id: string; promise: Promise<RequestResult> } {
+  private create<T extends PendingRequest>(request: T, timeoutMs?: number): CreatedRequest {
+    const secret = generateSecret();
+    if (this.clientName) {
+      request.client = this.clientName;
+    }
+    const promise = this.track(request, secret, request.createdAt + (timeoutMs ?? getRequestTimeoutMs()));
+
+    requestEvents.publish({ type: "created", id: request.id, requestType: request.type });
+
+    return { id: request.id, secret, promise };
+  }
+
+  /**
+   * Hold a request as pending until it is completed, cancelled or expires at `expiresAt`
+   */
+  private track<T extends PendingRequest>(request: T, secret: string, expiresAt: number): Promise<RequestResult> {
     const promise = new Promise<RequestResult>((resolve, reject) => {
-      const entry: PendingEntry<T> = {
-        request,
-        resolve,
-        reject,
-      };
+      const entry: PendingEntry<T> = { request, secret, expiresAt, resolve, reject };
       this.pending.set(request.id, entry);
+      // Forwarded requests time out at the host, which reports back to follow()
+      if (!this.daemon) {
+        this.scheduleTimeout(entry);
+      }
+    });
+
+    this.save();
+    return promise;
+  }
+
+  /**
+   * (Re)start the timer that auto-rejects a pending request at its expiresAt
+   */
+  private scheduleTimeout(entry: PendingEntry): void {
+    const { request, secret } = entry;
+    clearTimeout(this.timeouts.get(request.id));
+
+    const timeoutId = setTimeout(() => {
+      if (this.pending.get(request.id) === entry) {
+        const reason = timeoutReason(request, entry.expiresAt);
+        this.pending.delete(request.id);
+        this.timeouts.delete(request.id);
+        this.lateSecrets.set(request.id, secret);
+        this.recordFinished(request, "expired", { error: reason });
+        entry.reject(expiredError(request.id, reason));
+      }
+    }, Math.max(0, entry.expiresAt - Date.now()));
+
+    this.timeouts.set(request.id, timeoutId);
+  }
+
+  /**
+   * Give the user more time on a pending request, up to an hour after it was created.
+   * Returns the new expiry, or undefined if the request isn't pending or can't be extended further.
+   */
+  extend(id: string, extensionMs: number = REQUEST_EXTENSION_MS): number | undefined {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    const latest = entry.request.createdAt + MAX_REQUEST_LIFETIME_MS;
+    const expiresAt = Math.min(Math.max(entry.expiresAt, Date.now()) + extensionMs, latest);
+    if (expiresAt <= entry.expiresAt) {
+      return undefined;
+    }
+
+    entry.expiresAt = expiresAt;
+    this.scheduleTimeout(entry);
+    this.save();
+    requestEvents.publish({ type: "extended", id, expiresAt });
+    return expiresAt;
+  }
+
+  /**
+   * Record how far the user has got with a pending request and tell whoever is waiting on it.
+   * Returns false if the request isn't pending.
+   */
+  setStage(id: string, stage: RequestStage): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return false;
+    }
+    if (entry.stage !== stage) {
+      entry.stage = stage;
+      requestEvents.publish({ type: "stage", id, stage });
+      this.stageListeners.get(id)?.(stage);
+    }
+    return true;
+  }
+
+  /**
+   * Call `listener` each time a request moves on to a new stage; returns a function that stops it
+   */
+  onStage(id: string, listener: (stage: RequestStage) => void): () => void {
+    this.stageListeners.set(id, listener);
+    return () => {
+      if (this.stageListeners.get(id) === listener) {
+        this.stageListeners.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Record the name of the MCP client this process serves on the requests it creates
+   */
+  setClientName(name: string | undefined): void {
+    this.clientName = name;
+  }
+
+  /**
+   * Forward new requests to the approval server another MCP server process hosts, or stop doing so (null).
+   * The host times out, logs and persists forwarded requests; this store only holds them so the agent can await them.
+   */
+  useDaemon(daemon: DaemonClient | null): void {
+    const took = this.daemon !== null && daemon === null;
+    this.daemon = daemon;
+    // Only the host writes the request store
+    this.path = daemon ? null : undefined;
+
+    // Taking over as host: the old host no longer times out the requests forwarded to it, so this store does
+    if (took) {
+      for (const follower of this.followers.values()) {
+        clearTimeout(follower);
+      }
+      this.followers.clear();
+      for (const entry of this.pending.values()) {
+        this.scheduleTimeout(entry);
+      }
+    }
+  }
+
+  /**
+   * Check whether new requests are forwarded to another process's approval server
+   */
+  isForwarding(): boolean {
+    return this.daemon !== null;
+  }
+
+  /**
+   * Hand a request created while forwarding to the host, which opens its approval page,
+   * then follow it there until it ends. If the host can't be reached the request is cancelled.
+   */
+  async forward(id: string, approvalUrl: string): Promise<void> {
+    const entry = this.pending.get(id);
+    const daemon = this.daemon;
+    if (!entry || !daemon) {
+      return;
+    }
+
+    try {
+      await daemon.register({ request: entry.request, secret: entry.secret, expiresAt: entry.expiresAt, approvalUrl });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.cancel(id, `Could not reach the approval server on port ${daemon.port}: ${message}`);
+      return;
+    }
 
-      // Set timeout to auto-reject
-      const timeoutId = setTimeout(() => {
-        if (this.pending.has(request.id)) {
-          this.pending.delete(request.id);
-          this.timeouts.delete(request.id);
-          reject(new Error("Request timed out after 5 minutes"));
+    let failures = 0;
+    const poll = async () => {
+      let record: RequestRecord | undefined;
+      try {
+        record = await daemon.getRecord(id);
+        failures = 0;
+      } catch {
+        if (++failures < FOLLOW_MAX_FAILURES) {
+          this.followers.set(id, setTimeout(poll, FOLLOW_INTERVAL_MS));
+          return;
         }
-      }, REQUEST_TIMEOUT_MS);
+        record = {
+          request: entry.request,
+          status: "cancelled",
+          error: `Lost contact with the approval server on port ${daemon.port}`,
+        };
+      }
 
-      this.timeouts.set(request.id, timeoutId);
-    });
+      if (this.pending.get(id) !== entry) {
+        return;
+      }
+      if (record?.status === "pending") {
+        if (record.stage) {
+          this.setStage(id, record.stage);
+        }
+        this.followers.set(id, setTimeout(poll, FOLLOW_INTERVAL_MS));
+        return;
+      }
+      this.followers.delete(id);
+      this.settle(
+        entry,
+        record ?? { request: entry.request, status: "cancelled", error: "The approval server lost the request" },
+      );
+    };
+    this.followers.set(id, setTimeout(poll, FOLLOW_INTERVAL_MS));
+  }
 
-    return { id: request.id, promise };
+  /**
+   * Finish a forwarded request the way the host recorded it
+   */
+  private settle(entry: PendingEntry, record: RequestRecord): void {
+    this.pending.delete(entry.request.id);
+    if ((record.status === "approved" || record.status === "rejected") && record.result) {
+      // The host recorded the connection in its own session; later requests from this process need it too
+      if (record.result.success && entry.request.type === "connect") {
+        walletSession.setConnected(record.result.result, entry.request.chainId, record.result.capabilities);
+      }
+      this.recordFinished(entry.request, record.status, { result: record.result, late: record.late });
+      entry.resolve(record.result);
+      return;
+    }
+
+    const error = record.error ?? "Request cancelled";
+    const status = record.status === "pending" ? "cancelled" : record.status;
+    this.recordFinished(entry.request, status, { error });
+    entry.reject(status === "expired" ? expiredError(entry.request.id, error) : new Error(error));
+  }
+
+  /**
+   * Take over a request another MCP server process created and registered with this (the hosting) process.
+   * Nobody here awaits it; the other process follows its outcome with getRecord.
+   * Returns false if a request with the same ID is already known.
+   */
+  adopt(request: PendingRequest, secret: string, expiresAt: number): boolean {
+    if (this.pending.has(request.id) || this.finished.has(request.id)) {
+      return false;
+    }
+    this.track(request, secret, expiresAt).catch(() => {});
+    requestEvents.publish({ type: "created", id: request.id, requestType: request.type });
+    return true;
+  }
+
+  /**
+   * While forwarding, pick up an outcome the host recorded after a request had expired here
+   */
+  async refresh(id: string): Promise<void> {
+    const record = this.finished.get(id);
+    if (!this.daemon || record?.status !== "expired") {
+      return;
+    }
+    const latest = await this.daemon.getRecord(id).catch(() => undefined);
+    if (latest && latest.status !== "expired" && latest.status !== "pending") {
+      this.finished.set(id, latest);
+    }
+  }
+
+  /**
+   * Load requests saved by a previous run. Pending requests come back with the time they had left
+   * and finished ones stay queryable; nobody awaits a restored request, so its outcome is read with getRecord.
+   * Returns how many restored requests an approval page could still complete.
+   */
+  restore(): number {
+    const path = this.resolvePath();
+    if (!path || !existsSync(path)) {
+      return 0;
+    }
+
+    let stored: StoredRequests;
+    try {
+      stored = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[mcp-wallet-signer] Ignoring unreadable request store ${path}: ${message}`);
+      return 0;
+    }
+
+    const now = Date.now();
+    for (const { record, secret } of stored.finished ?? []) {
+      const id = record.request.id;
+      if (now - (record.completedAt ?? 0) <= COMPLETED_RETENTION_MS && !this.pending.has(id)) {
+        this.finished.set(id, record);
+        if (secret) {
+          this.lateSecrets.set(id, secret);
+        }
+      } else if (secret) {
+        // The user never finished it in time
+        this.getPolicy().releaseSpending(id);
+      }
+    }
+
+    for (const { request, secret, expiresAt } of stored.pending ?? []) {
+      if (this.pending.has(request.id) || this.finished.has(request.id)) {
+        continue;
+      }
+      if (expiresAt > now) {
+        this.track(request, secret, expiresAt).catch(() => {});
+      } else {
+        // Expired while the server was down
+        this.lateSecrets.set(request.id, secret);
+        this.recordFinished(request, "expired", { error: timeoutReason(request, expiresAt) });
+      }
+    }
+
+    this.save();
+    return this.pending.size + this.lateSecrets.size;
   }
 
   /**
@@ -130,12 +511,66 @@ class PendingStore {
   }
 
   /**
-   * Complete a pending request with a result
+   * Get the capability secret of a pending request
+   */
+  getSecret(id: string): string | undefined {
+    return this.pending.get(id)?.secret;
+  }
+
+  /**
+   * Get when a pending request times out
+   */
+  getExpiresAt(id: string): number | undefined {
+    return this.pending.get(id)?.expiresAt;
+  }
+
+  /**
+   * Get a request the approval page may still complete: a pending one, or one that expired before the user finished
+   */
+  getCompletable(id: string): PendingRequest | undefined {
+    return this.pending.get(id)?.request ?? (this.lateSecrets.has(id) ? this.finished.get(id)?.request : undefined);
+  }
+
+  /**
+   * Check a capability secret presented by the browser against a pending (or late-completable) request
+   */
+  verifySecret(id: string, secret: string | null | undefined): boolean {
+    const expected = this.pending.get(id)?.secret ?? this.lateSecrets.get(id);
+    if (!expected || !secret || secret.length !== expected.length) {
+      return false;
+    }
+    return timingSafeEqual(new TextEncoder().encode(secret), new TextEncoder().encode(expected));
+  }
+
+  /**
+   * Get the status of a request, including recently finished ones
+   */
+  getRecord(id: string): RequestRecord | undefined {
+    const entry = this.pending.get(id);
+    if (entry) {
+      return { request: entry.request, status: "pending", stage: entry.stage };
+    }
+    return this.finished.get(id);
+  }
+
+  /**
+   * Complete a pending request with a result. An expired request can still be completed once,
+   * e.g. when the user sent a transaction after the agent stopped waiting; the record is marked late.
    */
   complete(id: string, result: RequestResult): boolean {
     const entry = this.pending.get(id);
     if (!entry) {
-      return false;
+      const expired = this.lateSecrets.has(id) ? this.finished.get(id) : undefined;
+      if (!expired) {
+        return false;
+      }
+      this.lateSecrets.delete(id);
+      // Nobody awaits the request any more, so its reserved spending is settled here; a late send keeps counting
+      if (!result.success && !result.batch?.hashes.length) {
+        this.getPolicy().releaseSpending(id);
+      }
+      this.recordFinished(expired.request, result.success ? "approved" : "rejected", { result, late: true });
+      return true;
     }
 
     // Clear timeout
@@ -146,8 +581,9 @@ class PendingStore {
     }
 
     // Resolve the promise
-    entry.resolve(result);
     this.pending.delete(id);
+    this.recordFinished(entry.request, result.success ? "approved" : "rejected", { result });
+    entry.resolve(result);
     return true;
   }
 
@@ -167,9 +603,21 @@ class PendingStore {
       this.timeouts.delete(id);
     }
 
+    // A forwarded request is withdrawn at the host too
+    const follower = this.followers.get(id);
+    if (follower && this.daemon) {
+      clearTimeout(follower);
+      this.followers.delete(id);
+      this.daemon.cancel(id, reason || "Request cancelled").catch((error) => {
+        console.error(`[mcp-wallet-signer] Failed to cancel request ${id} at the approval server: ${error}`);
+      });
+    }
+
     // Reject the promise
-    entry.reject(new Error(reason || "Request cancelled"));
+    const error = reason || "Request cancelled";
     this.pending.delete(id);
+    this.recordFinished(entry.request, "cancelled", { error });
+    entry.reject(new Error(error));
     return true;
   }
 
@@ -193,6 +641,70 @@ class PendingStore {
   get size(): number {
     return this.pending.size;
   }
+
+  /**
+   * Retain the outcome of a finished request so it can be queried later
+   */
+  private recordFinished(
+    request: PendingRequest,
+    status: Exclude<RequestStatus, "pending">,
+    outcome: { result?: RequestResult; error?: string; late?: boolean },
+  ): void {
+    const now = Date.now();
+    for (const [id, record] of this.finished) {
+      if (now - (record.completedAt ?? 0) > COMPLETED_RETENTION_MS) {
+        this.finished.delete(id);
+        this.dropLateSecret(id);
+      }
+    }
+    const record: RequestRecord = { request, status, ...outcome, completedAt: now };
+    this.finished.set(request.id, record);
+    this.save();
+    // The host logs forwarded requests
+    if (!this.daemon) {
+      auditLog.recordCompleted(record);
+    }
+    requestEvents.publish({ type: "finished", id: request.id, status });
+  }
+
+  /**
+   * Stop accepting a late result for an expired request, and stop counting the spending it reserved
+   */
+  private dropLateSecret(id: string): void {
+    if (this.lateSecrets.delete(id)) {
+      this.getPolicy().releaseSpending(id);
+    }
+  }
+
+  private resolvePath(): string | null {
+    if (this.path === undefined) {
+      this.path = getRequestStorePath();
+    }
+    return this.path;
+  }
+
+  /**
+   * Write pending and finished requests to the store file, replacing it atomically
+   */
+  private save(): void {
+    const path = this.resolvePath();
+    if (!path) {
+      return;
+    }
+    const stored: StoredRequests = {
+      pending: [...this.pending.values()].map(({ request, secret, expiresAt }) => ({ request, secret, expiresAt })),
+      finished: [...this.finished.values()].map((record) => ({ record, secret: this.lateSecrets.get(record.request.id) })),
+    };
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(`${path}.tmp`, JSON.stringify(stored), { mode: 0o600 });
+      renameSync(`${path}.tmp`, path);
+    } catch (error) {
+      // Losing the store only matters after a restart, so keep serving requests
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[mcp-wallet-signer] Failed to save requests to ${path}: ${message}`);
+    }
+  }
 }
 
 // Singleton instance
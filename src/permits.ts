@@ -0,0 +1,275 @@
+import {
+  type Address,
+  domainSeparator,
+  erc20Abi,
+  formatUnits,
+  type Hex,
+  keccak256,
+  maxUint160,
+  maxUint256,
+  maxUint48,
+  parseAbi,
+  parseSignature,
+  type PublicClient,
+  toHex,
+} from "viem";
+
+import { parseAmount } from "./amounts.ts";
+import { readTokenMetadata } from "./tokens.ts";
+import type { PermitSummary, TypedDataDomain, TypedDataField } from "./types.ts";
+
+// Permit2 is deployed at the same address on every chain it supports
+export const PERMIT2_ADDRESS: Address = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+// How long a permit signature stays valid when no deadline is given
+export const DEFAULT_PERMIT_DEADLINE_SECONDS = 30 * 60;
+
+// How long a Permit2 allowance lasts when no expiration is given
+export const DEFAULT_PERMIT2_EXPIRATION_SECONDS = 24 * 60 * 60;
+
+// Passed as the amount to grant the maximum allowance
+const UNLIMITED = "unlimited";
+
+const erc2612Abi = parseAbi([
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function PERMIT_TYPEHASH() view returns (bytes32)",
+]);
+
+const permit2Abi = parseAbi([
+  "function allowance(address user, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)",
+]);
+
+const ERC2612_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const PERMIT2_TYPES: Record<string, TypedDataField[]> = {
+  PermitSingle: [
+    { name: "details", type: "PermitDetails" },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+  PermitDetails: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+  ],
+};
+
+const ERC2612_TYPEHASH = keccak256(
+  toHex("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"),
+);
+
+// EIP-712 payload ready for createSignTypedDataRequest; integers are decimal strings so it survives JSON
+export interface PermitTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+// Shared parameters of both permit kinds; amount is in token units or "unlimited"
+export interface PermitParams {
+  token: Address;
+  owner: Address;
+  spender: Address;
+  amount: string;
+  chainId: number;
+  // Unix seconds after which the signature can no longer be used
+  deadline?: number;
+}
+
+export interface Permit2Params extends PermitParams {
+  // Unix seconds until which the allowance lasts
+  expiration?: number;
+}
+
+/**
+ * Parse a permit amount, mapping "unlimited" to `max`
+ */
+function parsePermitAmount(amount: string, decimals: number, max: bigint): bigint {
+  if (amount.trim().toLowerCase() === UNLIMITED) {
+    return max;
+  }
+  const value = parseAmount(amount, decimals);
+  if (value > max) {
+    throw new Error(`Amount ${amount} is larger than a permit can grant`);
+  }
+  return value;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? (error as { shortMessage?: string }).shortMessage ?? error.message : String(error);
+}
+
+/**
+ * Work out the token's EIP-712 domain by rebuilding its DOMAIN_SEPARATOR from name, version and chain.
+ * Tokens without version() are tried with the common versions "1" and "2".
+ */
+async function readErc2612Domain(client: PublicClient, token: Address, chainId: number): Promise<TypedDataDomain> {
+  const read = (functionName: "name" | "version" | "DOMAIN_SEPARATOR" | "PERMIT_TYPEHASH") =>
+    client.readContract({ address: token, abi: erc2612Abi, functionName });
+
+  let separator: Hex;
+  try {
+    separator = await read("DOMAIN_SEPARATOR") as Hex;
+  } catch (error) {
+    throw new Error(`${token} does not support ERC-2612 permits (no DOMAIN_SEPARATOR): ${describeError(error)}`);
+  }
+
+  const [name, version, typehash] = await Promise.all([
+    read("name") as Promise<string>,
+    (read("version") as Promise<string>).catch(() => undefined),
+    (read("PERMIT_TYPEHASH") as Promise<Hex>).catch(() => undefined),
+  ]);
+
+  // DAI-style permits (holder, nonce, expiry, allowed) share the domain but sign a different struct
+  if (typehash && typehash.toLowerCase() !== ERC2612_TYPEHASH) {
+    throw new Error(`${name} (${token}) uses a non-standard permit; sign it with sign_typed_data instead`);
+  }
+
+  for (const candidate of version !== undefined ? [version] : ["1", "2"]) {
+    const domain = { name, version: candidate, chainId, verifyingContract: token };
+    if (domainSeparator({ domain }).toLowerCase() === separator.toLowerCase()) {
+      return domain;
+    }
+  }
+  throw new Error(`Could not reproduce the EIP-712 domain of ${name} (${token}); its permit is non-standard`);
+}
+
+/**
+ * Build an ERC-2612 Permit for `token`, reading its name, version and the owner's nonce on-chain
+ */
+export async function buildErc2612Permit(
+  client: PublicClient,
+  params: PermitParams,
+  now: Date = new Date(),
+): Promise<{ typedData: PermitTypedData; summary: PermitSummary }> {
+  const [domain, nonce, { decimals, symbol }] = await Promise.all([
+    readErc2612Domain(client, params.token, params.chainId),
+    client.readContract({ address: params.token, abi: erc2612Abi, functionName: "nonces", args: [params.owner] }),
+    readTokenMetadata(client, params.token),
+  ]);
+
+  const value = parsePermitAmount(params.amount, decimals, maxUint256);
+  const deadline = params.deadline ?? Math.floor(now.getTime() / 1000) + DEFAULT_PERMIT_DEADLINE_SECONDS;
+
+  return {
+    typedData: {
+      domain,
+      types: ERC2612_TYPES,
+      primaryType: "Permit",
+      message: {
+        owner: params.owner,
+        spender: params.spender,
+        value: value.toString(),
+        nonce: nonce.toString(),
+        deadline: deadline.toString(),
+      },
+    },
+    summary: {
+      kind: "erc2612",
+      token: params.token,
+      tokenName: domain.name,
+      symbol,
+      spender: params.spender,
+      amount: value === maxUint256 ? UNLIMITED : formatUnits(value, decimals),
+      deadline,
+      warnings: [],
+    },
+  };
+}
+
+/**
+ * Build a Permit2 PermitSingle for `token`, reading the owner's Permit2 nonce for the spender on-chain.
+ * Warns if the owner hasn't approved Permit2 itself, since the permit is unusable until they do.
+ */
+export async function buildPermit2(
+  client: PublicClient,
+  params: Permit2Params,
+  now: Date = new Date(),
+): Promise<{ typedData: PermitTypedData; summary: PermitSummary }> {
+  let nonce: number;
+  try {
+    [, , nonce] = await client.readContract({
+      address: PERMIT2_ADDRESS,
+      abi: permit2Abi,
+      functionName: "allowance",
+      args: [params.owner, params.token, params.spender],
+    });
+  } catch (error) {
+    throw new Error(`Could not read Permit2 on chain ${params.chainId}: ${describeError(error)}`);
+  }
+
+  const [{ decimals, symbol }, approved] = await Promise.all([
+    readTokenMetadata(client, params.token),
+    client.readContract({
+      address: params.token,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [params.owner, PERMIT2_ADDRESS],
+    }),
+  ]);
+
+  const amount = parsePermitAmount(params.amount, decimals, maxUint160);
+  const seconds = Math.floor(now.getTime() / 1000);
+  const deadline = params.deadline ?? seconds + DEFAULT_PERMIT_DEADLINE_SECONDS;
+  const expiration = params.expiration ?? seconds + DEFAULT_PERMIT2_EXPIRATION_SECONDS;
+  if (BigInt(expiration) > maxUint48) {
+    throw new Error(`Expiration ${expiration} does not fit in a Permit2 allowance`);
+  }
+
+  const warnings: string[] = [];
+  if (approved < amount) {
+    warnings.push(
+      `${params.owner} has only approved Permit2 for ${formatUnits(approved, decimals)} ${symbol ?? "tokens"}; ` +
+        "the spender cannot use this permit beyond that until Permit2 is approved on the token",
+    );
+  }
+
+  return {
+    typedData: {
+      domain: { name: "Permit2", chainId: params.chainId, verifyingContract: PERMIT2_ADDRESS },
+      types: PERMIT2_TYPES,
+      primaryType: "PermitSingle",
+      message: {
+        details: {
+          token: params.token,
+          amount: amount.toString(),
+          expiration: expiration.toString(),
+          nonce: nonce.toString(),
+        },
+        spender: params.spender,
+        sigDeadline: deadline.toString(),
+      },
+    },
+    summary: {
+      kind: "permit2",
+      token: params.token,
+      symbol,
+      spender: params.spender,
+      amount: amount === maxUint160 ? UNLIMITED : formatUnits(amount, decimals),
+      expiresAt: expiration,
+      deadline,
+      warnings,
+    },
+  };
+}
+
+/**
+ * Split a 65-byte signature into the v, r, s that permit() and Permit2 callers take
+ */
+export function splitPermitSignature(signature: Hex): { v: number; r: Hex; s: Hex } {
+  const { v, yParity, r, s } = parseSignature(signature);
+  return { v: v !== undefined ? Number(v) : yParity + 27, r, s };
+}
@@ -0,0 +1,493 @@
+import {
+  decodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  type Hex,
+  isAddress,
+  maxUint160,
+  maxUint256,
+  parseUnits,
+  toFunctionSelector,
+} from "viem";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { getChainConfig, getConfigFile, getSpendingLedgerPath } from "./config.ts";
+import { getTokenBySymbol, TOKENS } from "./tokens.ts";
+import type { Policy, PolicyDecision, PolicyViolation, TypedDataDomain } from "./types.ts";
+
+// Daily limits apply to a rolling 24-hour window
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default fraction of a limit above which the approval page shows a warning
+const DEFAULT_NEAR_LIMIT_RATIO = 0.8;
+
+// Value a transaction moves, counted against spending limits. asset is "native" or a lowercase token address.
+export interface Spend {
+  asset: string;
+  amount: bigint;
+}
+
+interface AssetLimit {
+  symbol: string;
+  decimals: number;
+  maxPerTx?: bigint;
+  maxPerDay?: bigint;
+}
+
+interface LedgerEntry {
+  requestId: string;
+  chainId: number;
+  asset: string;
+  amount: bigint;
+  at: number;
+}
+
+// Ledger entry as saved to disk; amounts are decimal strings
+type StoredLedgerEntry = Omit<LedgerEntry, "amount"> & { amount: string };
+
+// What an ERC-20 call in the transaction data does
+interface TokenCall {
+  recipient: string;
+  spend?: bigint;
+  approval?: bigint;
+}
+
+function normalizeSelector(selector: string): string {
+  if (/^0x[0-9a-fA-F]{8}$/.test(selector)) {
+    return selector.toLowerCase();
+  }
+  try {
+    return toFunctionSelector(selector.startsWith("function ") ? selector : `function ${selector}`);
+  } catch {
+    throw new Error(`Invalid policy: "${selector}" is not a function selector or signature`);
+  }
+}
+
+function lowerSet(addresses: string[] | undefined): Set<string> {
+  return new Set((addresses ?? []).map((address) => address.toLowerCase()));
+}
+
+/**
+ * Decode an ERC-20 transfer, transferFrom or approve call
+ */
+function decodeTokenCall(data: Hex): TokenCall | null {
+  try {
+    const call = decodeFunctionData({ abi: erc20Abi, data });
+    switch (call.functionName) {
+      case "transfer":
+        return { recipient: call.args[0], spend: call.args[1] };
+      case "transferFrom":
+        return { recipient: call.args[1], spend: call.args[2] };
+      case "approve":
+        return { recipient: call.args[0], approval: call.args[1] };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether an ERC-2612 Permit or Permit2 PermitSingle grants the maximum allowance
+ */
+function isUnlimitedPermit(primaryType: string, message: Record<string, unknown>): boolean {
+  const amount = primaryType === "Permit"
+    ? message.value
+    : primaryType === "PermitSingle"
+    ? (message.details as Record<string, unknown> | undefined)?.amount
+    : undefined;
+  try {
+    const value = typeof amount === "string" || typeof amount === "number" ? BigInt(amount) : amount;
+    return value === maxUint256 || (primaryType === "PermitSingle" && value === maxUint160);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Spender an ERC-2612 Permit or Permit2 PermitSingle / PermitBatch grants an allowance to
+ */
+function permitSpender(primaryType: string, message: Record<string, unknown>): string | undefined {
+  if (primaryType !== "Permit" && primaryType !== "PermitSingle" && primaryType !== "PermitBatch") {
+    return undefined;
+  }
+  return typeof message.spender === "string" && isAddress(message.spender, { strict: false }) ? message.spender : undefined;
+}
+
+/**
+ * Enforces the policy from the config file before a request reaches the approval page:
+ * allowed chains, address allow/deny lists, banned selectors, spending caps and message-signing rules.
+ * Spending of requests still awaiting approval counts towards daily limits until they fail.
+ * With a ledger path, spending is saved to disk and reread before each use, so daily limits survive restarts
+ * and cover every MCP server process sharing the file.
+ */
+export class PolicyEngine {
+  private bannedSelectors: Set<string>;
+  private limits: Map<number, Map<string, AssetLimit>> = new Map();
+  private ledger: LedgerEntry[] = [];
+
+  constructor(private policy: Policy = {}, private ledgerPath: string | null = null) {
+    this.bannedSelectors = new Set((policy.bannedSelectors ?? []).map(normalizeSelector));
+
+    for (const [key, chainPolicy] of Object.entries(policy.chains ?? {})) {
+      const chainId = Number(key);
+      const limits = new Map<string, AssetLimit>();
+      const native = getChainConfig(chainId)?.nativeCurrency ?? { symbol: "ETH", decimals: 18 };
+      limits.set("native", {
+        symbol: native.symbol,
+        decimals: native.decimals,
+        maxPerTx: chainPolicy.maxNativePerTx ? parseUnits(chainPolicy.maxNativePerTx, native.decimals) : undefined,
+        maxPerDay: chainPolicy.maxNativePerDay ? parseUnits(chainPolicy.maxNativePerDay, native.decimals) : undefined,
+      });
+
+      for (const [token, limit] of Object.entries(chainPolicy.tokens ?? {})) {
+        const byAddress = isAddress(token, { strict: false });
+        const registered = byAddress
+          ? TOKENS[chainId]?.find((entry) => entry.address.toLowerCase() === token.toLowerCase())
+          : getTokenBySymbol(chainId, token);
+        if (!registered && !byAddress) {
+          throw new Error(`Invalid policy for chain ${chainId}: unknown token "${token}"; use its contract address`);
+        }
+        const decimals = limit.decimals ?? registered?.decimals;
+        if (decimals === undefined) {
+          throw new Error(`Invalid policy for chain ${chainId}: set decimals for token ${token}`);
+        }
+        limits.set((registered?.address ?? token).toLowerCase(), {
+          symbol: registered?.symbol ?? token,
+          decimals,
+          maxPerTx: limit.maxPerTx ? parseUnits(limit.maxPerTx, decimals) : undefined,
+          maxPerDay: limit.maxPerDay ? parseUnits(limit.maxPerDay, decimals) : undefined,
+        });
+      }
+      this.limits.set(chainId, limits);
+    }
+
+    // Only daily limits need spending on disk
+    const daily = [...this.limits.values()].some((limits) => [...limits.values()].some((limit) => limit.maxPerDay));
+    if (!daily) {
+      this.ledgerPath = null;
+    }
+  }
+
+  /**
+   * Check that requests may be made on a chain at all
+   */
+  checkChain(chainId: number): PolicyDecision {
+    return { violations: this.chainViolations(chainId), warnings: [] };
+  }
+
+  /**
+   * Check a transaction, returning the spending to record if it goes ahead
+   */
+  checkTransaction(tx: { chainId: number; to: string; value?: string; data?: string }): PolicyDecision & {
+    spending: Spend[];
+  } {
+    const { chainId } = tx;
+    const chainPolicy = this.policy.chains?.[String(chainId)];
+    const violations = this.chainViolations(chainId);
+    const warnings: string[] = [];
+    const spending: Spend[] = [];
+
+    const data = tx.data && tx.data !== "0x" ? (tx.data as Hex) : undefined;
+    const tokenCall = data ? decodeTokenCall(data) : null;
+    const value = tx.value ? BigInt(tx.value) : 0n;
+
+    // Addresses that receive value or rights: the token recipient / spender, and the target whenever native value goes
+    // to it or the call is one we can't read and no contract allowlist covers it.
+    // Revoking an approval grants nothing, so it is allowed even for denied or unlisted spenders.
+    const revoke = tokenCall?.approval === 0n;
+    const counterparties = tokenCall && !revoke ? [tokenCall.recipient] : [];
+    if (!data || value > 0n || (!tokenCall && !chainPolicy?.allowedContracts)) {
+      counterparties.push(tx.to);
+    }
+
+    const denied = new Set([...lowerSet(this.policy.deniedAddresses), ...lowerSet(chainPolicy?.deniedAddresses)]);
+    for (const address of new Set([tx.to, ...counterparties])) {
+      if (denied.has(address.toLowerCase())) {
+        violations.push({ rule: "address_denied", message: `${address} is on the deny list` });
+      }
+    }
+
+    if (data && chainPolicy?.allowedContracts && !lowerSet(chainPolicy.allowedContracts).has(tx.to.toLowerCase())) {
+      violations.push({
+        rule: "contract_not_allowed",
+        message: `Contract ${tx.to} is not on the allowlist for chain ${chainId}`,
+      });
+    }
+
+    if (chainPolicy?.allowedRecipients) {
+      const allowed = lowerSet(chainPolicy.allowedRecipients);
+      for (const address of counterparties) {
+        if (!allowed.has(address.toLowerCase())) {
+          violations.push({
+            rule: "recipient_not_allowed",
+            message: `Recipient ${address} is not on the allowlist for chain ${chainId}`,
+          });
+        }
+      }
+    }
+
+    if (data && this.bannedSelectors.has(data.slice(0, 10).toLowerCase())) {
+      violations.push({ rule: "selector_banned", message: `Function selector ${data.slice(0, 10)} is banned` });
+    }
+
+    if (this.policy.denyUnlimitedApprovals && tokenCall?.approval === maxUint256) {
+      violations.push({
+        rule: "unlimited_approval",
+        message: `Unlimited token approval of ${tx.to} to ${tokenCall.recipient} is not allowed`,
+      });
+    }
+
+    if (value > 0n) {
+      spending.push({ asset: "native", amount: value });
+    }
+    if (tokenCall?.spend !== undefined) {
+      spending.push({ asset: tx.to.toLowerCase(), amount: tokenCall.spend });
+    }
+
+    for (const spend of spending) {
+      const limit = this.limits.get(chainId)?.get(spend.asset);
+      if (limit) {
+        this.checkLimit(chainId, spend, limit, violations, warnings);
+      }
+    }
+
+    return { violations, warnings, spending };
+  }
+
+  /**
+   * Check a batch of transactions in order; spending earlier in the batch counts towards the limits of later ones
+   */
+  checkTransactions(chainId: number, txs: Array<{ to: string; value?: string; data?: string }>): PolicyDecision & {
+    spending: Spend[];
+  } {
+    const chainViolations = this.chainViolations(chainId);
+    if (chainViolations.length > 0) {
+      return { violations: chainViolations, warnings: [], spending: [] };
+    }
+
+    const batchId = `batch:${crypto.randomUUID()}`;
+    const decision: PolicyDecision & { spending: Spend[] } = { violations: [], warnings: [], spending: [] };
+    txs.forEach((tx, index) => {
+      const label = `Transaction ${index + 1}: `;
+      const checked = this.checkTransaction({ chainId, ...tx });
+      decision.violations.push(...checked.violations.map((violation) => ({ ...violation, message: label + violation.message })));
+      decision.warnings.push(...checked.warnings.map((warning) => label + warning));
+      decision.spending.push(...checked.spending);
+      this.recordSpending(batchId, chainId, checked.spending);
+    });
+    this.releaseSpending(batchId);
+    return decision;
+  }
+
+  /**
+   * Check a personal_sign request
+   */
+  checkMessage(chainId: number): PolicyDecision {
+    const violations = this.chainViolations(chainId);
+    if (this.policy.messages?.allowPersonalSign === false) {
+      violations.push({ rule: "personal_sign_disabled", message: "Message signing is disabled by policy" });
+    }
+    return { violations, warnings: [] };
+  }
+
+  /**
+   * Check an EIP-712 signing request
+   */
+  checkTypedData(
+    chainId: number,
+    typedData: { domain: TypedDataDomain; primaryType: string; message?: Record<string, unknown> },
+  ): PolicyDecision {
+    const rules = this.policy.messages;
+    const { domain, primaryType } = typedData;
+    const violations = this.chainViolations(chainId);
+
+    if (domain.chainId !== undefined && domain.chainId !== chainId) {
+      violations.push(...this.chainViolations(domain.chainId));
+    }
+    if (rules?.allowTypedData === false) {
+      violations.push({ rule: "typed_data_disabled", message: "Typed data signing is disabled by policy" });
+    }
+    if (rules?.deniedPrimaryTypes?.includes(primaryType)) {
+      violations.push({ rule: "primary_type_denied", message: `Signing ${primaryType} messages is not allowed` });
+    }
+
+    const contract = domain.verifyingContract?.toLowerCase();
+    if (rules?.allowedVerifyingContracts && (!contract || !lowerSet(rules.allowedVerifyingContracts).has(contract))) {
+      violations.push({
+        rule: "verifying_contract_not_allowed",
+        message: `Verifying contract ${domain.verifyingContract ?? "(none)"} is not on the allowlist`,
+      });
+    }
+    if (contract && lowerSet(this.policy.deniedAddresses).has(contract)) {
+      violations.push({ rule: "address_denied", message: `${domain.verifyingContract} is on the deny list` });
+    }
+
+    // A permit approves its spender just like an on-chain approve, so the same address lists apply
+    const spender = typedData.message ? permitSpender(primaryType, typedData.message) : undefined;
+    if (spender) {
+      const permitChainId = domain.chainId ?? chainId;
+      const chainPolicy = this.policy.chains?.[String(permitChainId)];
+      const denied = new Set([...lowerSet(this.policy.deniedAddresses), ...lowerSet(chainPolicy?.deniedAddresses)]);
+      if (denied.has(spender.toLowerCase())) {
+        violations.push({ rule: "address_denied", message: `${spender} is on the deny list` });
+      }
+      if (chainPolicy?.allowedRecipients && !lowerSet(chainPolicy.allowedRecipients).has(spender.toLowerCase())) {
+        violations.push({
+          rule: "recipient_not_allowed",
+          message: `Spender ${spender} is not on the allowlist for chain ${permitChainId}`,
+        });
+      }
+    }
+
+    if (this.policy.denyUnlimitedApprovals && typedData.message && isUnlimitedPermit(primaryType, typedData.message)) {
+      violations.push({ rule: "unlimited_approval", message: `Unlimited ${primaryType} approval is not allowed` });
+    }
+
+    return { violations, warnings: [] };
+  }
+
+  /**
+   * Count a request's spending towards daily limits
+   */
+  recordSpending(requestId: string, chainId: number, spending: Spend[]): void {
+    if (spending.length === 0) {
+      return;
+    }
+    this.loadLedger();
+    const at = Date.now();
+    for (const spend of spending) {
+      this.ledger.push({ requestId, chainId, asset: spend.asset, amount: spend.amount, at });
+    }
+    this.saveLedger();
+  }
+
+  /**
+   * Stop counting a request's spending, e.g. because the user rejected it
+   */
+  releaseSpending(requestId: string): void {
+    this.loadLedger();
+    if (this.ledger.some((entry) => entry.requestId === requestId)) {
+      this.ledger = this.ledger.filter((entry) => entry.requestId !== requestId);
+      this.saveLedger();
+    }
+  }
+
+  /**
+   * Pick up spending recorded by earlier runs and other processes
+   */
+  private loadLedger(): void {
+    if (!this.ledgerPath || !existsSync(this.ledgerPath)) {
+      return;
+    }
+    try {
+      const stored: StoredLedgerEntry[] = JSON.parse(readFileSync(this.ledgerPath, "utf8"));
+      this.ledger = stored.map((entry) => ({ ...entry, amount: BigInt(entry.amount) }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[mcp-wallet-signer] Ignoring unreadable spending ledger ${this.ledgerPath}: ${message}`);
+    }
+  }
+
+  /**
+   * Write the last 24 hours of spending to the ledger file, replacing it atomically
+   */
+  private saveLedger(): void {
+    if (!this.ledgerPath) {
+      return;
+    }
+    const since = Date.now() - DAY_MS;
+    const stored: StoredLedgerEntry[] = this.ledger
+      .filter((entry) => entry.at > since)
+      .map((entry) => ({ ...entry, amount: entry.amount.toString() }));
+    try {
+      mkdirSync(dirname(this.ledgerPath), { recursive: true });
+      writeFileSync(`${this.ledgerPath}.tmp`, JSON.stringify(stored), { mode: 0o600 });
+      renameSync(`${this.ledgerPath}.tmp`, this.ledgerPath);
+    } catch (error) {
+      // Limits still hold for this process; only restarts and other processes lose track
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[mcp-wallet-signer] Failed to save spending ledger to ${this.ledgerPath}: ${message}`);
+    }
+  }
+
+  private chainViolations(chainId: number): PolicyViolation[] {
+    const allowed = this.policy.allowedChains;
+    if (allowed && !allowed.includes(chainId)) {
+      return [{ rule: "chain_not_allowed", message: `Chain ${chainId} is not in the allowed chains (${allowed.join(", ")})` }];
+    }
+    return [];
+  }
+
+  private spentToday(chainId: number, asset: string): bigint {
+    this.loadLedger();
+    const since = Date.now() - DAY_MS;
+    this.ledger = this.ledger.filter((entry) => entry.at > since);
+    return this.ledger
+      .filter((entry) => entry.chainId === chainId && entry.asset === asset)
+      .reduce((total, entry) => total + entry.amount, 0n);
+  }
+
+  private checkLimit(
+    chainId: number,
+    spend: Spend,
+    limit: AssetLimit,
+    violations: PolicyViolation[],
+    warnings: string[],
+  ): void {
+    const native = spend.asset === "native";
+    const format = (amount: bigint) => `${formatUnits(amount, limit.decimals)} ${limit.symbol}`;
+    const ratio = BigInt(Math.round((this.policy.nearLimitRatio ?? DEFAULT_NEAR_LIMIT_RATIO) * 1000));
+
+    if (limit.maxPerTx !== undefined) {
+      if (spend.amount > limit.maxPerTx) {
+        violations.push({
+          rule: native ? "native_per_tx_limit" : "token_per_tx_limit",
+          message: `${format(spend.amount)} exceeds the per-transaction limit of ${format(limit.maxPerTx)}`,
+        });
+      } else if (spend.amount * 1000n >= ratio * limit.maxPerTx) {
+        warnings.push(`${format(spend.amount)} is close to the per-transaction limit of ${format(limit.maxPerTx)}`);
+      }
+    }
+
+    if (limit.maxPerDay !== undefined) {
+      const total = this.spentToday(chainId, spend.asset) + spend.amount;
+      if (total > limit.maxPerDay) {
+        violations.push({
+          rule: native ? "native_daily_limit" : "token_daily_limit",
+          message: `${format(spend.amount)} would bring spending in the last 24 hours to ${
+            format(total)
+          }, over the daily limit of ${format(limit.maxPerDay)}`,
+        });
+      } else if (total * 1000n >= ratio * limit.maxPerDay) {
+        warnings.push(
+          `This brings spending in the last 24 hours to ${format(total)} of the ${format(limit.maxPerDay)} daily limit`,
+        );
+      }
+    }
+  }
+}
+
+let engine: PolicyEngine | null = null;
+
+/**
+ * Get the policy engine for the config file's policy, creating it on first use
+ */
+export function getPolicyEngine(): PolicyEngine {
+  if (!engine) {
+    engine = new PolicyEngine(getConfigFile()?.policy, getSpendingLedgerPath());
+  }
+  return engine;
+}
+
+/**
+ * Describe violations for the agent
+ */
+export function formatPolicyViolations(violations: PolicyViolation[]): string {
+  return [
+    "Rejected by policy; the request was not sent to the wallet.",
+    ...violations.map((violation) => `- [${violation.rule}] ${violation.message}`),
+  ].join("\n");
+}
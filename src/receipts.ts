@@ -0,0 +1,187 @@
+import {
+  type Abi,
+  BaseError,
+  decodeErrorResult,
+  decodeEventLog,
+  erc20Abi,
+  type Hex,
+  isHex,
+  type Log,
+  type PublicClient,
+  RawContractError,
+  type TransactionReceipt,
+  TransactionReceiptNotFoundError,
+} from "viem";
+
+import { getExplorerTxUrl } from "./config.ts";
+import type { ReceiptLog, TransactionReceiptReport } from "./types.ts";
+
+// Solidity Panic(uint256) codes
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array encoding",
+  0x31: "pop() on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized internal function",
+};
+
+/**
+ * Decode logs against the caller's ABI plus the standard ERC-20 events
+ */
+function decodeLogs(logs: Log[], abi?: Abi): ReceiptLog[] {
+  const eventAbi: Abi = [...(abi ?? []), ...erc20Abi];
+  return logs.map((log) => {
+    const entry: ReceiptLog = { address: log.address, topics: log.topics };
+    try {
+      const decoded = decodeEventLog({ abi: eventAbi, data: log.data, topics: log.topics });
+      entry.eventName = decoded.eventName;
+      entry.args = decoded.args as ReceiptLog["args"];
+    } catch {
+      // Unknown event; keep the raw topics
+    }
+    return entry;
+  });
+}
+
+/**
+ * Turn revert data into a human-readable reason.
+ * Error(string) and Panic(uint256) are always decoded; custom errors need the contract ABI.
+ */
+export function decodeRevertData(data: Hex, abi?: Abi): string {
+  if (data === "0x") {
+    return "reverted without a reason";
+  }
+  try {
+    const { errorName, args } = decodeErrorResult({ abi, data });
+    if (errorName === "Error") {
+      return String(args?.[0]);
+    }
+    if (errorName === "Panic") {
+      const code = Number(args?.[0]);
+      return `Panic(0x${code.toString(16)}): ${PANIC_REASONS[code] ?? "unknown panic code"}`;
+    }
+    const formatted = (args ?? []).map((arg) => (typeof arg === "bigint" ? arg.toString() : JSON.stringify(arg)));
+    return `${errorName}(${formatted.join(", ")})`;
+  } catch {
+    return `custom error ${data.slice(0, 10)} (pass the contract ABI to decode it)`;
+  }
+}
+
+/**
+ * Extract raw revert data from a viem call error, if the node returned any
+ */
+export function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+  // Contract reads wrap the data in a RawContractError; plain eth_call / eth_estimateGas
+  // errors carry it on the RPC error at the root of the chain
+  const source = (error.walk((e) => e instanceof RawContractError) ?? error.walk()) as { data?: unknown } | null;
+  const data = typeof source?.data === "object" && source.data !== null ? (source.data as { data?: unknown }).data : source?.data;
+  return typeof data === "string" && isHex(data) ? data : undefined;
+}
+
+/**
+ * Find out why a mined transaction reverted by replaying it against the parent block's state
+ */
+async function getRevertReason(client: PublicClient, receipt: TransactionReceipt, abi?: Abi): Promise<string> {
+  const tx = await client.getTransaction({ hash: receipt.transactionHash });
+
+  if (tx.gas === receipt.gasUsed) {
+    return "out of gas";
+  }
+
+  try {
+    await client.call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.input,
+      value: tx.value,
+      gas: tx.gas,
+      blockNumber: receipt.blockNumber - 1n,
+    });
+  } catch (error) {
+    const data = getRevertData(error);
+    if (data) {
+      return decodeRevertData(data, abi);
+    }
+    return error instanceof BaseError ? error.shortMessage : String(error);
+  }
+
+  // Replay succeeded, so the revert depended on state changed earlier in the same block
+  return "unknown (replaying the call against the previous block did not revert)";
+}
+
+async function buildReport(
+  client: PublicClient,
+  chainId: number,
+  receipt: TransactionReceipt,
+  abi?: Abi,
+): Promise<TransactionReceiptReport> {
+  const latest = await client.getBlockNumber();
+  const report: TransactionReceiptReport = {
+    hash: receipt.transactionHash,
+    chainId,
+    status: receipt.status,
+    blockNumber: receipt.blockNumber,
+    confirmations: latest - receipt.blockNumber + 1n,
+    gasUsed: receipt.gasUsed,
+    effectiveGasPrice: receipt.effectiveGasPrice,
+    logs: decodeLogs(receipt.logs, abi),
+    explorerUrl: getExplorerTxUrl(chainId, receipt.transactionHash),
+  };
+
+  if (receipt.status === "reverted") {
+    try {
+      report.revertReason = await getRevertReason(client, receipt, abi);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[mcp-wallet-signer] Failed to determine revert reason: ${message}`);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Get the receipt report for a transaction without waiting.
+ * Returns null if the transaction has not been mined yet.
+ */
+export async function getTransactionReport(
+  client: PublicClient,
+  chainId: number,
+  hash: Hex,
+  abi?: Abi,
+): Promise<TransactionReceiptReport | null> {
+  try {
+    const receipt = await client.getTransactionReceipt({ hash });
+    return await buildReport(client, chainId, receipt, abi);
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Wait until a transaction is mined with the requested number of confirmations.
+ * Throws WaitForTransactionReceiptTimeoutError if that doesn't happen within timeoutMs.
+ */
+export async function waitForTransactionReport(
+  client: PublicClient,
+  chainId: number,
+  hash: Hex,
+  options: { confirmations: number; timeoutMs: number; abi?: Abi },
+): Promise<TransactionReceiptReport> {
+  const receipt = await client.waitForTransactionReceipt({
+    hash,
+    confirmations: options.confirmations,
+    timeout: options.timeoutMs,
+  });
+  return buildReport(client, chainId, receipt, options.abi);
+}
@@ -0,0 +1,141 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+import { auditLog } from "./audit.ts";
+import { buildConnectUrl, buildSignUrl } from "./browser.ts";
+import { getChains, getDefaultChainId } from "./config.ts";
+import { getServerPort } from "./http-server.ts";
+import { pendingStore } from "./pending-store.ts";
+import { redactRpcUrl } from "./rpc.ts";
+import { walletSession } from "./session.ts";
+import type { RequestEvent, RequestRecord } from "./types.ts";
+
+const PENDING_URI = "wallet://pending";
+const HISTORY_URI = "wallet://history";
+const CHAINS_URI = "wallet://chains";
+const SESSION_URI = "wallet://session";
+
+// wallet://requests/{id}
+const REQUEST_URI_PATTERN = /^wallet:\/\/requests\/([a-f0-9-]+)$/;
+
+// Wallet state clients can show in their UI, and agents can read without spending tool calls
+export const RESOURCES = [
+  {
+    uri: PENDING_URI,
+    name: "Pending requests",
+    description: "Requests waiting for the user, with their stage, deadline and approval URL",
+    mimeType: "application/json",
+  },
+  {
+    uri: HISTORY_URI,
+    name: "Request history",
+    description: "The 20 most recent requests from the audit log and how they ended",
+    mimeType: "application/json",
+  },
+  {
+    uri: CHAINS_URI,
+    name: "Chains",
+    description: "Configured chains, their native currency and (redacted) RPC URLs, and the default chain",
+    mimeType: "application/json",
+  },
+  {
+    uri: SESSION_URI,
+    name: "Wallet session",
+    description: "The wallet account and chain most recently connected through the approval page",
+    mimeType: "application/json",
+  },
+];
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "wallet://requests/{id}",
+    name: "Request",
+    description: "Status, stage and outcome of a request made in the last hour",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * Add the deadline and approval URL to the record of a pending request
+ */
+function describeRecord(record: RequestRecord) {
+  const { id, type } = record.request;
+  if (record.status !== "pending") {
+    return record;
+  }
+  const port = getServerPort();
+  const secret = pendingStore.getSecret(id);
+  return {
+    ...record,
+    expiresAt: pendingStore.getExpiresAt(id),
+    approvalUrl: port && secret
+      ? (type === "connect" ? buildConnectUrl(port, id, secret) : buildSignUrl(port, id, secret))
+      : undefined,
+  };
+}
+
+/**
+ * Current contents of a resource; throws if the URI names none
+ */
+async function readResourceData(uri: string): Promise<unknown> {
+  switch (uri) {
+    case PENDING_URI:
+      return {
+        requests: pendingStore.getPendingIds().flatMap((id) => {
+          const record = pendingStore.getRecord(id);
+          return record ? [describeRecord(record)] : [];
+        }),
+      };
+    case HISTORY_URI:
+      return { records: auditLog.query() };
+    case CHAINS_URI:
+      return {
+        defaultChainId: getDefaultChainId(),
+        chains: Object.values(getChains()).map((chain) => ({
+          id: chain.id,
+          name: chain.name,
+          nativeCurrency: chain.nativeCurrency,
+          rpcUrl: redactRpcUrl(chain.rpcUrl),
+          fallbackRpcUrls: chain.fallbackRpcUrls?.map(redactRpcUrl),
+          blockExplorer: chain.blockExplorer,
+        })),
+      };
+    case SESSION_URI: {
+      const session = walletSession.get();
+      return { connected: session.address !== undefined, ...session };
+    }
+  }
+
+  const match = uri.match(REQUEST_URI_PATTERN);
+  if (match) {
+    await pendingStore.refresh(match[1]);
+    const record = pendingStore.getRecord(match[1]);
+    if (record) {
+      return describeRecord(record);
+    }
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+}
+
+/**
+ * Read a resource as JSON text
+ */
+export async function readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+  const data = await readResourceData(uri);
+  return { uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) };
+}
+
+/**
+ * URIs of the resources a request event changes
+ */
+export function getUpdatedResources(event: RequestEvent): string[] {
+  const uris = [PENDING_URI, `wallet://requests/${event.id}`];
+  if (event.type === "created" || event.type === "finished") {
+    uris.push(HISTORY_URI);
+  }
+  // Approving a connect request is what changes the session
+  const record = event.type === "finished" ? pendingStore.getRecord(event.id) : undefined;
+  if (record?.request.type === "connect" && record.result?.success) {
+    uris.push(SESSION_URI);
+  }
+  return uris;
+}
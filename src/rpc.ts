@@ -0,0 +1,214 @@
+import { BaseError, createPublicClient, fallback, http, type PublicClient, type Transport } from "viem";
+
+import { getRpcUrls } from "./config.ts";
+import type { RpcEndpointStatus } from "./types.ts";
+
+// Retries of the whole fallback chain for transient failures (rate limits, timeouts); viem backs off exponentially
+const RPC_RETRY_COUNT = 2;
+const RPC_RETRY_DELAY_MS = 250;
+
+// How often endpoints are probed to re-rank them when a chain has more than one
+const RPC_RANK_INTERVAL_MS = 30 * 1000;
+
+// Block-dependent reads are cached briefly so bursts of tool calls don't hammer public RPCs
+const READ_CACHE_TTL_MS = 2 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+
+// Reads whose result can't change for a given chain
+const IMMUTABLE_METHODS = new Set(["eth_chainId", "net_version"]);
+
+// Reads whose result only changes with new blocks
+const BLOCK_DEPENDENT_METHODS = new Set([
+  "eth_blockNumber",
+  "eth_call",
+  "eth_estimateGas",
+  "eth_gasPrice",
+  "eth_getBalance",
+  "eth_getCode",
+  "eth_getStorageAt",
+  "eth_getTransactionCount",
+  "eth_maxPriorityFeePerGas",
+]);
+
+interface CacheEntry {
+  promise: Promise<unknown>;
+  expiresAt: number;
+}
+
+interface RpcClientsOptions {
+  // Transport for a single endpoint (default: viem http)
+  transport?: (url: string) => Transport;
+  // Probe and re-rank endpoints in the background (default: when a chain has several endpoints)
+  rank?: boolean;
+  retryDelay?: number;
+}
+
+/**
+ * Hide credentials in RPC URLs (API keys in path segments or query strings) for display
+ */
+export function redactRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname
+      .split("/")
+      .map((segment) => (/^[A-Za-z0-9_-]{20,}$/.test(segment) ? "***" : segment))
+      .join("/");
+    const query = parsed.search ? "?***" : "";
+    const auth = parsed.username || parsed.password ? "***@" : "";
+    return `${parsed.protocol}//${auth}${parsed.host}${path === "/" ? "" : path}${query}`;
+  } catch {
+    return "***";
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof BaseError) {
+    return error.details ? `${error.shortMessage} ${error.details}` : error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Shared read-only RPC clients, one per chain.
+ * Each client spreads requests over the chain's configured endpoints with viem's fallback transport,
+ * retries transient failures, caches idempotent reads and records per-endpoint health.
+ */
+export class RpcClients {
+  private clients: Map<number, PublicClient> = new Map();
+  private endpoints: Map<number, RpcEndpointStatus[]> = new Map();
+  private latency: Map<RpcEndpointStatus, { total: number; count: number }> = new Map();
+  private cache: Map<string, CacheEntry> = new Map();
+
+  constructor(private options: RpcClientsOptions = {}) {}
+
+  /**
+   * Get the public client for a chain, or null if the chain has no RPC configured
+   */
+  getClient(chainId: number): PublicClient | null {
+    const existing = this.clients.get(chainId);
+    if (existing) {
+      return existing;
+    }
+
+    const urls = getRpcUrls(chainId);
+    if (urls.length === 0) {
+      return null;
+    }
+
+    const endpoints = urls.map((url): RpcEndpointStatus => ({
+      chainId,
+      url,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+    }));
+    this.endpoints.set(chainId, endpoints);
+
+    const transport = fallback(
+      endpoints.map((endpoint) => this.trackedTransport(endpoint)),
+      {
+        rank: (this.options.rank ?? urls.length > 1) ? { interval: RPC_RANK_INTERVAL_MS } : false,
+        retryCount: RPC_RETRY_COUNT,
+        retryDelay: this.options.retryDelay ?? RPC_RETRY_DELAY_MS,
+      },
+    );
+
+    const client = createPublicClient({ transport: this.cachedTransport(chainId, transport) });
+    this.clients.set(chainId, client);
+    return client;
+  }
+
+  /**
+   * Get health stats for the endpoints of one chain, or of every chain used so far
+   */
+  getStatus(chainId?: number): RpcEndpointStatus[] {
+    const endpoints = chainId === undefined ? [...this.endpoints.values()].flat() : this.endpoints.get(chainId) ?? [];
+    return endpoints.map((endpoint) => ({ ...endpoint }));
+  }
+
+  /**
+   * Wrap a single endpoint's transport to record request outcomes and latency
+   */
+  private trackedTransport(endpoint: RpcEndpointStatus): Transport {
+    const base = this.options.transport?.(endpoint.url) ?? http(endpoint.url);
+    return (config) => {
+      const transport = base(config);
+      const request = (async (args, options) => {
+        const start = Date.now();
+        endpoint.requests++;
+        try {
+          const result = await transport.request(args, options);
+          const latency = this.latency.get(endpoint) ?? { total: 0, count: 0 };
+          latency.total += Date.now() - start;
+          latency.count++;
+          this.latency.set(endpoint, latency);
+          endpoint.averageLatencyMs = Math.round(latency.total / latency.count);
+          endpoint.consecutiveFailures = 0;
+          endpoint.lastSuccessAt = Date.now();
+          return result;
+        } catch (error) {
+          endpoint.failures++;
+          endpoint.consecutiveFailures++;
+          endpoint.lastError = describeError(error);
+          endpoint.lastErrorAt = Date.now();
+          throw error;
+        }
+      }) as typeof transport.request;
+      return { ...transport, request };
+    };
+  }
+
+  /**
+   * Wrap the chain's transport to serve repeated idempotent reads from a short-lived cache.
+   * Concurrent identical reads share one request; failures and null results are not cached.
+   */
+  private cachedTransport(chainId: number, base: Transport): Transport {
+    return (config) => {
+      const transport = base(config);
+      const request = ((args, options) => {
+        const { method, params } = args as { method: string; params?: unknown };
+        const immutable = IMMUTABLE_METHODS.has(method);
+        if (!immutable && !BLOCK_DEPENDENT_METHODS.has(method)) {
+          return transport.request(args, options);
+        }
+
+        const key = `${chainId}:${method}:${JSON.stringify(params ?? [])}`;
+        const cached = this.cache.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+          return cached.promise;
+        }
+
+        const promise = transport.request(args, options);
+        this.remember(key, {
+          promise,
+          expiresAt: immutable ? Number.POSITIVE_INFINITY : Date.now() + READ_CACHE_TTL_MS,
+        });
+        promise.then(
+          (result) => result === null && this.cache.delete(key),
+          () => this.cache.delete(key),
+        );
+        return promise;
+      }) as typeof transport.request;
+      return { ...transport, request };
+    };
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      const now = Date.now();
+      for (const [cachedKey, cached] of this.cache) {
+        if (cached.expiresAt <= now) {
+          this.cache.delete(cachedKey);
+        }
+      }
+      // Still full: drop the oldest entry
+      if (this.cache.size >= MAX_CACHE_ENTRIES) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+    }
+    this.cache.set(key, entry);
+  }
+}
+
+// Singleton instance
+export const rpcClients = new RpcClients();
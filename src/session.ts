@@ -0,0 +1,33 @@
+import type { SessionState, WalletCapabilities } from "./types.ts";
+
+/**
+ * Tracks the wallet account most recently connected through the approval page.
+ * Used as the expected signer when a signing request doesn't name an address.
+ */
+class WalletSession {
+  private state: SessionState = {};
+
+  /**
+   * Get a snapshot of the current session
+   */
+  get(): SessionState {
+    return { ...this.state };
+  }
+
+  /**
+   * Record a successful wallet connection and the EIP-5792 capabilities the wallet reported, if any
+   */
+  setConnected(address: string, chainId?: number, capabilities?: WalletCapabilities): void {
+    this.state = { address, chainId, connectedAt: Date.now(), capabilities };
+  }
+
+  /**
+   * Forget the connected wallet
+   */
+  clear(): void {
+    this.state = {};
+  }
+}
+
+// Singleton instance
+export const walletSession = new WalletSession();
@@ -0,0 +1,58 @@
+import {
+  type Abi,
+  type Address,
+  BaseError,
+  ExecutionRevertedError,
+  type Hex,
+  InsufficientFundsError,
+  type PublicClient,
+} from "viem";
+
+import { decodeRevertData, getRevertData } from "./receipts.ts";
+import type { SimulationReport } from "./types.ts";
+
+/**
+ * Check whether an error means the transaction itself would fail, as opposed to the RPC being unreachable
+ */
+function isExecutionFailure(error: unknown): error is BaseError {
+  return error instanceof BaseError &&
+    error.walk((e) => e instanceof ExecutionRevertedError || e instanceof InsufficientFundsError) !== null;
+}
+
+/**
+ * Dry-run a transaction with eth_call and, if it would succeed, estimate its gas and fee.
+ * A revert is reported in the result; RPC failures are thrown.
+ */
+export async function simulateTransaction(
+  client: PublicClient,
+  chainId: number,
+  tx: { from?: Address; to: Address; value?: bigint; data?: Hex; gas?: bigint },
+  abi?: Abi,
+): Promise<SimulationReport> {
+  const params = { account: tx.from, to: tx.to, value: tx.value, data: tx.data, gas: tx.gas };
+
+  try {
+    const { data: returnData } = await client.call(params);
+    const [gasEstimate, gasPrice] = await Promise.all([
+      tx.gas ?? client.estimateGas(params),
+      client.getGasPrice(),
+    ]);
+    return {
+      chainId,
+      success: true,
+      gasEstimate,
+      gasPrice,
+      estimatedFee: gasEstimate * gasPrice,
+      returnData,
+    };
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (revertData !== undefined) {
+      return { chainId, success: false, revertReason: decodeRevertData(revertData, abi) };
+    }
+    if (isExecutionFailure(error)) {
+      return { chainId, success: false, revertReason: error.shortMessage };
+    }
+    throw error;
+  }
+}
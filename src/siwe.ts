@@ -0,0 +1,169 @@
+import { type Address, BaseError } from "viem";
+import { createSiweMessage, generateSiweNonce, parseSiweMessage, type SiweMessage } from "viem/siwe";
+
+import type { SiweDetails } from "./types.ts";
+
+// Fields of a sign-in message to build; the version and issue time are filled in
+export interface SiweParams {
+  domain: string;
+  uri: string;
+  address: Address;
+  chainId: number;
+  statement?: string;
+  nonce?: string;
+  resources?: string[];
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  scheme?: string;
+}
+
+// What a verify_siwe caller expects the message to say; unset fields aren't checked
+export interface SiweExpectations {
+  domain?: string;
+  nonce?: string;
+  address?: string;
+  uri?: string;
+  chainId?: number;
+  time?: Date;
+}
+
+/**
+ * Turn viem's field errors ("Invalid ... field "nonce"." plus hints) into one line
+ */
+function describeFieldError(error: unknown): string {
+  if (!(error instanceof BaseError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  const hint = error.metaMessages?.find((line) => line.startsWith("- "));
+  return hint ? `${error.shortMessage.replace(/\.$/, "")}: ${hint.slice(2)}` : error.shortMessage;
+}
+
+/**
+ * Build an EIP-4361 message, generating a nonce if none is given.
+ * Throws with a one-line reason if a field is malformed.
+ */
+export function buildSiweMessage(params: SiweParams, now: Date = new Date()): { message: string; details: SiweDetails } {
+  const fields: SiweMessage = {
+    domain: params.domain,
+    uri: params.uri,
+    address: params.address,
+    chainId: params.chainId,
+    nonce: params.nonce ?? generateSiweNonce(),
+    version: "1",
+    issuedAt: now,
+    statement: params.statement,
+    resources: params.resources,
+    expirationTime: params.expirationTime ? new Date(params.expirationTime) : undefined,
+    notBefore: params.notBefore ? new Date(params.notBefore) : undefined,
+    requestId: params.requestId,
+    scheme: params.scheme,
+  };
+
+  let message: string;
+  try {
+    message = createSiweMessage(fields);
+  } catch (error) {
+    throw new Error(describeFieldError(error));
+  }
+
+  return {
+    message,
+    details: {
+      domain: fields.domain,
+      uri: fields.uri,
+      statement: fields.statement,
+      nonce: fields.nonce,
+      issuedAt: now.toISOString(),
+      expirationTime: fields.expirationTime?.toISOString(),
+      notBefore: fields.notBefore?.toISOString(),
+      resources: fields.resources,
+      requestId: fields.requestId,
+      warnings: siweWarnings(fields),
+    },
+  };
+}
+
+/**
+ * Reasons the domain may not be the site the user thinks they are signing in to
+ */
+export function siweWarnings(fields: Pick<SiweMessage, "domain" | "uri"> & { scheme?: string }): string[] {
+  const warnings: string[] = [];
+  const host = fields.domain.replace(/:\d+$/, "").toLowerCase();
+
+  if (host.split(".").some((label) => label.startsWith("xn--"))) {
+    warnings.push(`${fields.domain} uses internationalized characters, which can imitate the name of another site`);
+  }
+
+  let uri: URL | null = null;
+  try {
+    uri = new URL(fields.uri);
+  } catch {
+    // Non-URL URIs (e.g. did:) carry no host to compare
+  }
+  if (uri && uri.hostname && uri.hostname.toLowerCase() !== host) {
+    warnings.push(`The URI ${fields.uri} is on ${uri.hostname}, not ${fields.domain}`);
+  }
+
+  const local = host === "localhost" || /^[\d.]+$/.test(host) || host.startsWith("[");
+  if (!local && (fields.scheme === "http" || uri?.protocol === "http:")) {
+    warnings.push("The sign-in is not over HTTPS");
+  }
+  return warnings;
+}
+
+/**
+ * Parse an EIP-4361 message and check it is complete, current and says what the caller expects.
+ * Returns the parsed fields and every problem found; the signature is checked separately.
+ */
+export function checkSiweMessage(
+  message: string,
+  expected: SiweExpectations = {},
+): { fields: ReturnType<typeof parseSiweMessage>; problems: string[] } {
+  const fields = parseSiweMessage(message);
+  const problems: string[] = [];
+
+  for (const field of ["domain", "address", "uri", "version", "chainId", "nonce", "issuedAt"] as const) {
+    if (fields[field] === undefined) {
+      problems.push(`missing ${field}`);
+    }
+  }
+  if (problems.length > 0) {
+    return { fields, problems: ["not a valid EIP-4361 message: " + problems.join(", ")] };
+  }
+
+  if (fields.version !== "1") {
+    problems.push(`unsupported version ${fields.version}`);
+  }
+  for (const field of ["expirationTime", "notBefore", "issuedAt"] as const) {
+    if (fields[field] && Number.isNaN(fields[field].getTime())) {
+      problems.push(`${field} is not a valid date`);
+    }
+  }
+
+  const time = expected.time ?? new Date();
+  if (fields.expirationTime && time >= fields.expirationTime) {
+    problems.push(`expired at ${fields.expirationTime.toISOString()}`);
+  }
+  if (fields.notBefore && time < fields.notBefore) {
+    problems.push(`not valid before ${fields.notBefore.toISOString()}`);
+  }
+
+  if (expected.domain && fields.domain !== expected.domain) {
+    problems.push(`domain is ${fields.domain}, expected ${expected.domain}`);
+  }
+  if (expected.nonce && fields.nonce !== expected.nonce) {
+    problems.push(`nonce is ${fields.nonce}, expected ${expected.nonce}`);
+  }
+  if (expected.uri && fields.uri !== expected.uri) {
+    problems.push(`URI is ${fields.uri}, expected ${expected.uri}`);
+  }
+  if (expected.chainId !== undefined && fields.chainId !== expected.chainId) {
+    problems.push(`chain ID is ${fields.chainId}, expected ${expected.chainId}`);
+  }
+  if (expected.address && fields.address!.toLowerCase() !== expected.address.toLowerCase()) {
+    problems.push(`address is ${fields.address}, expected ${expected.address}`);
+  }
+
+  return { fields, problems };
+}
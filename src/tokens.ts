@@ -0,0 +1,111 @@
+import { type Address, erc20Abi, formatUnits, isAddress, type PublicClient } from "viem";
+
+import type { TokenConfig } from "./types.ts";
+
+// Well-known ERC-20 tokens, keyed by chain ID (matches the CHAINS map in config.ts)
+export const TOKENS: Record<number, TokenConfig[]> = {
+  // Ethereum Mainnet
+  1: [
+    { symbol: "USDC", name: "USD Coin", address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", decimals: 6 },
+    { symbol: "USDT", name: "Tether USD", address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", decimals: 6 },
+    { symbol: "DAI", name: "Dai Stablecoin", address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", decimals: 18 },
+    { symbol: "WETH", name: "Wrapped Ether", address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", decimals: 18 },
+    { symbol: "WBTC", name: "Wrapped BTC", address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", decimals: 8 },
+  ],
+  // Sepolia Testnet
+  11155111: [
+    { symbol: "USDC", name: "USD Coin", address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", decimals: 6 },
+    { symbol: "WETH", name: "Wrapped Ether", address: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14", decimals: 18 },
+  ],
+  // Polygon
+  137: [
+    { symbol: "USDC", name: "USD Coin", address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", decimals: 6 },
+    { symbol: "USDC.e", name: "Bridged USD Coin", address: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174", decimals: 6 },
+    { symbol: "USDT", name: "Tether USD", address: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F", decimals: 6 },
+    { symbol: "DAI", name: "Dai Stablecoin", address: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063", decimals: 18 },
+    { symbol: "WETH", name: "Wrapped Ether", address: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619", decimals: 18 },
+    { symbol: "WPOL", name: "Wrapped POL", address: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270", decimals: 18 },
+  ],
+  // Arbitrum One
+  42161: [
+    { symbol: "USDC", name: "USD Coin", address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", decimals: 6 },
+    { symbol: "USDT", name: "Tether USD", address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", decimals: 6 },
+    { symbol: "DAI", name: "Dai Stablecoin", address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", decimals: 18 },
+    { symbol: "WETH", name: "Wrapped Ether", address: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", decimals: 18 },
+  ],
+  // Optimism
+  10: [
+    { symbol: "USDC", name: "USD Coin", address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", decimals: 6 },
+    { symbol: "USDT", name: "Tether USD", address: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58", decimals: 6 },
+    { symbol: "DAI", name: "Dai Stablecoin", address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", decimals: 18 },
+    { symbol: "WETH", name: "Wrapped Ether", address: "0x4200000000000000000000000000000000000006", decimals: 18 },
+  ],
+  // Base
+  8453: [
+    { symbol: "USDC", name: "USD Coin", address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6 },
+    { symbol: "DAI", name: "Dai Stablecoin", address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb", decimals: 18 },
+    { symbol: "WETH", name: "Wrapped Ether", address: "0x4200000000000000000000000000000000000006", decimals: 18 },
+  ],
+  // Avalanche C-Chain
+  43114: [
+    { symbol: "USDC", name: "USD Coin", address: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", decimals: 6 },
+    { symbol: "USDT", name: "Tether USD", address: "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7", decimals: 6 },
+    { symbol: "WAVAX", name: "Wrapped AVAX", address: "0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7", decimals: 18 },
+  ],
+  // BNB Smart Chain (note: stablecoins use 18 decimals here)
+  56: [
+    { symbol: "USDC", name: "USD Coin", address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", decimals: 18 },
+    { symbol: "USDT", name: "Tether USD", address: "0x55d398326f99059fF775485246999027B3197955", decimals: 18 },
+    { symbol: "DAI", name: "Dai Stablecoin", address: "0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3", decimals: 18 },
+    { symbol: "WBNB", name: "Wrapped BNB", address: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c", decimals: 18 },
+  ],
+};
+
+/**
+ * Look up a well-known token by symbol (case-insensitive) on a chain
+ */
+export function getTokenBySymbol(chainId: number, symbol: string): TokenConfig | undefined {
+  const upper = symbol.toUpperCase();
+  return TOKENS[chainId]?.find((token) => token.symbol.toUpperCase() === upper);
+}
+
+/**
+ * Resolve a token symbol or contract address to a contract address.
+ * Returns undefined if the symbol is not in the registry for the chain.
+ */
+export function resolveTokenAddress(chainId: number, token: string): Address | undefined {
+  if (isAddress(token, { strict: false })) {
+    return token;
+  }
+  return getTokenBySymbol(chainId, token)?.address;
+}
+
+/**
+ * Read an ERC-20 token's decimals and symbol via eth_call
+ */
+export async function readTokenMetadata(
+  client: PublicClient,
+  token: Address,
+): Promise<{ decimals: number; symbol?: string }> {
+  const [decimals, symbol] = await Promise.all([
+    client.readContract({ address: token, abi: erc20Abi, functionName: "decimals" }),
+    // Some tokens (e.g. MKR) return bytes32 instead of string; symbol is informational only
+    client.readContract({ address: token, abi: erc20Abi, functionName: "symbol" }).catch(() => undefined),
+  ]);
+  return { decimals, symbol };
+}
+
+/**
+ * Read an ERC-20 balance together with the token's decimals and symbol via eth_call
+ */
+export async function readTokenBalance(
+  client: PublicClient,
+  token: Address,
+  owner: Address,
+): Promise<{ raw: bigint; formatted: string; decimals: number; symbol?: string }> {
+  const [raw, { decimals, symbol }] = await Promise.all([
+    client.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [owner] }),
+    readTokenMetadata(client, token),
+  ]);
+  return { raw, formatted: formatUnits(raw, decimals), decimals, symbol };
+}
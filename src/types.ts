@@ -5,6 +5,10 @@ export interface ChainConfig {
   id: number;
   name: string;
   rpcUrl: string;
+  // Further RPC URLs used for read calls when rpcUrl fails or ranks worse
+  fallbackRpcUrls?: string[];
+  // RPC URL handed to the browser wallet when it adds the chain (defaults to rpcUrl)
+  walletRpcUrl?: string;
   nativeCurrency: {
     name: string;
     symbol: string;
@@ -13,20 +17,139 @@ export interface ChainConfig {
   blockExplorer?: string;
 }
 
+// Well-known ERC-20 token entry in the per-chain registry
+export interface TokenConfig {
+  symbol: string;
+  name: string;
+  address: `0x${string}`;
+  decimals: number;
+}
+
+// Log emitted by a mined transaction, decoded when a matching ABI is known
+export interface ReceiptLog {
+  address: string;
+  topics: string[];
+  eventName?: string;
+  args?: Record<string, unknown> | readonly unknown[];
+}
+
+// Outcome of a mined transaction, as reported by wait_for_transaction
+export interface TransactionReceiptReport {
+  hash: string;
+  chainId: number;
+  status: "success" | "reverted";
+  blockNumber: bigint;
+  confirmations: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  logs: ReceiptLog[];
+  revertReason?: string;
+  explorerUrl: string | null;
+}
+
+// Outcome of dry-running a transaction with eth_call / eth_estimateGas
+export interface SimulationReport {
+  chainId: number;
+  success: boolean;
+  revertReason?: string;
+  gasEstimate?: bigint;
+  gasPrice?: bigint;
+  // gasEstimate * gasPrice, in wei
+  estimatedFee?: bigint;
+  returnData?: string;
+}
+
+// Health of one RPC endpoint, as reported by get_rpc_status
+export interface RpcEndpointStatus {
+  chainId: number;
+  url: string;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  // Mean latency of successful requests, in milliseconds
+  averageLatencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+}
+
+// Policy rule a request broke
+export type PolicyRule =
+  | "chain_not_allowed"
+  | "address_denied"
+  | "recipient_not_allowed"
+  | "contract_not_allowed"
+  | "selector_banned"
+  | "unlimited_approval"
+  | "native_per_tx_limit"
+  | "native_daily_limit"
+  | "token_per_tx_limit"
+  | "token_daily_limit"
+  | "personal_sign_disabled"
+  | "typed_data_disabled"
+  | "primary_type_denied"
+  | "verifying_contract_not_allowed";
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+// Outcome of checking a request against the policy; any violation means the request is refused
+export interface PolicyDecision {
+  violations: PolicyViolation[];
+  // Shown on the approval page when the request is allowed but close to a limit
+  warnings: string[];
+}
+
 // Request types for pending store
-export type RequestType = "connect" | "send_transaction" | "sign_message" | "sign_typed_data";
+export type RequestType =
+  | "connect"
+  | "send_transaction"
+  | "send_transactions"
+  | "sign_message"
+  | "sign_typed_data"
+  | "calls_status";
 
 export interface BaseRequest {
   id: string;
   type: RequestType;
   chainId?: number;
   createdAt: number;
+  // Policy notices for the approval page, e.g. a transfer that uses most of a daily limit
+  policyWarnings?: string[];
+  // Name of the MCP client (agent) that made the request, to tell apart agents sharing one approval server
+  client?: string;
 }
 
 export interface ConnectRequest extends BaseRequest {
   type: "connect";
 }
 
+// Human-readable description of a token transfer, shown on the approval page instead of raw calldata
+export interface TransferIntent {
+  kind: "transfer";
+  amount: string;
+  symbol: string;
+  decimals: number;
+  recipient: string;
+  // ERC-20 contract address; absent for native currency transfers
+  token?: string;
+}
+
+// Human-readable description of an ERC-20 approval being set back to zero
+export interface RevokeIntent {
+  kind: "revoke";
+  token: string;
+  symbol: string;
+  decimals: number;
+  spender: string;
+  // Allowance before the revoke in whole tokens, or "unlimited"; absent if the owner wasn't known
+  currentAllowance?: string;
+}
+
+export type TransactionIntent = TransferIntent | RevokeIntent;
+
 export interface SendTransactionRequest extends BaseRequest {
   type: "send_transaction";
   to: string;
@@ -35,12 +158,54 @@ export interface SendTransactionRequest extends BaseRequest {
   gasLimit?: string;
   maxFeePerGas?: string;
   maxPriorityFeePerGas?: string;
+  intent?: TransactionIntent;
+  // Agent-supplied hints for decoding data on the approval page
+  abi?: Record<string, unknown>[];
+  functionSignature?: string;
+}
+
+// One transaction of a send_transactions batch: the transaction fields of a SendTransactionRequest
+export type BatchTransaction = Omit<SendTransactionRequest, keyof BaseRequest>;
+
+export interface SendTransactionsRequest extends BaseRequest {
+  type: "send_transactions";
+  // Sent in order; each one waits for the previous receipt unless the batch goes out atomically
+  transactions: BatchTransaction[];
+  // true: only send atomically (EIP-5792 wallet_sendCalls); false: always one by one; unset: atomically if supported
+  atomic?: boolean;
+  // ERC-7677 paymaster service that sponsors gas; requires a wallet with the paymasterService capability
+  paymasterUrl?: string;
+}
+
+// Asks the approval page to look up an EIP-5792 call bundle with wallet_getCallsStatus
+export interface CallsStatusRequest extends BaseRequest {
+  type: "calls_status";
+  callsId: string;
+  // Keep polling until the bundle is no longer pending
+  wait?: boolean;
 }
 
 export interface SignMessageRequest extends BaseRequest {
   type: "sign_message";
   message: string;
   address?: string;
+  // Set when the message is a Sign-In With Ethereum message, for a dedicated approval view
+  siwe?: SiweDetails;
+}
+
+// Fields of an EIP-4361 message as shown on the approval page; times are ISO 8601
+export interface SiweDetails {
+  domain: string;
+  uri: string;
+  statement?: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  resources?: string[];
+  requestId?: string;
+  // Reasons the domain may not be the site the user thinks they are signing in to
+  warnings: string[];
 }
 
 export interface SignTypedDataRequest extends BaseRequest {
@@ -50,6 +215,24 @@ export interface SignTypedDataRequest extends BaseRequest {
   primaryType: string;
   message: Record<string, unknown>;
   address?: string;
+  // Set for sign_permit / sign_permit2 requests, for a dedicated approval view
+  permit?: PermitSummary;
+}
+
+// What a permit grants, as shown on the approval page; times are Unix seconds
+export interface PermitSummary {
+  kind: "erc2612" | "permit2";
+  token: string;
+  tokenName?: string;
+  symbol?: string;
+  spender: string;
+  // Amount in token units, or "unlimited"
+  amount: string;
+  // When a Permit2 allowance runs out; ERC-2612 allowances last until changed
+  expiresAt?: number;
+  // When the signature stops being usable
+  deadline: number;
+  warnings: string[];
 }
 
 export interface TypedDataDomain {
@@ -68,48 +251,287 @@ export interface TypedDataField {
 export type PendingRequest =
   | ConnectRequest
   | SendTransactionRequest
+  | SendTransactionsRequest
   | SignMessageRequest
-  | SignTypedDataRequest;
+  | SignTypedDataRequest
+  | CallsStatusRequest;
 
 // Response types
 export interface SuccessResult {
   success: true;
-  result: string; // address, tx hash, or signature
+  result: string; // address, tx hash, or signature; comma-separated hashes for batches; bundle status
+  batch?: BatchOutcome;
+  // EIP-5792 capabilities the wallet reported when connecting
+  capabilities?: WalletCapabilities;
+  callsStatus?: CallsStatus;
+  // Why the result couldn't be checked on chain, e.g. a transaction the RPC hadn't indexed yet
+  unverified?: string;
 }
 
 export interface ErrorResult {
   success: false;
   error: string;
+  batch?: BatchOutcome;
+}
+
+// What happened to the transactions of a send_transactions batch
+export interface BatchOutcome {
+  // Hashes of the transactions sent, in order (an atomic batch may be a single transaction)
+  hashes: string[];
+  // EIP-5792 call bundle ID when the batch was sent atomically with wallet_sendCalls
+  callsId?: string;
+  // Index of the transaction that failed; the ones after it were not sent
+  failedIndex?: number;
+}
+
+// EIP-5792 wallet_getCapabilities response: capabilities by hex chain ID, e.g. { "0x1": { atomic: { status: "supported" } } }
+export type WalletCapabilities = Record<string, Record<string, unknown>>;
+
+// Status of an EIP-5792 call bundle, normalized across versions 1.0 and 2.0.0 of wallet_getCallsStatus
+export interface CallsStatus {
+  status: "pending" | "confirmed" | "failed";
+  receipts: Array<{ transactionHash: string; status: "success" | "reverted"; blockNumber?: number }>;
+  // Whether the calls were executed atomically (reported by 2.0.0 wallets only)
+  atomic?: boolean;
 }
 
 export type RequestResult = SuccessResult | ErrorResult;
 
+// Handle returned when a request is created
+export interface CreatedRequest {
+  id: string;
+  secret: string;
+  promise: Promise<RequestResult>;
+}
+
+// Lifecycle status of a request, as reported by get_request_status
+export type RequestStatus = "pending" | "approved" | "rejected" | "cancelled" | "expired";
+
+// How far the user has got with a pending request, reported to the waiting agent as MCP progress
+export type RequestStage = "browser_opened" | "page_loaded" | "wallet_connected" | "awaiting_signature" | "broadcast";
+
+// Pushed to open approval tabs over /api/events when a request is created, moves on or finishes
+export type RequestEvent =
+  | { type: "created"; id: string; requestType: RequestType }
+  | { type: "finished"; id: string; status: Exclude<RequestStatus, "pending"> }
+  | { type: "extended"; id: string; expiresAt: number }
+  | { type: "stage"; id: string; stage: RequestStage };
+
+// Retained record of a request and its outcome
+export interface RequestRecord {
+  request: PendingRequest;
+  status: RequestStatus;
+  result?: RequestResult;
+  error?: string; // cancellation or timeout reason
+  completedAt?: number;
+  // Set when the approval page reported the outcome after the request had expired
+  late?: boolean;
+  // Latest stage of a pending request
+  stage?: RequestStage;
+}
+
+// Line of the audit log (JSONL); a request's lines are folded into an AuditRecord when read back
+export type AuditEvent =
+  | { event: "created"; id: string; at: number; request: PendingRequest; approvalUrl: string }
+  | { event: "opened"; id: string; at: number }
+  | {
+    event: "completed";
+    id: string;
+    at: number;
+    status: Exclude<RequestStatus, "pending">;
+    result?: RequestResult;
+    error?: string;
+  };
+
+// A request's history, as reported by get_request_history and /api/history
+export interface AuditRecord extends RequestRecord {
+  // Approval URL without the secret fragment
+  approvalUrl?: string;
+  createdAt: number;
+  openedAt?: number;
+}
+
+// Wallet session as last reported by the approval page
+export interface SessionState {
+  address?: string;
+  chainId?: number;
+  connectedAt?: number;
+  capabilities?: WalletCapabilities;
+}
+
 // Pending store entry
 export interface PendingEntry<T extends PendingRequest = PendingRequest> {
   request: T;
+  secret: string; // capability token embedded in the approval URL
+  expiresAt: number; // when the request times out
+  stage?: RequestStage; // latest progress reported by the approval page
   resolve: (result: RequestResult) => void;
   reject: (error: Error) => void;
 }
 
+// Contents of the daemon file, through which MCP server processes find the approval server one of them hosts
+export interface DaemonInfo {
+  port: number;
+  pid: number;
+  // Secret other processes present (X-Daemon-Token) to register and follow requests
+  token: string;
+}
+
+// Contents of the request store file. Secrets of expired requests are kept so a late outcome can still be posted.
+export interface StoredRequests {
+  pending: Array<{ request: PendingRequest; secret: string; expiresAt: number }>;
+  finished: Array<{ record: RequestRecord; secret?: string }>;
+}
+
+// Bounds of how long a request waits for the user, in seconds (config default, per-call timeoutSeconds and extensions)
+export const MIN_REQUEST_TIMEOUT_SECONDS = 30;
+export const MAX_REQUEST_TIMEOUT_SECONDS = 60 * 60;
+
 // Zod schemas for MCP tool inputs
+
+// Per-call override of how long a signing request waits for the user
+const timeoutSeconds = z
+  .number()
+  .int()
+  .min(MIN_REQUEST_TIMEOUT_SECONDS)
+  .max(MAX_REQUEST_TIMEOUT_SECONDS)
+  .optional()
+  .describe("Seconds the user has to act before the request times out (default: the server's request timeout)");
+
 export const ConnectWalletSchema = z.object({
   chainId: z.number().optional().describe("Chain ID to connect to (default: 1 for Ethereum mainnet)"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
 });
 
 export const SendTransactionSchema = z.object({
   to: z.string().describe("Recipient address (0x...)"),
   value: z.string().optional().describe("Amount in wei to send"),
+  valueEther: z.string().optional().describe('Amount of the native currency to send, e.g. "0.25"'),
+  valueUnits: z.string().optional().describe('Amount to send with a unit, e.g. "30 gwei"'),
   data: z.string().optional().describe("Contract call data (hex encoded)"),
   chainId: z.number().optional().describe("Chain ID (default: 1)"),
   gasLimit: z.string().optional().describe("Gas limit"),
   maxFeePerGas: z.string().optional().describe("Max fee per gas in wei"),
   maxPriorityFeePerGas: z.string().optional().describe("Max priority fee per gas in wei"),
+  abi: z.array(z.record(z.unknown())).optional().describe("Contract ABI used to decode the call data for the user"),
+  functionSignature: z.string().optional().describe("Function signature used to decode the call data for the user"),
+  waitForReceipt: z.boolean().optional().describe("Wait for the transaction to be mined and include the receipt"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
+});
+
+export const BatchTransactionSchema = SendTransactionSchema.pick({
+  to: true,
+  value: true,
+  valueEther: true,
+  valueUnits: true,
+  data: true,
+  gasLimit: true,
+  maxFeePerGas: true,
+  maxPriorityFeePerGas: true,
+  abi: true,
+  functionSignature: true,
+});
+
+export const SendTransactionsSchema = z.object({
+  transactions: z.array(BatchTransactionSchema).min(1).max(20).describe(
+    "Transactions to send in order, e.g. an approve followed by a swap",
+  ),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+  atomic: z.boolean().optional().describe(
+    "true: require atomic execution via EIP-5792 wallet_sendCalls; false: always send one by one; default: atomic when the wallet supports it",
+  ),
+  paymasterUrl: z.string().url().optional().describe(
+    "ERC-7677 paymaster service URL that sponsors gas; requires a wallet with the EIP-5792 paymasterService capability",
+  ),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
+});
+
+export const GetCallsStatusSchema = z.object({
+  callsId: z.string().min(1).describe("Call bundle ID returned by wallet_sendCalls, e.g. from send_transactions"),
+  chainId: z.number().optional().describe("Chain ID the bundle was sent on (default: 1)"),
+  wait: z.boolean().optional().describe("Keep polling until the bundle is confirmed or fails (default: false)"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for the result"),
+});
+
+export const TransferTokenSchema = z.object({
+  to: z.string().describe("Recipient address (0x...)"),
+  amount: z.string().describe('Amount to send in whole tokens, e.g. "0.25"'),
+  token: z.string().optional().describe("Token contract address or symbol (default: the chain's native currency)"),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+  waitForReceipt: z.boolean().optional().describe("Wait for the transaction to be mined and include the receipt"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
+});
+
+export const GetAllowancesSchema = z.object({
+  owner: z.string().optional().describe("Token owner (uses connected address if not specified)"),
+  allowances: z.array(z.object({
+    token: z.string().describe("Token contract address or symbol"),
+    spender: z.string().describe("Spender address (0x...)"),
+  })).optional().describe("Token/spender pairs to read"),
+  scan: z.boolean().optional().describe(
+    "Find approvals from the owner's Approval events (default: true when no pairs are given)",
+  ),
+  fromBlock: z.number().int().nonnegative().optional().describe("First block to scan (default: 10,000 blocks back)"),
+  toBlock: z.number().int().nonnegative().optional().describe("Last block to scan (default: latest)"),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+});
+
+export const RevokeAllowanceSchema = z.object({
+  token: z.string().describe("Token contract address or symbol"),
+  spender: z.string().describe("Spender address whose allowance is set to zero (0x...)"),
+  owner: z.string().optional().describe("Token owner, to check the current allowance (uses connected address if not specified)"),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+  waitForReceipt: z.boolean().optional().describe("Wait for the transaction to be mined and include the receipt"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
 });
 
 export const SignMessageSchema = z.object({
   message: z.string().describe("Message to sign"),
   address: z.string().optional().describe("Address to sign with (uses connected address if not specified)"),
   chainId: z.number().optional().describe("Chain ID"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
+});
+
+// Optional ISO 8601 time field of a sign-in message
+const isoTime = (description: string) =>
+  z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO 8601 date or time")
+    .optional()
+    .describe(description);
+
+export const SignInWithEthereumSchema = z.object({
+  domain: z.string().describe('Domain (RFC 3986 authority) asking for the sign-in, e.g. "app.example.com"'),
+  uri: z.string().describe('URI the sign-in is for, e.g. "https://app.example.com/login"'),
+  statement: z.string().optional().describe("Human-readable statement the user agrees to (one line)"),
+  nonce: z.string().optional().describe(
+    "Nonce from the relying party, at least 8 alphanumeric characters (generated if omitted)",
+  ),
+  resources: z.array(z.string()).optional().describe("URIs the user wishes to have resolved as part of authentication"),
+  expirationTime: isoTime("When the signed message expires (ISO 8601)"),
+  notBefore: isoTime("When the signed message becomes valid (ISO 8601)"),
+  requestId: z.string().optional().describe("Relying party's identifier for the sign-in request"),
+  address: z.string().optional().describe("Address to sign in with (uses connected address if not specified)"),
+  chainId: z.number().optional().describe("Chain ID the session is bound to (default: 1)"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
+});
+
+export const VerifySiweSchema = z.object({
+  message: z.string().describe("EIP-4361 message that was signed"),
+  signature: z.string().describe("Signature over the message (0x...)"),
+  domain: z.string().optional().describe("Expected domain"),
+  nonce: z.string().optional().describe("Expected nonce"),
+  address: z.string().optional().describe("Expected signer address"),
+  uri: z.string().optional().describe("Expected URI"),
+  chainId: z.number().optional().describe("Expected chain ID"),
+  time: isoTime("Time to check expiration and not-before against (default: now)"),
 });
 
 export const SignTypedDataSchema = z.object({
@@ -128,6 +550,30 @@ export const SignTypedDataSchema = z.object({
   message: z.record(z.unknown()).describe("Message data to sign"),
   address: z.string().optional().describe("Address to sign with"),
   chainId: z.number().optional().describe("Chain ID"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
+});
+
+const permitFields = {
+  token: z.string().describe("Token contract address (0x...) or symbol from the built-in registry (e.g. USDC)"),
+  spender: z.string().describe("Address allowed to spend the tokens (0x...)"),
+  amount: z.string().describe('Amount in token units, e.g. "100.5", or "unlimited" for the maximum allowance'),
+  deadline: z.number().int().positive().optional().describe(
+    "Unix time (seconds) after which the signature can no longer be used (default: 30 minutes from now)",
+  ),
+  owner: z.string().optional().describe("Token owner who signs the permit (uses connected address if not specified)"),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+  async: z.boolean().optional().describe("Return the request ID immediately instead of waiting for approval"),
+  timeoutSeconds,
+};
+
+export const SignPermitSchema = z.object(permitFields);
+
+export const SignPermit2Schema = z.object({
+  ...permitFields,
+  expiration: z.number().int().positive().optional().describe(
+    "Unix time (seconds) when the Permit2 allowance expires (default: 24 hours from now)",
+  ),
 });
 
 export const GetBalanceSchema = z.object({
@@ -135,13 +581,217 @@ export const GetBalanceSchema = z.object({
   chainId: z.number().optional().describe("Chain ID (default: 1)"),
 });
 
+export const GetTokenBalanceSchema = z.object({
+  token: z.string().describe("Token contract address (0x...) or symbol from the built-in registry (e.g. USDC)"),
+  address: z.string().describe("Address to get balance for (0x...)"),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+});
+
+export const WaitForTransactionSchema = z.object({
+  hash: z.string().describe("Transaction hash (0x...)"),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+  confirmations: z.number().int().min(1).optional().describe("Number of confirmations to wait for (default: 1)"),
+  timeoutSeconds: z.number().positive().optional().describe("How long to wait before giving up (default: 120)"),
+  abi: z.array(z.record(z.unknown())).optional().describe("Contract ABI used to decode custom errors and events"),
+});
+
+export const GetTransactionReceiptSchema = z.object({
+  hash: z.string().describe("Transaction hash (0x...)"),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+  abi: z.array(z.record(z.unknown())).optional().describe("Contract ABI used to decode custom errors and events"),
+});
+
+export const SimulateTransactionSchema = z.object({
+  to: z.string().describe("Recipient or contract address (0x...)"),
+  from: z.string().optional().describe("Sender address (default: the connected wallet)"),
+  value: z.string().optional().describe("Amount in wei to send"),
+  valueEther: z.string().optional().describe('Amount of the native currency to send, e.g. "0.25"'),
+  valueUnits: z.string().optional().describe('Amount to send with a unit, e.g. "30 gwei"'),
+  data: z.string().optional().describe("Contract call data (hex encoded)"),
+  chainId: z.number().optional().describe("Chain ID (default: 1)"),
+  gasLimit: z.string().optional().describe("Gas limit"),
+  abi: z.array(z.record(z.unknown())).optional().describe("Contract ABI used to decode custom errors"),
+});
+
+export const GetRequestStatusSchema = z.object({
+  requestId: z.string().describe("Request ID returned by an async signing tool call"),
+});
+
+export const CancelRequestSchema = z.object({
+  requestId: z.string().describe("Request ID of the pending request to cancel"),
+});
+
+export const GetRequestHistorySchema = z.object({
+  type: z.enum(["connect", "send_transaction", "send_transactions", "sign_message", "sign_typed_data", "calls_status"])
+    .optional().describe(
+      "Only requests of this type",
+    ),
+  chainId: z.number().optional().describe("Only requests on this chain"),
+  address: z.string().optional().describe("Only requests involving this address (recipient, signer or connected wallet)"),
+  since: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO 8601 date or time")
+    .optional()
+    .describe('Only requests created at or after this ISO 8601 date or time, e.g. "2026-01-31"'),
+  until: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO 8601 date or time")
+    .optional()
+    .describe("Only requests created before this ISO 8601 date or time"),
+  limit: z.number().int().min(1).max(500).optional().describe("Maximum number of requests, newest first (default: 20)"),
+});
+
+export type RequestHistoryFilters = z.infer<typeof GetRequestHistorySchema>;
+
+export const GetRpcStatusSchema = z.object({
+  chainId: z.number().optional().describe("Only report endpoints for this chain (default: all chains used so far)"),
+});
+
+// Chain settings from the config file or EVM_MCP_* environment variables
+export const ChainOverrideSchema = z.object({
+  name: z.string().min(1).optional(),
+  rpcUrl: z.string().url().optional(),
+  fallbackRpcUrls: z.array(z.string().url()).optional(),
+  walletRpcUrl: z.string().url().optional(),
+  blockExplorer: z.string().url().optional(),
+  nativeCurrency: z
+    .object({
+      name: z.string().min(1).optional(),
+      symbol: z.string().min(1),
+      decimals: z.number().int().min(0).max(36).optional(),
+    })
+    .optional(),
+});
+
+export type ChainOverride = z.infer<typeof ChainOverrideSchema>;
+
+const ChainIdKeySchema = z.string().regex(/^\d+$/, "Chain IDs must be numeric");
+const PolicyAddressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Expected a 0x-prefixed address");
+// Limits are human-readable amounts, e.g. "0.5" ETH or "1000" USDC
+const PolicyAmountSchema = z.string().regex(/^\d+(\.\d+)?$/, "Expected a decimal amount");
+
+export const TokenLimitSchema = z.object({
+  maxPerTx: PolicyAmountSchema.optional(),
+  maxPerDay: PolicyAmountSchema.optional(),
+  // Required for tokens that aren't in the built-in registry
+  decimals: z.number().int().min(0).max(36).optional(),
+});
+
+export const ChainPolicySchema = z.object({
+  maxNativePerTx: PolicyAmountSchema.optional(),
+  maxNativePerDay: PolicyAmountSchema.optional(),
+  // Keyed by token symbol (from the registry) or contract address
+  tokens: z.record(TokenLimitSchema).optional(),
+  // When set, value and tokens may only go to these addresses (also checked for approval spenders)
+  allowedRecipients: z.array(PolicyAddressSchema).optional(),
+  // When set, contract calls may only target these addresses
+  allowedContracts: z.array(PolicyAddressSchema).optional(),
+  deniedAddresses: z.array(PolicyAddressSchema).optional(),
+});
+
+export const MessagePolicySchema = z.object({
+  allowPersonalSign: z.boolean().optional(),
+  allowTypedData: z.boolean().optional(),
+  deniedPrimaryTypes: z.array(z.string()).optional(),
+  // When set, typed data must name one of these contracts as verifyingContract
+  allowedVerifyingContracts: z.array(PolicyAddressSchema).optional(),
+});
+
+export const PolicySchema = z.object({
+  allowedChains: z.array(z.number().int().positive()).optional(),
+  // Function selectors ("0x095ea7b3") or signatures ("approve(address,uint256)") that may not be called
+  bannedSelectors: z.array(z.string()).optional(),
+  denyUnlimitedApprovals: z.boolean().optional(),
+  deniedAddresses: z.array(PolicyAddressSchema).optional(),
+  // Fraction of a limit above which the approval page shows a warning
+  nearLimitRatio: z.number().gt(0).max(1).optional(),
+  messages: MessagePolicySchema.optional(),
+  chains: z.record(ChainIdKeySchema, ChainPolicySchema).optional(),
+});
+
+export type Policy = z.infer<typeof PolicySchema>;
+
+export const ConfigFileSchema = z.object({
+  chains: z.record(ChainIdKeySchema, ChainOverrideSchema).optional(),
+  // Audit log path, or false to disable it
+  auditLog: z.union([z.string().min(1), z.literal(false)]).optional(),
+  // Where pending and recently finished requests are kept across restarts (false keeps them in memory only)
+  requestStore: z.union([z.string().min(1), z.literal(false)]).optional(),
+  // Default time a request waits for the user
+  requestTimeoutSeconds: z.number().int().min(MIN_REQUEST_TIMEOUT_SECONDS).max(MAX_REQUEST_TIMEOUT_SECONDS).optional(),
+  policy: PolicySchema.optional(),
+});
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
 // HTTP API types
+
+// Chain details the approval page needs to switch to or add the request's chain
+export interface ApiChain {
+  id: number;
+  name: string;
+  rpcUrl: string;
+  nativeCurrency: ChainConfig["nativeCurrency"];
+  blockExplorer?: string;
+}
+
 export interface PendingApiResponse {
   request: PendingRequest;
+  chain?: ApiChain;
+  // Lets the approval page link to the dashboard
+  dashboardToken?: string;
+  // When the request times out, for the approval page's countdown
+  expiresAt?: number;
+}
+
+export interface ExtendApiResponse {
+  expiresAt: number;
+}
+
+// Request created by another MCP server process, handed to the host of the approval server
+export interface DaemonRegisterApiRequest {
+  request: PendingRequest;
+  secret: string;
+  expiresAt: number;
+  approvalUrl: string;
+}
+
+// Pending request as listed on the dashboard
+export interface PendingListItem {
+  request: PendingRequest;
+  chain?: ApiChain;
+  // Approval page URL, including the request secret
+  approvalUrl: string;
+  expiresAt: number;
+  stage?: RequestStage;
+}
+
+export interface PendingListApiResponse {
+  requests: PendingListItem[];
+}
+
+export interface HistoryApiResponse {
+  records: AuditRecord[];
+}
+
+export interface SimulateApiRequest {
+  from?: string;
+}
+
+// bigint fields are serialized as decimal strings
+export interface SimulateApiResponse {
+  simulation: SimulationReport;
+}
+
+export interface StageApiRequest {
+  stage: RequestStage;
 }
 
 export interface CompleteApiRequest {
   success: boolean;
   result?: string;
   error?: string;
+  batch?: BatchOutcome;
+  capabilities?: WalletCapabilities;
+  callsStatus?: CallsStatus;
 }
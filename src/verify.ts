@@ -0,0 +1,318 @@
+import {
+  type Address,
+  type Hex,
+  isAddress,
+  isHash,
+  type PublicClient,
+  recoverMessageAddress,
+  recoverTypedDataAddress,
+  type Transaction,
+  TransactionNotFoundError,
+  type TypedDataDefinition,
+  type VerifyTypedDataActionParameters,
+} from "viem";
+
+import { type RpcClients, rpcClients } from "./rpc.ts";
+import { walletSession } from "./session.ts";
+import type {
+  BatchOutcome,
+  CallsStatus,
+  PendingRequest,
+  RequestResult,
+  SendTransactionRequest,
+  SendTransactionsRequest,
+  SignMessageRequest,
+  SignTypedDataRequest,
+} from "./types.ts";
+
+// How long to wait for a reported transaction hash to show up on the chain RPC
+const TX_LOOKUP_TIMEOUT_MS = 30 * 1000;
+const TX_LOOKUP_INTERVAL_MS = 2 * 1000;
+
+// Where verifyResult looks transactions up and how long it waits for them (tests use fake RPCs and no wait)
+export interface VerifyOptions {
+  clients?: RpcClients;
+  lookupTimeoutMs?: number;
+}
+
+// Transaction lookups for one result, collecting the hashes the RPC hadn't seen in time
+interface TransactionLookup {
+  clients: RpcClients;
+  timeoutMs: number;
+  unseen: string[];
+}
+
+/**
+ * Get the shared public client for the chain, or null if no RPC is configured
+ */
+function getClient(chainId: number | undefined): PublicClient | null {
+  return chainId ? rpcClients.getClient(chainId) : null;
+}
+
+/**
+ * Check that a signature was produced by the expected signer.
+ * Falls back to on-chain verification (ERC-1271 / ERC-6492) for smart contract wallets,
+ * whose signatures don't recover to the wallet address.
+ * Returns an error message, or null if the signature checks out.
+ */
+async function checkSigner(
+  expected: string | undefined,
+  chainId: number | undefined,
+  recover: () => Promise<Address>,
+  verifyOnChain: (client: PublicClient, address: Address) => Promise<boolean>,
+): Promise<string | null> {
+  let recovered: Address | null = null;
+  try {
+    recovered = await recover();
+  } catch {
+    // Not a plain ECDSA signature; may still be valid for a contract wallet
+  }
+
+  if (!expected) {
+    return recovered ? null : "signature is malformed";
+  }
+  if (recovered && recovered.toLowerCase() === expected.toLowerCase()) {
+    return null;
+  }
+
+  const client = getClient(chainId);
+  if (client && isAddress(expected, { strict: false })) {
+    try {
+      if (await verifyOnChain(client, expected)) {
+        return null;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[mcp-wallet-signer] On-chain signature check failed: ${message}`);
+    }
+  }
+
+  return recovered ? `signed by ${recovered}, expected ${expected}` : `signature is not valid for ${expected}`;
+}
+
+/**
+ * Check that a personal_sign signature over a message was produced by the expected signer
+ */
+export function verifyMessageSigner(
+  expected: string | undefined,
+  chainId: number | undefined,
+  message: string,
+  signature: Hex,
+): Promise<string | null> {
+  return checkSigner(
+    expected,
+    chainId,
+    () => recoverMessageAddress({ message, signature }),
+    (client, address) => client.verifyMessage({ address, message, signature }),
+  );
+}
+
+function verifyMessageSignature(request: SignMessageRequest, signature: Hex): Promise<string | null> {
+  return verifyMessageSigner(request.address ?? walletSession.get().address, request.chainId, request.message, signature);
+}
+
+function verifyTypedDataSignature(request: SignTypedDataRequest, signature: Hex): Promise<string | null> {
+  const typedData = {
+    domain: request.domain,
+    types: request.types,
+    primaryType: request.primaryType,
+    message: request.message,
+  } as TypedDataDefinition<Record<string, unknown>, string>;
+  return checkSigner(
+    request.address ?? walletSession.get().address,
+    request.chainId,
+    () => recoverTypedDataAddress({ ...typedData, signature }),
+    (client, address) => client.verifyTypedData({ ...typedData, address, signature } as VerifyTypedDataActionParameters),
+  );
+}
+
+/**
+ * Poll the chain RPC until the transaction is visible, or give up after `timeoutMs`.
+ * A lagging RPC may not have indexed a freshly broadcast transaction yet, so null doesn't mean it was never sent.
+ */
+async function findTransaction(client: PublicClient, hash: Hex, timeoutMs: number): Promise<Transaction | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    try {
+      return await client.getTransaction({ hash });
+    } catch (error) {
+      if (!(error instanceof TransactionNotFoundError)) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[mcp-wallet-signer] Transaction lookup failed, retrying: ${message}`);
+      }
+    }
+    if (Date.now() >= deadline) {
+      return null;
+    }
+    await new Promise((resolve) => setTimeout(resolve, TX_LOOKUP_INTERVAL_MS));
+  }
+}
+
+/**
+ * Check that a sent transaction matches its request.
+ * Hashes the RPC hasn't seen by the deadline are added to `lookup.unseen` rather than treated as a mismatch.
+ */
+async function verifyTransaction(
+  request: Pick<SendTransactionRequest, "to" | "value" | "data" | "chainId">,
+  hash: Hex,
+  lookup: TransactionLookup,
+): Promise<string | null> {
+  const client = request.chainId ? lookup.clients.getClient(request.chainId) : null;
+  if (!client) {
+    console.error(`[mcp-wallet-signer] No RPC URL for chain ${request.chainId}; skipping transaction verification`);
+    return null;
+  }
+
+  const tx = await findTransaction(client, hash, lookup.timeoutMs);
+  if (!tx) {
+    lookup.unseen.push(hash);
+    return null;
+  }
+
+  const mismatches: string[] = [];
+  if (tx.to?.toLowerCase() !== request.to.toLowerCase()) {
+    mismatches.push(`to is ${tx.to ?? "empty"}, expected ${request.to}`);
+  }
+  const expectedValue = BigInt(request.value || "0");
+  if (tx.value !== expectedValue) {
+    mismatches.push(`value is ${tx.value} wei, expected ${expectedValue} wei`);
+  }
+  const expectedData = (request.data || "0x").toLowerCase();
+  if (tx.input.toLowerCase() !== expectedData) {
+    mismatches.push("calldata differs from the request");
+  }
+  // Legacy (pre-EIP-155) transactions carry no chain ID
+  if (tx.chainId !== undefined && tx.chainId !== request.chainId) {
+    mismatches.push(`chain ID is ${tx.chainId}, expected ${request.chainId}`);
+  }
+
+  return mismatches.length > 0 ? `transaction ${hash} does not match the request: ${mismatches.join("; ")}` : null;
+}
+
+/**
+ * Check the transactions reported for a batch.
+ * Sent one by one, each must match its request; sent atomically, the wallet decides how the calls reach the chain
+ * (often one transaction from a smart account), so the hashes only have to exist.
+ */
+async function verifyBatch(
+  request: SendTransactionsRequest,
+  batch: BatchOutcome | undefined,
+  lookup: TransactionLookup,
+): Promise<string | null> {
+  if (!batch || !Array.isArray(batch.hashes) || batch.hashes.length === 0 || !batch.hashes.every((hash) => isHash(hash))) {
+    return "missing or invalid transaction hashes";
+  }
+
+  if (!batch.callsId) {
+    if (batch.hashes.length !== request.transactions.length) {
+      return `expected ${request.transactions.length} transaction hashes, got ${batch.hashes.length}`;
+    }
+    for (const [index, tx] of request.transactions.entries()) {
+      const problem = await verifyTransaction({ ...tx, chainId: request.chainId }, batch.hashes[index] as Hex, lookup);
+      if (problem) {
+        return `transaction ${index + 1}: ${problem}`;
+      }
+    }
+    return null;
+  }
+
+  const client = request.chainId ? lookup.clients.getClient(request.chainId) : null;
+  if (!client) {
+    console.error(`[mcp-wallet-signer] No RPC URL for chain ${request.chainId}; skipping transaction verification`);
+    return null;
+  }
+  for (const hash of batch.hashes) {
+    if (!(await findTransaction(client, hash as Hex, lookup.timeoutMs))) {
+      lookup.unseen.push(hash);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a call bundle status reported by the wallet: well formed, and a confirmed bundle's transactions exist on chain
+ */
+async function verifyCallsStatus(
+  chainId: number | undefined,
+  status: CallsStatus | undefined,
+  lookup: TransactionLookup,
+): Promise<string | null> {
+  if (!status || !["pending", "confirmed", "failed"].includes(status.status) || !Array.isArray(status.receipts)) {
+    return "missing or invalid call bundle status";
+  }
+  if (!status.receipts.every((receipt) => isHash(receipt.transactionHash))) {
+    return "invalid transaction hash in call bundle receipts";
+  }
+
+  const client = chainId ? lookup.clients.getClient(chainId) : null;
+  if (status.status === "pending" || !client) {
+    return null;
+  }
+  for (const receipt of status.receipts) {
+    if (!(await findTransaction(client, receipt.transactionHash as Hex, lookup.timeoutMs))) {
+      lookup.unseen.push(receipt.transactionHash);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a result posted by the approval page against the original request.
+ * Returns the result unchanged if it checks out, or an error result describing the mismatch.
+ * Transactions the RPC hasn't indexed yet can't be checked; the result is kept, marked unverified,
+ * since the wallet may well have broadcast them.
+ */
+export async function verifyResult(
+  request: PendingRequest,
+  result: RequestResult,
+  options: VerifyOptions = {},
+): Promise<RequestResult> {
+  if (!result.success) {
+    return result;
+  }
+
+  let problem: string | null;
+  const lookup: TransactionLookup = {
+    clients: options.clients ?? rpcClients,
+    timeoutMs: options.lookupTimeoutMs ?? TX_LOOKUP_TIMEOUT_MS,
+    unseen: [],
+  };
+  try {
+    switch (request.type) {
+      case "connect":
+        problem = isAddress(result.result, { strict: false }) ? null : `wallet returned an invalid address: ${result.result}`;
+        break;
+      case "send_transaction":
+        problem = isHash(result.result)
+          ? await verifyTransaction(request, result.result, lookup)
+          : `invalid transaction hash: ${result.result}`;
+        break;
+      case "send_transactions":
+        problem = await verifyBatch(request, result.batch, lookup);
+        break;
+      case "sign_message":
+        problem = await verifyMessageSignature(request, result.result as Hex);
+        break;
+      case "sign_typed_data":
+        problem = await verifyTypedDataSignature(request, result.result as Hex);
+        break;
+      case "calls_status":
+        problem = await verifyCallsStatus(request.chainId, result.callsStatus, lookup);
+        break;
+    }
+  } catch (error) {
+    problem = error instanceof Error ? error.message : String(error);
+  }
+
+  if (problem) {
+    return { success: false, error: `Verification failed: ${problem}` };
+  }
+  const { unseen } = lookup;
+  if (unseen.length > 0) {
+    const plural = unseen.length === 1 ? "" : "s";
+    const unverified = `transaction${plural} ${unseen.join(", ")} not yet seen on chain ${request.chainId}`;
+    console.error(`[mcp-wallet-signer] Could not verify ${unverified}`);
+    return { ...result, unverified };
+  }
+  return result;
+}
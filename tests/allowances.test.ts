@@ -0,0 +1,131 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  type Address,
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  erc20Abi,
+  type Hex,
+  maxUint256,
+  numberToHex,
+  pad,
+} from "viem";
+
+import { readAllowance, scanAllowances } from "../src/allowances.ts";
+import { TEST_ACCOUNTS } from "./fixtures/test-wallet.ts";
+
+const OWNER = TEST_ACCOUNTS[0].address;
+const SPENDER = TEST_ACCOUNTS[1].address;
+const ROUTER = TEST_ACCOUNTS[2].address;
+const TOKEN: Address = "0x1111111111111111111111111111111111111111";
+const NFT: Address = "0x2222222222222222222222222222222222222222";
+
+/**
+ * ERC-20 Approval log from OWNER, as eth_getLogs returns it
+ */
+function approvalLog(token: Address, spender: Address, value: bigint, block: bigint) {
+  return {
+    address: token,
+    topics: encodeEventTopics({ abi: erc20Abi, eventName: "Approval", args: { owner: OWNER, spender } }) as Hex[],
+    data: encodeAbiParameters([{ type: "uint256" }], [value]),
+    blockNumber: numberToHex(block),
+    blockHash: pad("0x01"),
+    transactionHash: pad("0x02"),
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  };
+}
+
+/**
+ * Public client backed by a fake RPC: Approval logs, a 6-decimal token and fixed allowances per spender
+ */
+function mockClient(logs: ReturnType<typeof approvalLog>[], allowances: Record<string, bigint>) {
+  const logRanges: Array<[number, number]> = [];
+  const client = createPublicClient({
+    transport: custom({
+      request: ({ method, params }) => {
+        switch (method) {
+          case "eth_blockNumber":
+            return Promise.resolve("0x1388"); // 5000
+          case "eth_getLogs": {
+            const [{ fromBlock, toBlock }] = params as [{ fromBlock: Hex; toBlock: Hex }];
+            logRanges.push([Number(fromBlock), Number(toBlock)]);
+            return Promise.resolve(
+              logs.filter((log) => BigInt(log.blockNumber) >= BigInt(fromBlock) && BigInt(log.blockNumber) <= BigInt(toBlock)),
+            );
+          }
+          case "eth_call": {
+            const [{ to, data }] = params as [{ to: Address; data: Hex }];
+            if (to.toLowerCase() === NFT.toLowerCase()) {
+              return Promise.reject(Object.assign(new Error("execution reverted"), { code: 3 }));
+            }
+            const call = decodeFunctionData({ abi: erc20Abi, data });
+            const result = (value: unknown) =>
+              encodeFunctionResult({ abi: erc20Abi, functionName: call.functionName, result: value } as never);
+            switch (call.functionName) {
+              case "allowance":
+                return Promise.resolve(result(allowances[(call.args[1] as string).toLowerCase()] ?? 0n));
+              case "decimals":
+                return Promise.resolve(result(6));
+              case "symbol":
+                return Promise.resolve(result("TEST"));
+            }
+            return Promise.reject(new Error(`unexpected call ${call.functionName}`));
+          }
+          default:
+            return Promise.reject(new Error(`unexpected RPC method ${method}`));
+        }
+      },
+    }, { retryCount: 0 }),
+  });
+  return { client, logRanges };
+}
+
+Deno.test("Allowances - reads an allowance with token metadata", async () => {
+  const { client } = mockClient([], { [SPENDER.toLowerCase()]: 2_500_000n });
+
+  const allowance = await readAllowance(client, OWNER, TOKEN, SPENDER);
+  assertEquals(allowance.formatted, "2.5");
+  assertEquals(allowance.symbol, "TEST");
+  assertEquals(allowance.unlimited, false);
+});
+
+Deno.test("Allowances - scans Approval logs in chunks and reads current allowances", async () => {
+  const nftLog = {
+    ...approvalLog(NFT, SPENDER, 0n, 100n),
+    // ERC-721 Approval: the token ID is indexed too and there is no data
+    topics: [...approvalLog(NFT, SPENDER, 0n, 100n).topics, pad("0x07")],
+    data: "0x" as Hex,
+  };
+  const { client, logRanges } = mockClient(
+    [
+      approvalLog(TOKEN, SPENDER, 1_000_000n, 100n),
+      approvalLog(TOKEN, ROUTER, maxUint256, 2500n),
+      approvalLog(TOKEN, SPENDER, 0n, 4000n),
+      nftLog,
+    ],
+    { [ROUTER.toLowerCase()]: maxUint256 },
+  );
+
+  const scan = await scanAllowances(client, OWNER, { fromBlock: 0n });
+  assertEquals([scan.fromBlock, scan.toBlock], [0n, 5000n]);
+  assertEquals(logRanges, [[0, 1999], [2000, 3999], [4000, 5000]]);
+  assertEquals(
+    scan.allowances.map((entry) => [entry.spender, entry.raw, entry.unlimited, entry.lastApprovalBlock]),
+    [[SPENDER, 0n, false, 4000n], [ROUTER, maxUint256, true, 2500n]],
+  );
+});
+
+Deno.test("Allowances - limits the scanned block range", async () => {
+  const { client } = mockClient([], {});
+
+  const scan = await scanAllowances(client, OWNER, { toBlock: 20_000n });
+  assertEquals([scan.fromBlock, scan.toBlock], [10_001n, 20_000n]);
+
+  await assertRejects(() => scanAllowances(client, OWNER, { fromBlock: 0n, toBlock: 200_000n }), Error, "too wide");
+  await assertRejects(() => scanAllowances(client, OWNER, { fromBlock: 10n, toBlock: 5n }), Error, "after toBlock");
+});
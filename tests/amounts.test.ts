@@ -0,0 +1,52 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { parseAmount, resolveTransactionValue } from "../src/amounts.ts";
+
+Deno.test("Amounts - parses decimal amounts into base units", () => {
+  assertEquals(parseAmount("0.25", 6), 250000n);
+  assertEquals(parseAmount("1", 18), 1000000000000000000n);
+  assertEquals(parseAmount(" 12.5 ", 2), 1250n);
+});
+
+Deno.test("Amounts - rejects malformed amounts and excess precision", () => {
+  assertThrows(() => parseAmount("abc", 18), Error, "expected a decimal number");
+  assertThrows(() => parseAmount("-1", 18), Error, "expected a decimal number");
+  assertThrows(() => parseAmount("1e18", 18), Error, "expected a decimal number");
+  assertThrows(() => parseAmount("0.0000001", 6), Error, "at most 6 decimal places");
+});
+
+// Runs before anything else here reads the config, which is loaded once
+Deno.test("Amounts - parses valueEther in the native decimals of a custom chain", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${dir}/config.json`,
+      JSON.stringify({
+        chains: { "7777": { rpcUrl: "https://devnet.example.com", nativeCurrency: { symbol: "DEV", decimals: 8 } } },
+      }),
+    );
+    Deno.env.set("EVM_MCP_CONFIG", `${dir}/config.json`);
+
+    assertEquals(resolveTransactionValue({ valueEther: "1.5" }, 7777), "150000000");
+    assertThrows(() => resolveTransactionValue({ valueEther: "0.000000001" }, 7777), Error, "at most 8 decimal places");
+    assertEquals(resolveTransactionValue({ valueEther: "1.5" }, 1), "1500000000000000000");
+  } finally {
+    Deno.env.delete("EVM_MCP_CONFIG");
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Amounts - resolves transaction value alternatives to wei", () => {
+  assertEquals(resolveTransactionValue({}, 1), undefined);
+  assertEquals(resolveTransactionValue({ value: "42" }, 1), "42");
+  assertEquals(resolveTransactionValue({ valueEther: "0.5" }, 1), "500000000000000000");
+  assertEquals(resolveTransactionValue({ valueUnits: "30 gwei" }, 1), "30000000000");
+  assertEquals(resolveTransactionValue({ valueUnits: "1.5ether" }, 1), "1500000000000000000");
+  assertEquals(resolveTransactionValue({ valueUnits: "7 WEI" }, 1), "7");
+});
+
+Deno.test("Amounts - rejects conflicting or unknown value units", () => {
+  assertThrows(() => resolveTransactionValue({ value: "1", valueEther: "1" }, 1), Error, "only one of");
+  assertThrows(() => resolveTransactionValue({ valueUnits: "3 finney" }, 1), Error, "Invalid valueUnits");
+  assertThrows(() => resolveTransactionValue({ valueUnits: "0.5 wei" }, 1), Error, "at most 0 decimal places");
+});
@@ -0,0 +1,61 @@
+import { assertEquals, assertExists } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { AuditLog } from "../src/audit.ts";
+import type { PendingRequest } from "../src/types.ts";
+import { TEST_ACCOUNTS } from "./fixtures/test-wallet.ts";
+
+const SIGNER = TEST_ACCOUNTS[0].address;
+const RECIPIENT = TEST_ACCOUNTS[1].address;
+
+function transfer(id: string, createdAt: number, chainId = 1): PendingRequest {
+  return { id, type: "send_transaction", chainId, createdAt, to: RECIPIENT, value: "1000" };
+}
+
+Deno.test("AuditLog - folds lifecycle events into one record per request", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".jsonl" });
+  const log = new AuditLog(path);
+  const request = transfer("tx-1", 1_000);
+
+  log.recordCreated(request, "http://127.0.0.1:3847/sign/tx-1#secret");
+  log.recordOpened("tx-1");
+  log.recordOpened("tx-1");
+  log.recordCompleted({ request, status: "approved", result: { success: true, result: "0xabc" }, completedAt: 3_000 });
+
+  const lines = (await Deno.readTextFile(path)).trim().split("\n");
+  assertEquals(lines.length, 3);
+
+  const [record] = log.query();
+  assertExists(record);
+  assertEquals(record.status, "approved");
+  assertEquals(record.approvalUrl, "http://127.0.0.1:3847/sign/tx-1");
+  assertEquals(record.createdAt, 1_000);
+  assertExists(record.openedAt);
+  assertEquals(record.completedAt, 3_000);
+  assertEquals(record.result, { success: true, result: "0xabc" });
+});
+
+Deno.test("AuditLog - filters by type, chain, address and date", async () => {
+  const log = new AuditLog(await Deno.makeTempFile({ suffix: ".jsonl" }));
+  log.recordCreated(transfer("tx-1", Date.parse("2026-01-01")), "http://127.0.0.1:3847/sign/tx-1");
+  log.recordCreated(transfer("tx-2", Date.parse("2026-02-01"), 8453), "http://127.0.0.1:3847/sign/tx-2");
+  log.recordCreated(
+    { id: "msg-1", type: "sign_message", createdAt: Date.parse("2026-03-01"), message: "hi", address: SIGNER },
+    "http://127.0.0.1:3847/sign/msg-1",
+  );
+
+  const ids = (filters: Parameters<AuditLog["query"]>[0]) => log.query(filters).map((record) => record.request.id);
+
+  assertEquals(ids({}), ["msg-1", "tx-2", "tx-1"]);
+  assertEquals(ids({ type: "send_transaction" }), ["tx-2", "tx-1"]);
+  assertEquals(ids({ chainId: 8453 }), ["tx-2"]);
+  assertEquals(ids({ address: SIGNER.toLowerCase() }), ["msg-1"]);
+  assertEquals(ids({ address: RECIPIENT }), ["tx-2", "tx-1"]);
+  assertEquals(ids({ since: "2026-01-15", until: "2026-03-01" }), ["tx-2"]);
+  assertEquals(ids({ limit: 1 }), ["msg-1"]);
+});
+
+Deno.test("AuditLog - does nothing when disabled", () => {
+  const log = new AuditLog(null);
+  log.recordCreated(transfer("tx-1", 1_000), "http://127.0.0.1:3847/sign/tx-1");
+  assertEquals(log.query(), []);
+});
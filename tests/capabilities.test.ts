@@ -0,0 +1,40 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { describeCapabilities, hasCapability } from "../src/capabilities.ts";
+
+Deno.test("Capabilities - reads 1.0 and 2.0.0 capability shapes", () => {
+  const capabilities = {
+    "0x1": { atomicBatch: { supported: true } },
+    "0x2105": { atomic: { status: "ready" }, paymasterService: { supported: true } },
+    "0xa": { atomic: { status: "unsupported" } },
+  };
+
+  assertEquals(hasCapability(capabilities, 1, "atomic"), true);
+  assertEquals(hasCapability(capabilities, 1, "paymasterService"), false);
+  assertEquals(hasCapability(capabilities, 8453, "atomic"), true);
+  assertEquals(hasCapability(capabilities, 8453, "paymasterService"), true);
+  assertEquals(hasCapability(capabilities, 10, "atomic"), false);
+  assertEquals(hasCapability(capabilities, 137, "atomic"), false);
+});
+
+Deno.test("Capabilities - applies all-chain capabilities to every chain", () => {
+  const capabilities = { "0x0": { auxiliaryFunds: { supported: true } }, "0x1": { atomic: { status: "supported" } } };
+
+  assertEquals(hasCapability(capabilities, 1, "auxiliaryFunds"), true);
+  assertEquals(hasCapability(capabilities, 137, "auxiliaryFunds"), true);
+  assertEquals(hasCapability(capabilities, 137, "atomic"), false);
+});
+
+Deno.test("Capabilities - describes supported capabilities per chain", () => {
+  assertEquals(
+    describeCapabilities({
+      "0x0": { auxiliaryFunds: { supported: true } },
+      "0x2105": { atomic: { status: "supported" }, paymasterService: { supported: true }, flowControl: { supported: true } },
+      "0xa": { atomic: { status: "unsupported" } },
+    }),
+    [
+      "All chains: auxiliary funds",
+      "Chain 8453: atomic batching, gas sponsorship (paymaster service), flowControl",
+    ],
+  );
+});
@@ -0,0 +1,123 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { buildChains, CHAINS, getRequestTimeoutMs, readConfigFile, readEnvOverrides } from "../src/config.ts";
+import { ConfigFileSchema } from "../src/types.ts";
+
+Deno.test("Config - built-in chains are unchanged without overrides", () => {
+  assertEquals(buildChains(undefined, {}), CHAINS);
+});
+
+Deno.test("Config - config file replaces RPC URLs and adds chains", () => {
+  const chains = buildChains(
+    {
+      chains: {
+        "1": { rpcUrl: "https://eth-mainnet.example.com/v2/secret-key" },
+        "7777": {
+          name: "Devnet",
+          rpcUrl: "https://devnet.example.com",
+          blockExplorer: "https://scan.devnet.example.com",
+          nativeCurrency: { symbol: "DEV" },
+        },
+      },
+    },
+    {},
+  );
+
+  assertEquals(chains[1].rpcUrl, "https://eth-mainnet.example.com/v2/secret-key");
+  assertEquals(chains[1].name, CHAINS[1].name);
+  assertEquals(chains[1].blockExplorer, CHAINS[1].blockExplorer);
+  assertEquals(chains[7777], {
+    id: 7777,
+    name: "Devnet",
+    rpcUrl: "https://devnet.example.com",
+    fallbackRpcUrls: undefined,
+    walletRpcUrl: undefined,
+    nativeCurrency: { name: "DEV", symbol: "DEV", decimals: 18 },
+    blockExplorer: "https://scan.devnet.example.com",
+  });
+});
+
+Deno.test("Config - environment overrides take precedence over the config file", () => {
+  const env = readEnvOverrides({
+    EVM_MCP_RPC_8453: "https://base.example.com",
+    EVM_MCP_EXPLORER_8453: "https://explorer.base.example.com",
+    EVM_MCP_RPC_31337: "http://127.0.0.1:8545",
+    EVM_MCP_NATIVE_SYMBOL_31337: "TEST",
+    UNRELATED: "ignored",
+  });
+  const chains = buildChains({ chains: { "8453": { rpcUrl: "https://file.example.com" } } }, env);
+
+  assertEquals(chains[8453].rpcUrl, "https://base.example.com");
+  assertEquals(chains[8453].blockExplorer, "https://explorer.base.example.com");
+  assertEquals(chains[31337].name, "Chain 31337");
+  assertEquals(chains[31337].nativeCurrency, { name: "TEST", symbol: "TEST", decimals: 18 });
+});
+
+Deno.test("Config - overriding the RPC URL drops the built-in fallbacks", () => {
+  const env = readEnvOverrides({ EVM_MCP_RPC_8453: "https://base.example.com" });
+  const chains = buildChains(
+    {
+      chains: {
+        "1": { rpcUrl: "https://eth.example.com" },
+        "10": { rpcUrl: "https://op.example.com", fallbackRpcUrls: ["https://op-backup.example.com"] },
+        "137": { name: "Polygon PoS" },
+      },
+    },
+    env,
+  );
+
+  assertEquals(chains[1].fallbackRpcUrls, undefined);
+  assertEquals(chains[8453].fallbackRpcUrls, undefined);
+  assertEquals(chains[10].fallbackRpcUrls, ["https://op-backup.example.com"]);
+  assertEquals(chains[137].fallbackRpcUrls, CHAINS[137].fallbackRpcUrls);
+});
+
+Deno.test("Config - comma-separated RPC variables set fallback URLs", () => {
+  const env = readEnvOverrides({ EVM_MCP_RPC_10: "https://a.example.com, https://b.example.com,https://c.example.com" });
+  const chains = buildChains(undefined, env);
+
+  assertEquals(chains[10].rpcUrl, "https://a.example.com");
+  assertEquals(chains[10].fallbackRpcUrls, ["https://b.example.com", "https://c.example.com"]);
+});
+
+Deno.test("Config - new chains require an RPC URL", () => {
+  assertThrows(() => buildChains({ chains: { "999999": { name: "Nowhere" } } }, {}), Error, "needs an rpcUrl");
+});
+
+Deno.test("Config - rejects invalid overrides", () => {
+  assertThrows(() => readEnvOverrides({ EVM_MCP_RPC_1: "not a url" }), Error, "chain 1");
+  assertEquals(ConfigFileSchema.safeParse({ chains: { mainnet: { rpcUrl: "https://x.example.com" } } }).success, false);
+  assertEquals(
+    ConfigFileSchema.safeParse({ chains: { "1": { nativeCurrency: { symbol: "ETH", decimals: 99 } } } }).success,
+    false,
+  );
+});
+
+Deno.test("Config - missing config file is only an error when named explicitly", () => {
+  const path = "/nonexistent/mcp-wallet-signer/config.json";
+  assertEquals(readConfigFile(path), undefined);
+  assertThrows(() => readConfigFile(path, true), Error, "Config file not found");
+});
+
+Deno.test("Config - request timeout comes from the environment within bounds", () => {
+  const previous = Deno.env.get("EVM_MCP_REQUEST_TIMEOUT");
+  try {
+    Deno.env.set("EVM_MCP_REQUEST_TIMEOUT", "900");
+    assertEquals(getRequestTimeoutMs(), 900_000);
+
+    Deno.env.set("EVM_MCP_REQUEST_TIMEOUT", "5");
+    assertEquals(getRequestTimeoutMs(), 300_000);
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete("EVM_MCP_REQUEST_TIMEOUT");
+    } else {
+      Deno.env.set("EVM_MCP_REQUEST_TIMEOUT", previous);
+    }
+  }
+});
+
+Deno.test("Config - rejects request timeouts outside the allowed range", () => {
+  assertEquals(ConfigFileSchema.safeParse({ requestTimeoutSeconds: 600 }).success, true);
+  assertEquals(ConfigFileSchema.safeParse({ requestTimeoutSeconds: 10 }).success, false);
+  assertEquals(ConfigFileSchema.safeParse({ requestTimeoutSeconds: 7200 }).success, false);
+});
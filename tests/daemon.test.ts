@@ -0,0 +1,186 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { buildConnectUrl, buildSignUrl } from "../src/browser.ts";
+import { DaemonClient } from "../src/daemon.ts";
+import { requestEvents } from "../src/events.ts";
+import { getDaemonToken, startTestServer } from "../src/http-server.ts";
+import { PendingStore, pendingStore } from "../src/pending-store.ts";
+import { walletSession } from "../src/session.ts";
+import type { DaemonRegisterApiRequest, SignMessageRequest } from "../src/types.ts";
+
+const ADDRESS = "0x1234567890123456789012345678901234567890";
+
+/**
+ * Run `fn` against a test server acting as the host, with a second store forwarding to it.
+ * A subscribed stream stands in for an open approval tab, so the host doesn't launch a browser.
+ */
+async function withHost(fn: (port: number, client: DaemonClient, forwarding: PendingStore) => Promise<void>) {
+  const { port, stop } = await startTestServer();
+  const unsubscribe = requestEvents.subscribe({ write: () => {} });
+  const client = new DaemonClient(port, getDaemonToken());
+  const forwarding = new PendingStore(null);
+  forwarding.useDaemon(client);
+  try {
+    await fn(port, client, forwarding);
+  } finally {
+    unsubscribe();
+    await stop();
+  }
+}
+
+Deno.test({
+  name: "Daemon - only processes with the daemon token may share the server",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await withHost(async (port, client) => {
+      assertEquals(await client.isAlive(), true);
+      assertEquals(await new DaemonClient(port, "0".repeat(64)).isAlive(), false);
+    });
+  },
+});
+
+Deno.test({
+  name: "Daemon - forwards requests to the host and reports their outcome",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await withHost(async (port, _client, forwarding) => {
+      forwarding.setClientName("second-agent");
+      const { id, secret, promise } = forwarding.createSignMessageRequest({ message: "shared", chainId: 1 });
+      await forwarding.forward(id, buildSignUrl(port, id, secret));
+
+      assertEquals(pendingStore.get(id)?.client, "second-agent");
+      assertEquals(pendingStore.verifySecret(id, secret), true);
+
+      // Stages the approval page reports to the host reach the process waiting on the request
+      pendingStore.setStage(id, "wallet_connected");
+      for (let attempt = 0; attempt < 30 && forwarding.getRecord(id)?.stage !== "wallet_connected"; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      assertEquals(forwarding.getRecord(id)?.stage, "wallet_connected");
+
+      pendingStore.complete(id, { success: true, result: "0xSig" });
+      assertEquals(await promise, { success: true, result: "0xSig" });
+      assertEquals(forwarding.getRecord(id)?.status, "approved");
+    });
+  },
+});
+
+Deno.test({
+  name: "Daemon - records a wallet connected through the host in the forwarding process's session",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await withHost(async (port, _client, forwarding) => {
+      const { id, secret, promise } = forwarding.createConnectRequest(8453);
+      await forwarding.forward(id, buildConnectUrl(port, id, secret));
+
+      walletSession.clear();
+      const capabilities = { "0x2105": { atomic: { status: "supported" } } };
+      // Completing at the host directly leaves the session alone, so only the forwarded outcome can set it
+      pendingStore.complete(id, { success: true, result: ADDRESS, capabilities });
+      await promise;
+
+      const session = walletSession.get();
+      assertEquals([session.address, session.chainId, session.capabilities], [ADDRESS, 8453, capabilities]);
+      walletSession.clear();
+    });
+  },
+});
+
+Deno.test({
+  name: "Daemon - cancelling a forwarded request withdraws it at the host",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await withHost(async (port, client, forwarding) => {
+      const { id, secret, promise } = forwarding.createConnectRequest(1);
+      await forwarding.forward(id, buildSignUrl(port, id, secret));
+
+      forwarding.cancel(id, "Request cancelled by agent");
+      await assertRejects(() => promise, Error, "cancelled by agent");
+
+      for (let attempt = 0; attempt < 20 && pendingStore.has(id); attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      const record = await client.getRecord(id);
+      assertEquals(record?.status, "cancelled");
+      assertEquals(record?.error, "Request cancelled by agent");
+    });
+  },
+});
+
+Deno.test({
+  name: "Daemon - rejects malformed registrations",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await withHost(async (port, client) => {
+      const request: SignMessageRequest = {
+        id: crypto.randomUUID(),
+        type: "sign_message",
+        createdAt: Date.now(),
+        message: "hi",
+      };
+      const registration: DaemonRegisterApiRequest = {
+        request,
+        secret: "f".repeat(64),
+        expiresAt: Date.now() + 60_000,
+        approvalUrl: `http://127.0.0.1:${port}/sign/${request.id}`,
+      };
+
+      await assertRejects(() => client.register({ ...registration, secret: "short" }), Error, "Invalid");
+      await assertRejects(
+        () => client.register({ ...registration, approvalUrl: "https://example.com/sign" }),
+        Error,
+        "Invalid",
+      );
+
+      await client.register(registration);
+      await assertRejects(() => client.register(registration), Error, "already exists");
+      pendingStore.cancel(request.id);
+    });
+  },
+});
+
+Deno.test({
+  name: "Daemon - times out forwarded requests here after taking over from the host",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+    const forwarding = new PendingStore(null);
+    forwarding.useDaemon(new DaemonClient(port, getDaemonToken()));
+    const { id, secret, promise } = forwarding.createConnectRequest(1, 300);
+    await forwarding.forward(id, buildConnectUrl(port, id, secret));
+    pendingStore.cancel(id);
+    await stop();
+
+    // What ensureServerRunning does once the host has gone
+    forwarding.useDaemon(null);
+    const error = await assertRejects(() => promise);
+    assertStringIncludes((error as Error).message, "timed out");
+    assertEquals(forwarding.getRecord(id)?.status, "expired");
+    assertEquals(forwarding.verifySecret(id, secret), true);
+  },
+});
+
+Deno.test({
+  name: "Daemon - cancels requests the host can't take",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+    await stop();
+
+    const forwarding = new PendingStore(null);
+    forwarding.useDaemon(new DaemonClient(port, getDaemonToken()));
+    const { id, secret, promise } = forwarding.createConnectRequest(1);
+    await forwarding.forward(id, buildSignUrl(port, id, secret));
+
+    const error = await assertRejects(() => promise);
+    assertStringIncludes((error as Error).message, "Could not reach the approval server");
+    assertEquals(forwarding.getRecord(id)?.status, "cancelled");
+  },
+});
@@ -3,21 +3,49 @@
  *
  * Generates a script that creates a mock wallet in the browser,
  * announcing it via EIP-6963 events and setting window.ethereum as fallback.
- * The mock returns fake signatures/hashes since we're testing UI flow.
+ * Transaction hashes are fake since we're testing UI flow, but signatures are real
+ * (produced by signWithTestKey, exposed to the page) because the server verifies them.
  */
 
+import { privateKeyToAccount } from "viem/accounts";
+
 // Test account (Anvil default account #0)
 export const TEST_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
 export const TEST_ADDRESS = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
 export const TEST_CHAIN_ID = 1;
 
+// Local chain with no server-side RPC configured, so fake transaction hashes aren't looked up on-chain
+export const TEST_LOCAL_CHAIN_ID = 31337;
+
+// Name of the page-side binding used by the mock to request real signatures
+export const SIGN_BINDING = "__mockWalletSign";
+
 // EIP-6963 identity
 export const TEST_WALLET_NAME = "MockWallet";
 export const TEST_WALLET_RDNS = "test.mockwallet";
 
+/**
+ * Sign a personal_sign / eth_signTypedData_v4 payload with the test key.
+ * Exposed to the page via BrowserContext.exposeFunction(SIGN_BINDING, ...).
+ */
+export function signWithTestKey(method: string, params: unknown[]): Promise<string> {
+  const account = privateKeyToAccount(TEST_PRIVATE_KEY);
+  if (method === "personal_sign") {
+    const message = params[0] as `0x${string}`;
+    return account.signMessage({ message: { raw: message } });
+  }
+  const typedData = JSON.parse(params[1] as string);
+  delete typedData.types.EIP712Domain;
+  return account.signTypedData(typedData);
+}
+
 export interface MockWalletOptions {
   name?: string;
   rdns?: string;
+  // Report EIP-5792 atomic batch support and handle wallet_sendCalls
+  atomicBatch?: boolean;
+  // Hashes whose receipts report a revert
+  revertedHashes?: string[];
 }
 
 /**
@@ -34,13 +62,19 @@ export function getMockProviderScript(
 ): string {
   const name = options?.name ?? TEST_WALLET_NAME;
   const rdns = options?.rdns ?? TEST_WALLET_RDNS;
+  const atomicBatch = options?.atomicBatch ?? false;
+  const revertedHashes = JSON.stringify(options?.revertedHashes ?? []);
 
   return `
 (function() {
   const TEST_ADDRESS = "${address}";
-  const TEST_CHAIN_ID = ${chainId};
+  let currentChainId = ${chainId};
   const WALLET_NAME = "${name}";
   const WALLET_RDNS = "${rdns}";
+  const ATOMIC_BATCH = ${atomicBatch};
+  const REVERTED_HASHES = ${revertedHashes};
+  let sentCount = 0;
+  const bundles = {};
 
   function toHex(num) {
     return "0x" + num.toString(16);
@@ -69,12 +103,13 @@ export function getMockProviderScript(
       return [TEST_ADDRESS];
     },
     eth_chainId: async () => {
-      const hex = toHex(TEST_CHAIN_ID);
+      const hex = toHex(currentChainId);
       console.log("[MockWallet] eth_chainId -> " + hex);
       return hex;
     },
     wallet_switchEthereumChain: async (params) => {
       console.log("[MockWallet] wallet_switchEthereumChain:", params);
+      currentChainId = parseInt(params[0].chainId, 16);
       return null;
     },
     wallet_addEthereumChain: async (params) => {
@@ -84,31 +119,62 @@ export function getMockProviderScript(
     eth_sendTransaction: async (params) => {
       const tx = params[0];
       console.log("[MockWallet] eth_sendTransaction:", tx);
-      const hash = fakeHash("ab");
+      // First hash is 0xabab..., later ones differ so batches get distinct hashes
+      const hash = sentCount === 0 ? fakeHash("ab") : "0x" + sentCount.toString(16).padStart(64, "0");
+      sentCount++;
       return hash;
     },
+    eth_getTransactionReceipt: async (params) => {
+      const failed = REVERTED_HASHES.includes(params[0]);
+      console.log("[MockWallet] eth_getTransactionReceipt:", params[0], failed ? "reverted" : "success");
+      return { transactionHash: params[0], status: failed ? "0x0" : "0x1" };
+    },
+    wallet_getCapabilities: async () => {
+      if (!ATOMIC_BATCH) throw new Error("Method not supported: wallet_getCapabilities");
+      return {
+        [toHex(currentChainId)]: { atomicBatch: { supported: true } },
+        [toHex(${TEST_LOCAL_CHAIN_ID})]: { atomicBatch: { supported: true }, paymasterService: { supported: true } },
+      };
+    },
+    wallet_sendCalls: async (params) => {
+      if (!ATOMIC_BATCH) throw new Error("Method not supported: wallet_sendCalls");
+      console.log("[MockWallet] wallet_sendCalls:", params[0]);
+      const id = "bundle-" + Object.keys(bundles).length;
+      bundles[id] = params[0].calls.map((_, index) => fakeHash((0xc0 + index).toString(16)));
+      return id;
+    },
+    wallet_getCallsStatus: async (params) => {
+      // Bundles sent from an earlier page are gone after navigating; report those as one mined transaction
+      const hashes = bundles[params[0]] || [fakeHash("c0")];
+      return {
+        status: "CONFIRMED",
+        receipts: hashes.map((hash) => ({ transactionHash: hash, status: "0x1" })),
+      };
+    },
     personal_sign: async (params) => {
       console.log("[MockWallet] personal_sign:", params);
+      if (window.${SIGN_BINDING}) return window.${SIGN_BINDING}("personal_sign", params);
       const sig = fakeSignature("cd");
       return sig;
     },
     eth_signTypedData_v4: async (params) => {
       console.log("[MockWallet] eth_signTypedData_v4:", params);
+      if (window.${SIGN_BINDING}) return window.${SIGN_BINDING}("eth_signTypedData_v4", params);
       const sig = fakeSignature("ef");
       return sig;
     },
     eth_getBalance: async () => "0x8AC7230489E80000",
     eth_estimateGas: async () => "0x5208",
     eth_gasPrice: async () => "0x3B9ACA00",
-    net_version: async () => String(TEST_CHAIN_ID),
+    net_version: async () => String(currentChainId),
   };
 
   // Build the EIP-1193 provider object
   const provider = {
     _isMockProvider: true,
     selectedAddress: TEST_ADDRESS,
-    chainId: toHex(TEST_CHAIN_ID),
-    networkVersion: String(TEST_CHAIN_ID),
+    chainId: toHex(${chainId}),
+    networkVersion: String(${chainId}),
 
     request: async ({ method, params }) => {
       console.log("[MockWallet] request:", method);
@@ -3,13 +3,13 @@
  * Starts the HTTP server in-process on a random port.
  */
 
-import { startTestServer } from "../../../src/http-server.ts";
+import { getDashboardToken, startTestServer } from "../../../src/http-server.ts";
 import { pendingStore } from "../../../src/pending-store.ts";
 
 let baseUrl = "";
 let stopFn: (() => Promise<void>) | null = null;
 
-export { pendingStore };
+export { getDashboardToken, pendingStore };
 
 export function getBaseUrl(): string {
   return baseUrl;
@@ -42,7 +42,7 @@ export async function stopServer(): Promise<void> {
 export async function createTestRequest(
   type: "connect" | "send_transaction" | "sign_message" | "sign_typed_data",
   data: Record<string, unknown> = {},
-): Promise<{ id: string }> {
+): Promise<{ id: string; secret: string }> {
   const res = await fetch(`${baseUrl}/api/test/create-request`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -62,7 +62,17 @@ export async function createTestRequest(
  */
 export async function getTestResult(
   id: string,
-): Promise<{ success: boolean; result?: string; error?: string; pending?: boolean } | null> {
+): Promise<
+  {
+    success: boolean;
+    result?: string;
+    error?: string;
+    pending?: boolean;
+    batch?: { hashes: string[]; callsId?: string; failedIndex?: number };
+    capabilities?: Record<string, Record<string, unknown>>;
+    callsStatus?: { status: string; receipts: Array<{ transactionHash: string; status: string }> };
+  } | null
+> {
   const res = await fetch(`${baseUrl}/api/test/result/${id}`);
 
   if (res.status === 404) return null;
@@ -6,8 +6,24 @@
  */
 
 import { type BrowserContext, expect, test } from "@playwright/test";
-import { createTestRequest, getBaseUrl, getTestResult, startServer, stopServer } from "./fixtures/test-server.mts";
-import { getMockProviderScript, TEST_ADDRESS, TEST_CHAIN_ID, TEST_WALLET_NAME } from "./fixtures/mock-wallet.mts";
+import {
+  createTestRequest,
+  getBaseUrl,
+  getDashboardToken,
+  getTestResult,
+  pendingStore,
+  startServer,
+  stopServer,
+} from "./fixtures/test-server.mts";
+import {
+  getMockProviderScript,
+  SIGN_BINDING,
+  signWithTestKey,
+  TEST_ADDRESS,
+  TEST_CHAIN_ID,
+  TEST_LOCAL_CHAIN_ID,
+  TEST_WALLET_NAME,
+} from "./fixtures/mock-wallet.mts";
 
 test.beforeAll(async () => {
   await startServer();
@@ -21,6 +37,7 @@ async function walletContext(
   browser: import("@playwright/test").Browser,
 ): Promise<BrowserContext> {
   const ctx = await browser.newContext();
+  await ctx.exposeFunction(SIGN_BINDING, signWithTestKey);
   await ctx.addInitScript(getMockProviderScript(TEST_ADDRESS, TEST_CHAIN_ID));
   return ctx;
 }
@@ -32,8 +49,8 @@ test.describe("Wallet Connection", () => {
     const ctx = await walletContext(browser);
     const page = await ctx.newPage();
 
-    const { id } = await createTestRequest("connect", { chainId: TEST_CHAIN_ID });
-    await page.goto(`${getBaseUrl()}/connect/${id}`);
+    const { id, secret } = await createTestRequest("connect", { chainId: TEST_CHAIN_ID });
+    await page.goto(`${getBaseUrl()}/connect/${id}#${secret}`);
 
     await expect(page.getByRole("heading", { name: "Connect Wallet" })).toBeVisible();
     await expect(page.getByText(TEST_WALLET_NAME)).toBeVisible();
@@ -50,6 +67,23 @@ test.describe("Wallet Connection", () => {
     await ctx.close();
   });
 
+  test("reports EIP-5792 capabilities of the connected wallet", async ({ browser }) => {
+    const ctx = await browser.newContext();
+    await ctx.addInitScript(getMockProviderScript(TEST_ADDRESS, TEST_CHAIN_ID, { atomicBatch: true }));
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("connect", { chainId: TEST_CHAIN_ID });
+    await page.goto(`${getBaseUrl()}/connect/${id}#${secret}`);
+    await page.getByRole("button", { name: "Connect" }).click();
+    await expect(page.getByText("Connected!")).toBeVisible({ timeout: 10000 });
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(true);
+    expect(result?.capabilities?.["0x1"]).toEqual({ atomicBatch: { supported: true } });
+
+    await ctx.close();
+  });
+
   test("shows not-found for expired request", async ({ browser }) => {
     const ctx = await walletContext(browser);
     const page = await ctx.newPage();
@@ -64,8 +98,8 @@ test.describe("Wallet Connection", () => {
     const ctx = await browser.newContext(); // no mock wallet
     const page = await ctx.newPage();
 
-    const { id } = await createTestRequest("connect", { chainId: TEST_CHAIN_ID });
-    await page.goto(`${getBaseUrl()}/connect/${id}`);
+    const { id, secret } = await createTestRequest("connect", { chainId: TEST_CHAIN_ID });
+    await page.goto(`${getBaseUrl()}/connect/${id}#${secret}`);
 
     await expect(page.getByRole("heading", { name: "Connect Wallet" })).toBeVisible();
     await expect(page.getByText("No wallet detected")).toBeVisible();
@@ -74,6 +108,32 @@ test.describe("Wallet Connection", () => {
   });
 });
 
+// --- Request Timeout ---
+
+test.describe("Request Timeout", () => {
+  test("counts down and extends the deadline on request", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("sign_message", {
+      message: "Take your time",
+      chainId: TEST_CHAIN_ID,
+      timeoutSeconds: 60,
+    });
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+
+    await expect(page.getByTestId("request-countdown")).toHaveText(/^[01]:\d\d$/);
+    const expiresAt = pendingStore.getExpiresAt(id)!;
+
+    await page.getByRole("button", { name: "I need more time" }).click();
+    await expect(page.getByTestId("request-countdown")).toHaveText(/^[56]:\d\d$/);
+    expect(pendingStore.getExpiresAt(id)).toBe(expiresAt + 5 * 60 * 1000);
+
+    await page.getByRole("button", { name: "Reject" }).click();
+    await ctx.close();
+  });
+});
+
 // --- Transaction Signing ---
 
 test.describe("Transaction Signing", () => {
@@ -81,13 +141,13 @@ test.describe("Transaction Signing", () => {
     const ctx = await walletContext(browser);
     const page = await ctx.newPage();
 
-    const { id } = await createTestRequest("send_transaction", {
+    const { id, secret } = await createTestRequest("send_transaction", {
       to: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
       value: "1000000000000000000",
-      chainId: TEST_CHAIN_ID,
+      chainId: TEST_LOCAL_CHAIN_ID,
     });
 
-    await page.goto(`${getBaseUrl()}/sign/${id}`);
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
     await expect(page.getByRole("heading", { name: "Send Transaction" })).toBeVisible();
     await expect(
       page.getByText("0x70997970C51812dc3A010C7d01b50e0d17dc79C8", { exact: false }),
@@ -103,17 +163,91 @@ test.describe("Transaction Signing", () => {
     await ctx.close();
   });
 
+  test("decodes ERC-20 transfer calldata", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    // transfer(0x7099...79C8, 250000)
+    const { id, secret } = await createTestRequest("send_transaction", {
+      to: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      data:
+        "0xa9059cbb00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8000000000000000000000000000000000000000000000000000000000003d090",
+      chainId: TEST_LOCAL_CHAIN_ID,
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByText("Known function")).toBeVisible();
+    await expect(page.getByText("transfer", { exact: true })).toBeVisible();
+    await expect(page.getByText("250,000")).toBeVisible();
+
+    await page.getByRole("button", { name: "Reject" }).click();
+    await ctx.close();
+  });
+
+  test("confirms a revoke as setting an allowance to zero", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    const spender = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+    const { id, secret } = await createTestRequest("send_transaction", {
+      to: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      data:
+        "0x095ea7b300000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c80000000000000000000000000000000000000000000000000000000000000000",
+      chainId: TEST_LOCAL_CHAIN_ID,
+      intent: {
+        kind: "revoke",
+        token: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+        symbol: "USDC",
+        decimals: 6,
+        spender,
+        currentAllowance: "unlimited",
+      },
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByRole("heading", { name: "Revoke Approval" })).toBeVisible();
+    await expect(page.getByTestId("revoke-summary")).toContainText("Stop 0x7099...79C8 spending your USDC");
+    await expect(page.getByTestId("revoke-summary")).toContainText("Current allowance: unlimited");
+
+    await page.getByRole("button", { name: "Sign & Send" }).click();
+    await expect(page.getByText("Revoke Sent!")).toBeVisible({ timeout: 10000 });
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(true);
+
+    await ctx.close();
+  });
+
+  test("shows policy warnings near a spending limit", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("send_transaction", {
+      to: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+      value: "900000000000000000",
+      chainId: TEST_LOCAL_CHAIN_ID,
+      policyWarnings: ["0.9 ETH is close to the per-transaction limit of 1 ETH"],
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByText("Near a spending limit")).toBeVisible();
+    await expect(page.getByText("0.9 ETH is close to the per-transaction limit of 1 ETH")).toBeVisible();
+
+    await page.getByRole("button", { name: "Reject" }).click();
+    await ctx.close();
+  });
+
   test("rejects transaction", async ({ browser }) => {
     const ctx = await walletContext(browser);
     const page = await ctx.newPage();
 
-    const { id } = await createTestRequest("send_transaction", {
+    const { id, secret } = await createTestRequest("send_transaction", {
       to: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
       value: "1000000000000000000",
-      chainId: TEST_CHAIN_ID,
+      chainId: TEST_LOCAL_CHAIN_ID,
     });
 
-    await page.goto(`${getBaseUrl()}/sign/${id}`);
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
     await expect(page.getByRole("heading", { name: "Send Transaction" })).toBeVisible();
 
     await page.getByRole("button", { name: "Reject" }).click();
@@ -127,6 +261,137 @@ test.describe("Transaction Signing", () => {
   });
 });
 
+// --- Batch Transactions ---
+
+test.describe("Batch Transactions", () => {
+  const BATCH = [
+    {
+      to: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      data:
+        "0xa9059cbb00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8000000000000000000000000000000000000000000000000000000000003d090",
+    },
+    { to: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8", value: "1000000000000000000" },
+  ];
+
+  test("reviews a batch and sends it one transaction at a time", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("send_transactions", {
+      transactions: BATCH,
+      chainId: TEST_LOCAL_CHAIN_ID,
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByRole("heading", { name: "Send 2 Transactions" })).toBeVisible();
+    await expect(page.getByTestId("batch-transaction")).toHaveCount(2);
+    await expect(page.getByText("transfer", { exact: true })).toBeVisible();
+
+    await page.getByRole("button", { name: "Sign & Send All" }).click();
+    await expect(page.getByText("All Transactions Sent!")).toBeVisible({ timeout: 15000 });
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(true);
+    expect(result?.batch?.hashes).toHaveLength(2);
+    expect(result?.batch?.callsId).toBeUndefined();
+
+    await ctx.close();
+  });
+
+  test("reports where a sequential batch failed", async ({ browser }) => {
+    const ctx = await browser.newContext();
+    // The second transaction sent gets hash 0x...01
+    await ctx.addInitScript(
+      getMockProviderScript(TEST_ADDRESS, TEST_CHAIN_ID, { revertedHashes: ["0x" + "1".padStart(64, "0")] }),
+    );
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("send_transactions", {
+      transactions: [...BATCH, BATCH[1]],
+      chainId: TEST_LOCAL_CHAIN_ID,
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await page.getByRole("button", { name: "Sign & Send All" }).click();
+    await expect(page.getByText("Transaction 2 reverted")).toBeVisible({ timeout: 15000 });
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(false);
+    expect(result?.batch?.hashes).toHaveLength(2);
+    expect(result?.batch?.failedIndex).toBe(1);
+
+    await ctx.close();
+  });
+
+  test("sends a batch atomically when the wallet supports wallet_sendCalls", async ({ browser }) => {
+    const ctx = await browser.newContext();
+    await ctx.addInitScript(getMockProviderScript(TEST_ADDRESS, TEST_CHAIN_ID, { atomicBatch: true }));
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("send_transactions", {
+      transactions: BATCH,
+      chainId: TEST_LOCAL_CHAIN_ID,
+      atomic: true,
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await page.getByRole("button", { name: "Sign & Send All" }).click();
+    await expect(page.getByText("Batch Sent!")).toBeVisible({ timeout: 15000 });
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(true);
+    expect(result?.batch?.callsId).toBe("bundle-0");
+    expect(result?.batch?.hashes).toHaveLength(2);
+
+    await ctx.close();
+  });
+
+  test("sponsors gas through a paymaster", async ({ browser }) => {
+    const ctx = await browser.newContext();
+    await ctx.addInitScript(getMockProviderScript(TEST_ADDRESS, TEST_CHAIN_ID, { atomicBatch: true }));
+    const page = await ctx.newPage();
+    const sent = page.waitForEvent("console", (message) => message.text().includes("wallet_sendCalls:"));
+
+    const { id, secret } = await createTestRequest("send_transactions", {
+      transactions: BATCH,
+      chainId: TEST_LOCAL_CHAIN_ID,
+      paymasterUrl: "https://paymaster.example.com/rpc",
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByText("paymaster.example.com")).toBeVisible();
+    await page.getByRole("button", { name: "Sign & Send All" }).click();
+    await expect(page.getByText("Batch Sent!")).toBeVisible({ timeout: 15000 });
+
+    const params = await (await sent).args()[1].jsonValue();
+    expect(params.capabilities).toEqual({ paymasterService: { url: "https://paymaster.example.com/rpc" } });
+
+    await ctx.close();
+  });
+
+  test("looks up a call bundle's status without approval", async ({ browser }) => {
+    const ctx = await browser.newContext();
+    await ctx.addInitScript(getMockProviderScript(TEST_ADDRESS, TEST_CHAIN_ID, { atomicBatch: true }));
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("calls_status", {
+      callsId: "bundle-7",
+      chainId: TEST_LOCAL_CHAIN_ID,
+      wait: true,
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByText("Status: confirmed")).toBeVisible({ timeout: 15000 });
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(true);
+    expect(result?.callsStatus?.status).toBe("confirmed");
+    expect(result?.callsStatus?.receipts).toHaveLength(1);
+
+    await ctx.close();
+  });
+});
+
 // --- Message Signing ---
 
 test.describe("Message Signing", () => {
@@ -134,12 +399,12 @@ test.describe("Message Signing", () => {
     const ctx = await walletContext(browser);
     const page = await ctx.newPage();
 
-    const { id } = await createTestRequest("sign_message", {
+    const { id, secret } = await createTestRequest("sign_message", {
       message: "Hello, Ethereum!",
       chainId: TEST_CHAIN_ID,
     });
 
-    await page.goto(`${getBaseUrl()}/sign/${id}`);
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
     await expect(page.getByRole("heading", { name: "Sign Message" })).toBeVisible();
     await expect(page.getByText("Hello, Ethereum!")).toBeVisible();
 
@@ -153,11 +418,98 @@ test.describe("Message Signing", () => {
     await ctx.close();
   });
 
+  test("shows the domain of a Sign-In With Ethereum request", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    const message = [
+      "app.example.com wants you to sign in with your Ethereum account:",
+      TEST_ADDRESS,
+      "",
+      "URI: http://evil.example.net/login",
+      "Version: 1",
+      "Chain ID: 1",
+      "Nonce: abcdef1234",
+      "Issued At: 2026-03-01T12:00:00.000Z",
+    ].join("\n");
+    const { id, secret } = await createTestRequest("sign_message", {
+      message,
+      address: TEST_ADDRESS,
+      chainId: TEST_CHAIN_ID,
+      siwe: {
+        domain: "app.example.com",
+        uri: "http://evil.example.net/login",
+        nonce: "abcdef1234",
+        issuedAt: "2026-03-01T12:00:00.000Z",
+        warnings: ["The URI http://evil.example.net/login is on evil.example.net, not app.example.com"],
+      },
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByRole("heading", { name: "Sign In" })).toBeVisible();
+    await expect(page.getByTestId("siwe-domain")).toHaveText("app.example.com");
+    await expect(page.getByText("Check that this is the site you mean to sign in to")).toBeVisible();
+
+    await page.getByRole("button", { name: "Sign In" }).click();
+    await expect(page.getByText("Signed In!")).toBeVisible({ timeout: 10000 });
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(true);
+
+    await ctx.close();
+  });
+
+  test("summarizes a permit as an allowance grant", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    const token = "0x1111111111111111111111111111111111111111";
+    const spender = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+    const { id, secret } = await createTestRequest("sign_typed_data", {
+      domain: { name: "Test Coin", version: "1", chainId: TEST_CHAIN_ID, verifyingContract: token },
+      types: {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      primaryType: "Permit",
+      message: { owner: TEST_ADDRESS, spender, value: "12500000", nonce: "0", deadline: "1893456000" },
+      address: TEST_ADDRESS,
+      chainId: TEST_CHAIN_ID,
+      permit: {
+        kind: "erc2612",
+        token,
+        tokenName: "Test Coin",
+        symbol: "TEST",
+        spender,
+        amount: "12.5",
+        deadline: 1893456000,
+        warnings: [],
+      },
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByRole("heading", { name: "Token Permit" })).toBeVisible();
+    await expect(page.getByTestId("permit-summary")).toContainText("Grant 0x7099...79C8 up to 12.5 TEST until revoked");
+
+    await page.getByRole("button", { name: "Sign Permit" }).click();
+    await expect(page.getByText("Permit Signed!")).toBeVisible({ timeout: 10000 });
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(true);
+
+    await ctx.close();
+  });
+
   test("signs EIP-712 typed data", async ({ browser }) => {
     const ctx = await walletContext(browser);
     const page = await ctx.newPage();
 
-    const { id } = await createTestRequest("sign_typed_data", {
+    const { id, secret } = await createTestRequest("sign_typed_data", {
       domain: { name: "Test App", version: "1", chainId: TEST_CHAIN_ID },
       types: { Message: [{ name: "content", type: "string" }] },
       primaryType: "Message",
@@ -165,7 +517,7 @@ test.describe("Message Signing", () => {
       chainId: TEST_CHAIN_ID,
     });
 
-    await page.goto(`${getBaseUrl()}/sign/${id}`);
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
     await expect(page.getByRole("heading", { name: "Sign Typed Data" })).toBeVisible();
     await expect(page.getByText("Typed Data (EIP-712)")).toBeVisible();
 
@@ -177,4 +529,120 @@ test.describe("Message Signing", () => {
 
     await ctx.close();
   });
+
+  test("warns about permits and chain mismatches", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("sign_typed_data", {
+      domain: {
+        name: "USD Coin",
+        version: "2",
+        chainId: 137,
+        verifyingContract: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      },
+      types: {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      primaryType: "Permit",
+      message: {
+        owner: TEST_ADDRESS,
+        spender: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+        value: "115792089237316195423570985008687907853269984665640564039457584007913129639935",
+        nonce: 0,
+        deadline: 1767225600,
+      },
+      chainId: TEST_CHAIN_ID,
+    });
+
+    await page.goto(`${getBaseUrl()}/sign/${id}#${secret}`);
+    await expect(page.getByText("Token approval (ERC-2612 permit)")).toBeVisible();
+    await expect(page.getByText("unlimited").first()).toBeVisible();
+    await expect(page.getByText("does not match the request chain")).toBeVisible();
+
+    await page.getByRole("button", { name: "Reject" }).click();
+    await ctx.close();
+  });
+});
+
+// --- Dashboard ---
+
+test.describe("Dashboard", () => {
+  test("lists pending requests and rejects them", async ({ browser }) => {
+    const ctx = await browser.newContext();
+    const page = await ctx.newPage();
+
+    const { id } = await createTestRequest("sign_message", { message: "Dashboard test", chainId: TEST_CHAIN_ID });
+    await page.goto(`${getBaseUrl()}/#${getDashboardToken()}`);
+
+    await expect(page.getByRole("heading", { name: "Signing Requests" })).toBeVisible();
+    const row = page.locator(`[data-request-id="${id}"]`);
+    await expect(row.getByText("Sign message")).toBeVisible();
+    await expect(row.getByText(/expires in \d:\d\d/)).toBeVisible();
+    await expect(row.getByRole("link", { name: "Review" })).toHaveAttribute("href", new RegExp(`/sign/${id}#`));
+
+    await row.getByRole("button", { name: "Reject" }).click();
+    await expect(row).toHaveCount(0);
+
+    const result = await getTestResult(id);
+    expect(result?.success).toBe(false);
+    expect(result?.error).toContain("rejected");
+
+    await ctx.close();
+  });
+
+  test("links approval pages to the dashboard", async ({ browser }) => {
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    const { id, secret } = await createTestRequest("connect", { chainId: TEST_CHAIN_ID });
+    await page.goto(`${getBaseUrl()}/connect/${id}#${secret}`);
+
+    await page.getByRole("link", { name: "All requests" }).click();
+    await expect(page.getByRole("heading", { name: "Signing Requests" })).toBeVisible();
+    await expect(page.locator(`[data-request-id="${id}"]`)).toBeVisible();
+
+    await page.locator(`[data-request-id="${id}"]`).getByRole("button", { name: "Reject" }).click();
+    await ctx.close();
+  });
+
+  test("opens new requests in the waiting tab and returns to it", async ({ browser }) => {
+    for (const id of pendingStore.getPendingIds()) {
+      pendingStore.cancel(id);
+    }
+    const ctx = await walletContext(browser);
+    const page = await ctx.newPage();
+
+    await page.goto(`${getBaseUrl()}/#${getDashboardToken()}`);
+    await expect(page.getByText("No pending requests.")).toBeVisible();
+
+    const { id } = await createTestRequest("sign_message", { message: "Pushed request", chainId: TEST_CHAIN_ID });
+    await expect(page).toHaveURL(new RegExp(`/sign/${id}#`));
+    await expect(page.getByRole("heading", { name: "Sign Message" })).toBeVisible();
+
+    await page.getByRole("button", { name: "Reject" }).click();
+    await expect(page.getByRole("heading", { name: "Signing Requests" })).toBeVisible();
+    expect((await getTestResult(id))?.success).toBe(false);
+
+    await ctx.close();
+  });
+
+  test("requires the dashboard token", async ({ browser }) => {
+    const ctx = await browser.newContext();
+    const page = await ctx.newPage();
+
+    await page.goto(`${getBaseUrl()}/`);
+    await expect(page.getByText("Dashboard Link Required")).toBeVisible();
+
+    await page.goto(`${getBaseUrl()}/#${"0".repeat(64)}`);
+    await expect(page.getByText("Invalid dashboard token")).toBeVisible();
+
+    await ctx.close();
+  });
 });
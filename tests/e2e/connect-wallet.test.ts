@@ -11,7 +11,9 @@
 
 import { assertEquals, assertExists } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { pendingStore } from "../../src/pending-store.ts";
-import { startTestServer } from "../../src/http-server.ts";
+import { getDashboardToken, startTestServer } from "../../src/http-server.ts";
+import { walletSession } from "../../src/session.ts";
+import { DEFAULT_TEST_ACCOUNT } from "../fixtures/test-wallet.ts";
 
 Deno.test({
   name: "E2E - HTTP server starts and serves API",
@@ -43,10 +45,12 @@ Deno.test({
 
     try {
       // Create a pending request
-      const { id, promise } = pendingStore.createConnectRequest(1);
+      const { id, secret, promise } = pendingStore.createConnectRequest(1);
 
       // Fetch the request via API
-      const res = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`);
+      const res = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
       assertEquals(res.ok, true);
 
       const data = await res.json();
@@ -66,6 +70,97 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "E2E - POST /api/extend/:id gives the user more time",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createConnectRequest(1, 60_000);
+      const expiresAt = pendingStore.getExpiresAt(id)!;
+
+      const pendingRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
+      assertEquals((await pendingRes.json()).expiresAt, expiresAt);
+
+      const forged = await fetch(`http://127.0.0.1:${port}/api/extend/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-Token": "0".repeat(64) },
+        body: "{}",
+      });
+      assertEquals(forged.status, 403);
+      await forged.body?.cancel();
+
+      const res = await fetch(`http://127.0.0.1:${port}/api/extend/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
+        body: "{}",
+      });
+      assertEquals(res.ok, true);
+
+      const data = await res.json();
+      assertEquals(data.expiresAt, expiresAt + 5 * 60_000);
+      assertEquals(pendingStore.getExpiresAt(id), data.expiresAt);
+
+      pendingStore.cancel(id);
+      try {
+        await promise;
+      } catch { /* expected */ }
+    } finally {
+      await stop();
+    }
+  },
+});
+
+Deno.test({
+  name: "E2E - POST /api/status/:id reports how far the user has got",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createConnectRequest(1);
+      const stages: string[] = [];
+      const stopListening = pendingStore.onStage(id, (stage) => stages.push(stage));
+
+      const postStage = (stage: string, token = secret) =>
+        fetch(`http://127.0.0.1:${port}/api/status/${id}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "X-Request-Token": token },
+          body: JSON.stringify({ stage }),
+        });
+
+      const forged = await postStage("wallet_connected", "0".repeat(64));
+      assertEquals(forged.status, 403);
+      await forged.body?.cancel();
+
+      const invalid = await postStage("signed");
+      assertEquals(invalid.status, 400);
+      await invalid.body?.cancel();
+
+      for (const stage of ["page_loaded", "wallet_connected", "wallet_connected"]) {
+        const res = await postStage(stage);
+        assertEquals(res.ok, true);
+        await res.body?.cancel();
+      }
+      assertEquals(stages, ["page_loaded", "wallet_connected"]);
+      assertEquals(pendingStore.getRecord(id)?.stage, "wallet_connected");
+
+      stopListening();
+      pendingStore.cancel(id);
+      try {
+        await promise;
+      } catch { /* expected */ }
+    } finally {
+      await stop();
+    }
+  },
+});
+
 Deno.test({
   name: "E2E - GET /api/pending/:id returns 404 for non-existent request",
   sanitizeResources: false,
@@ -95,15 +190,15 @@ Deno.test({
 
     try {
       // Create a pending request
-      const { id, promise } = pendingStore.createConnectRequest(1);
+      const { id, secret, promise } = pendingStore.createConnectRequest(1);
 
       // Complete the request via API
       const res = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
         body: JSON.stringify({
           success: true,
-          result: "0xTestAddress",
+          result: DEFAULT_TEST_ACCOUNT.address,
         }),
       });
 
@@ -116,7 +211,7 @@ Deno.test({
       const result = await promise;
       assertEquals(result.success, true);
       if (result.success) {
-        assertEquals(result.result, "0xTestAddress");
+        assertEquals(result.result, DEFAULT_TEST_ACCOUNT.address);
       }
     } finally {
       await stop();
@@ -124,6 +219,34 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "E2E - POST /api/complete/:id passes on the wallet's EIP-5792 capabilities",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createConnectRequest(8453);
+      const capabilities = { "0x2105": { atomic: { status: "supported" }, paymasterService: { supported: true } } };
+
+      const res = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
+        body: JSON.stringify({ success: true, result: DEFAULT_TEST_ACCOUNT.address, capabilities }),
+      });
+      assertEquals(res.ok, true);
+
+      const result = await promise;
+      assertEquals(result.success && result.capabilities, capabilities);
+      assertEquals(walletSession.get().capabilities, capabilities);
+    } finally {
+      walletSession.clear();
+      await stop();
+    }
+  },
+});
+
 Deno.test({
   name: "E2E - POST /api/complete/:id completes request with error",
   sanitizeResources: false,
@@ -133,12 +256,12 @@ Deno.test({
 
     try {
       // Create a pending request
-      const { id, promise } = pendingStore.createConnectRequest();
+      const { id, secret, promise } = pendingStore.createConnectRequest();
 
       // Complete with error via API
       const res = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
         body: JSON.stringify({
           success: false,
           error: "User rejected",
@@ -193,12 +316,12 @@ Deno.test({
     const { port, stop } = await startTestServer();
 
     try {
-      const { id, promise } = pendingStore.createConnectRequest();
+      const { id, secret, promise } = pendingStore.createConnectRequest();
 
       // Send invalid body (missing success field)
       const res = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
         body: JSON.stringify({ result: "test" }),
       });
 
@@ -215,3 +338,142 @@ Deno.test({
     }
   },
 });
+
+Deno.test({
+  name: "E2E - API rejects requests without a valid request token",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, promise } = pendingStore.createConnectRequest();
+
+      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`);
+      assertEquals(getRes.status, 403);
+      assertEquals(getRes.headers.get("Access-Control-Allow-Origin"), `http://127.0.0.1:${port}`);
+      await getRes.json(); // Consume body
+
+      const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-Token": "0".repeat(64) },
+        body: JSON.stringify({ success: true, result: DEFAULT_TEST_ACCOUNT.address }),
+      });
+      assertEquals(completeRes.status, 403);
+      await completeRes.json(); // Consume body
+
+      // Forged completion must not settle the request
+      assertEquals(pendingStore.has(id), true);
+
+      pendingStore.cancel(id);
+      try {
+        await promise;
+      } catch { /* expected */ }
+    } finally {
+      await stop();
+    }
+  },
+});
+
+Deno.test({
+  name: "E2E - GET /api/history requires the dashboard token",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const deniedRes = await fetch(`http://127.0.0.1:${port}/api/history`);
+      assertEquals(deniedRes.status, 403);
+      await deniedRes.json(); // Consume body
+
+      const headers = { "X-Dashboard-Token": getDashboardToken() };
+      const res = await fetch(`http://127.0.0.1:${port}/api/history?type=connect&limit=5`, { headers });
+      assertEquals(res.ok, true);
+      const data = await res.json();
+      assertEquals(Array.isArray(data.records), true);
+
+      const badRes = await fetch(`http://127.0.0.1:${port}/api/history?since=yesterday`, { headers });
+      assertEquals(badRes.status, 400);
+      await badRes.json(); // Consume body
+    } finally {
+      await stop();
+    }
+  },
+});
+
+Deno.test({
+  name: "E2E - GET /api/pending lists pending requests for the dashboard",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createConnectRequest(8453);
+
+      const deniedRes = await fetch(`http://127.0.0.1:${port}/api/pending`);
+      assertEquals(deniedRes.status, 403);
+      await deniedRes.json(); // Consume body
+
+      const res = await fetch(`http://127.0.0.1:${port}/api/pending`, {
+        headers: { "X-Dashboard-Token": getDashboardToken() },
+      });
+      assertEquals(res.ok, true);
+
+      const data = await res.json();
+      const item = data.requests.find((entry: { request: { id: string } }) => entry.request.id === id);
+      assertExists(item);
+      assertEquals(item.approvalUrl, `http://127.0.0.1:${port}/connect/${id}#${secret}`);
+      assertEquals(item.expiresAt, item.request.createdAt + 5 * 60 * 1000);
+      assertEquals(item.chain.id, 8453);
+
+      pendingStore.cancel(id);
+      try {
+        await promise;
+      } catch { /* expected */ }
+    } finally {
+      await stop();
+    }
+  },
+});
+
+Deno.test({
+  name: "E2E - GET /api/events pushes new requests to open tabs",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const deniedRes = await fetch(`http://127.0.0.1:${port}/api/events`);
+      assertEquals(deniedRes.status, 403);
+      await deniedRes.json(); // Consume body
+
+      const controller = new AbortController();
+      const res = await fetch(`http://127.0.0.1:${port}/api/events?token=${getDashboardToken()}`, {
+        signal: controller.signal,
+      });
+      assertEquals(res.headers.get("Content-Type"), "text/event-stream");
+      const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+      assertEquals((await reader.read()).value, ": connected\n\n");
+
+      const { id, promise } = pendingStore.createConnectRequest(1);
+      assertEquals(
+        (await reader.read()).value,
+        `data: ${JSON.stringify({ type: "created", id, requestType: "connect" })}\n\n`,
+      );
+
+      pendingStore.cancel(id);
+      try {
+        await promise;
+      } catch { /* expected */ }
+      assertEquals((await reader.read()).value, `data: ${JSON.stringify({ type: "finished", id, status: "cancelled" })}\n\n`);
+
+      controller.abort();
+      await reader.cancel().catch(() => {});
+    } finally {
+      await stop();
+    }
+  },
+});
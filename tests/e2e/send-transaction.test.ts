@@ -2,9 +2,10 @@
  * E2E tests for transaction signing flow.
  */
 
-import { assertEquals, assertExists } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { assertEquals, assertExists, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { pendingStore } from "../../src/pending-store.ts";
 import { startTestServer } from "../../src/http-server.ts";
+import { ANVIL_CHAIN_ID } from "../fixtures/test-wallet.ts";
 
 Deno.test({
   name: "E2E - Transaction request API flow",
@@ -14,27 +15,29 @@ Deno.test({
     const { port, stop } = await startTestServer();
 
     try {
-      // Create a transaction request
-      const { id, promise } = pendingStore.createSendTransactionRequest({
+      // Create a transaction request (no RPC is configured for Anvil, so the hash isn't looked up on-chain)
+      const { id, secret, promise } = pendingStore.createSendTransactionRequest({
         to: "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC",
         value: "1000000000000000000", // 1 ETH in wei
-        chainId: 1,
+        chainId: ANVIL_CHAIN_ID,
       });
 
       // Fetch request via API
-      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`);
+      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
       assertEquals(getRes.ok, true);
 
       const data = await getRes.json();
       assertEquals(data.request.type, "send_transaction");
       assertEquals(data.request.to, "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC");
       assertEquals(data.request.value, "1000000000000000000");
-      assertEquals(data.request.chainId, 1);
+      assertEquals(data.request.chainId, ANVIL_CHAIN_ID);
 
       // Complete with tx hash
       const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
         body: JSON.stringify({
           success: true,
           result: "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
@@ -67,7 +70,7 @@ Deno.test({
 
     try {
       // Create a contract call request
-      const { id, promise } = pendingStore.createSendTransactionRequest({
+      const { id, secret, promise } = pendingStore.createSendTransactionRequest({
         to: "0xContractAddress",
         value: "0",
         data: "0xa9059cbb000000000000000000000000recipient0000000000000000000000amount",
@@ -75,7 +78,9 @@ Deno.test({
         gasLimit: "100000",
       });
 
-      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`);
+      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
       const data = await getRes.json();
 
       assertExists(data.request.data);
@@ -84,7 +89,7 @@ Deno.test({
       // Simulate rejection
       const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
         body: JSON.stringify({
           success: false,
           error: "User rejected transaction",
@@ -111,15 +116,17 @@ Deno.test({
     const { port, stop } = await startTestServer();
 
     try {
-      const { id, promise } = pendingStore.createSendTransactionRequest({
+      const { id, secret, promise } = pendingStore.createSendTransactionRequest({
         to: "0xRecipient",
         value: "1000000000000000000",
-        chainId: 1,
+        chainId: ANVIL_CHAIN_ID,
         maxFeePerGas: "50000000000", // 50 gwei
         maxPriorityFeePerGas: "2000000000", // 2 gwei
       });
 
-      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`);
+      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
       const data = await getRes.json();
 
       assertEquals(data.request.maxFeePerGas, "50000000000");
@@ -128,8 +135,11 @@ Deno.test({
       // Complete
       const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ success: true, result: "0xTxHash" }),
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
+        body: JSON.stringify({
+          success: true,
+          result: "0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890",
+        }),
       });
       await completeRes.json(); // Consume body
 
@@ -139,3 +149,153 @@ Deno.test({
     }
   },
 });
+
+Deno.test({
+  name: "E2E - Transaction completion with malformed hash is rejected",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createSendTransactionRequest({
+        to: "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC",
+        value: "1",
+        chainId: ANVIL_CHAIN_ID,
+      });
+
+      const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
+        body: JSON.stringify({ success: true, result: "0xnotahash" }),
+      });
+      assertEquals(completeRes.status, 422);
+      await completeRes.json(); // Consume body
+
+      const result = await promise;
+      assertEquals(result.success, false);
+      if (!result.success) {
+        assertStringIncludes(result.error, "invalid transaction hash");
+      }
+    } finally {
+      await stop();
+    }
+  },
+});
+
+Deno.test({
+  name: "E2E - Transfer intent is served to the approval page",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createSendTransactionRequest({
+        to: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+        data:
+          "0xa9059cbb000000000000000000000000742d35cc6634c0532925a3b844bc9e7595f1e7ec000000000000000000000000000000000000000000000000000000000003d090",
+        chainId: ANVIL_CHAIN_ID,
+        intent: {
+          kind: "transfer",
+          amount: "0.25",
+          symbol: "USDC",
+          decimals: 6,
+          recipient: "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC",
+          token: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+        },
+      });
+
+      const res = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
+      assertEquals(res.ok, true);
+
+      const data = await res.json();
+      assertEquals(data.request.intent.amount, "0.25");
+      assertEquals(data.request.intent.symbol, "USDC");
+      assertEquals(data.request.intent.recipient, "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC");
+
+      pendingStore.cancel(id);
+      try {
+        await promise;
+      } catch { /* expected */ }
+    } finally {
+      await stop();
+    }
+  },
+});
+
+Deno.test({
+  name: "E2E - Chain config is served to the approval page",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createSendTransactionRequest({
+        to: "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC",
+        value: "1",
+        chainId: 8453,
+      });
+
+      const res = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
+      const data = await res.json();
+      assertEquals(data.chain.id, 8453);
+      assertEquals(data.chain.name, "Base");
+      assertEquals(data.chain.nativeCurrency.symbol, "ETH");
+
+      pendingStore.cancel(id);
+      try {
+        await promise;
+      } catch { /* expected */ }
+    } finally {
+      await stop();
+    }
+  },
+});
+
+Deno.test({
+  name: "E2E - Simulation requires the request token and a chain RPC",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createSendTransactionRequest({
+        to: "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC",
+        value: "1000",
+        chainId: ANVIL_CHAIN_ID,
+      });
+
+      const forbidden = await fetch(`http://127.0.0.1:${port}/api/simulate/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      assertEquals(forbidden.status, 403);
+      await forbidden.json(); // Consume body
+
+      // No RPC is configured for Anvil
+      const unavailable = await fetch(`http://127.0.0.1:${port}/api/simulate/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
+        body: JSON.stringify({}),
+      });
+      assertEquals(unavailable.status, 503);
+      const data = await unavailable.json();
+      assertStringIncludes(data.error, `chain ${ANVIL_CHAIN_ID}`);
+
+      pendingStore.cancel(id);
+      try {
+        await promise;
+      } catch { /* expected */ }
+    } finally {
+      await stop();
+    }
+  },
+});
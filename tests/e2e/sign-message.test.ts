@@ -2,9 +2,13 @@
  * E2E tests for message and typed data signing flows.
  */
 
-import { assertEquals, assertExists } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { assertEquals, assertExists, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { pendingStore } from "../../src/pending-store.ts";
 import { startTestServer } from "../../src/http-server.ts";
+import { privateKeyToAccount } from "viem/accounts";
+import { ANVIL_CHAIN_ID, DEFAULT_TEST_ACCOUNT, TEST_ACCOUNTS } from "../fixtures/test-wallet.ts";
+
+const signer = privateKeyToAccount(DEFAULT_TEST_ACCOUNT.privateKey);
 
 Deno.test({
   name: "E2E - Sign message API flow",
@@ -15,13 +19,15 @@ Deno.test({
 
     try {
       // Create a sign message request
-      const { id, promise } = pendingStore.createSignMessageRequest({
+      const { id, secret, promise } = pendingStore.createSignMessageRequest({
         message: "Hello, Ethereum!",
         chainId: 1,
       });
 
       // Fetch request via API
-      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`);
+      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
       assertEquals(getRes.ok, true);
 
       const data = await getRes.json();
@@ -29,12 +35,13 @@ Deno.test({
       assertEquals(data.request.message, "Hello, Ethereum!");
 
       // Complete with signature
+      const signature = await signer.signMessage({ message: "Hello, Ethereum!" });
       const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
         body: JSON.stringify({
           success: true,
-          result: "0xSignatureHere",
+          result: signature,
         }),
       });
 
@@ -44,7 +51,7 @@ Deno.test({
       const result = await promise;
       assertEquals(result.success, true);
       if (result.success) {
-        assertEquals(result.result, "0xSignatureHere");
+        assertEquals(result.result, signature);
       }
     } finally {
       await stop();
@@ -60,26 +67,32 @@ Deno.test({
     const { port, stop } = await startTestServer();
 
     try {
-      const { id, promise } = pendingStore.createSignMessageRequest({
+      const { id, secret, promise } = pendingStore.createSignMessageRequest({
         message: "Sign with specific account",
-        address: "0xSpecificAddress",
+        address: TEST_ACCOUNTS[1].address,
         chainId: 1,
       });
 
-      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`);
+      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
       const data = await getRes.json();
 
-      assertEquals(data.request.address, "0xSpecificAddress");
+      assertEquals(data.request.address, TEST_ACCOUNTS[1].address);
 
       // Complete
+      const signature = await privateKeyToAccount(TEST_ACCOUNTS[1].privateKey).signMessage({
+        message: "Sign with specific account",
+      });
       const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ success: true, result: "0xSig" }),
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
+        body: JSON.stringify({ success: true, result: signature }),
       });
       await completeRes.json(); // Consume body
 
-      await promise;
+      const result = await promise;
+      assertEquals(result.success, true);
     } finally {
       await stop();
     }
@@ -125,7 +138,7 @@ Deno.test({
         contents: "Hello, Bob!",
       };
 
-      const { id, promise } = pendingStore.createSignTypedDataRequest({
+      const { id, secret, promise } = pendingStore.createSignTypedDataRequest({
         domain,
         types,
         primaryType: "Mail",
@@ -134,7 +147,9 @@ Deno.test({
       });
 
       // Fetch request via API
-      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`);
+      const getRes = await fetch(`http://127.0.0.1:${port}/api/pending/${id}`, {
+        headers: { "X-Request-Token": secret },
+      });
       const data = await getRes.json();
 
       assertEquals(data.request.type, "sign_typed_data");
@@ -145,12 +160,18 @@ Deno.test({
       assertExists(data.request.message);
 
       // Complete with signature
+      const signature = await signer.signTypedData({
+        domain: { ...domain, verifyingContract: domain.verifyingContract as `0x${string}` },
+        types,
+        primaryType: "Mail",
+        message: message as Record<string, unknown>,
+      });
       const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
         body: JSON.stringify({
           success: true,
-          result: "0xTypedDataSignature",
+          result: signature,
         }),
       });
       await completeRes.json(); // Consume body
@@ -158,7 +179,7 @@ Deno.test({
       const result = await promise;
       assertEquals(result.success, true);
       if (result.success) {
-        assertEquals(result.result, "0xTypedDataSignature");
+        assertEquals(result.result, signature);
       }
     } finally {
       await stop();
@@ -174,7 +195,7 @@ Deno.test({
     const { port, stop } = await startTestServer();
 
     try {
-      const { id, promise } = pendingStore.createSignTypedDataRequest({
+      const { id, secret, promise } = pendingStore.createSignTypedDataRequest({
         domain: { name: "Test" },
         types: { Message: [{ name: "text", type: "string" }] },
         primaryType: "Message",
@@ -185,7 +206,7 @@ Deno.test({
       // User rejects
       const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
         body: JSON.stringify({
           success: false,
           error: "User rejected signing request",
@@ -203,3 +224,37 @@ Deno.test({
     }
   },
 });
+
+Deno.test({
+  name: "E2E - Signature from the wrong account is rejected",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const { port, stop } = await startTestServer();
+
+    try {
+      const { id, secret, promise } = pendingStore.createSignMessageRequest({
+        message: "Only account 1 may sign this",
+        address: TEST_ACCOUNTS[1].address,
+        chainId: ANVIL_CHAIN_ID,
+      });
+
+      const signature = await signer.signMessage({ message: "Only account 1 may sign this" });
+      const completeRes = await fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
+        body: JSON.stringify({ success: true, result: signature }),
+      });
+      assertEquals(completeRes.status, 422);
+      await completeRes.json(); // Consume body
+
+      const result = await promise;
+      assertEquals(result.success, false);
+      if (!result.success) {
+        assertStringIncludes(result.error, `signed by ${DEFAULT_TEST_ACCOUNT.address}`);
+      }
+    } finally {
+      await stop();
+    }
+  },
+});
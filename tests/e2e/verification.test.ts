@@ -0,0 +1,91 @@
+/**
+ * E2E tests for requests that end while the approval page's result is being verified.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { pendingStore } from "../../src/pending-store.ts";
+import { startTestServer } from "../../src/http-server.ts";
+
+// A chain whose RPC is the fake below; this file has its own module instances, so the override reaches the config
+const CHAIN_ID = 31338;
+const HASH = "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef";
+const TO = "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC";
+
+Deno.test({
+  name: "E2E - Completing a request that ended during verification returns 409 or 410",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    // Fake RPC that holds each transaction lookup until the test releases it
+    let lookedUp: () => void = () => {};
+    let release: () => void = () => {};
+    const rpc = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async (req) => {
+      const { id } = await req.json();
+      const released = new Promise<void>((resolve) => (release = resolve));
+      lookedUp();
+      await released;
+      return Response.json({
+        jsonrpc: "2.0",
+        id,
+        result: {
+          hash: HASH,
+          from: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+          to: TO,
+          value: "0x0",
+          input: "0x",
+          nonce: "0x0",
+          gas: "0x5208",
+          gasPrice: "0x1",
+          type: "0x0",
+          chainId: `0x${CHAIN_ID.toString(16)}`,
+          blockHash: HASH,
+          blockNumber: "0x1",
+          transactionIndex: "0x0",
+          v: "0x1b",
+          r: "0x1",
+          s: "0x1",
+        },
+      });
+    });
+    Deno.env.set(`EVM_MCP_RPC_${CHAIN_ID}`, `http://127.0.0.1:${rpc.addr.port}`);
+    const { port, stop } = await startTestServer();
+
+    /**
+     * Post a transaction hash for a new request, and end the request some other way while its hash is looked up
+     */
+    const completeDuring = async (end: (id: string) => void) => {
+      const { id, secret, promise } = pendingStore.createSendTransactionRequest({
+        to: TO,
+        chainId: CHAIN_ID,
+      });
+      promise.catch(() => {});
+
+      const seen = new Promise<void>((resolve) => (lookedUp = resolve));
+      const response = fetch(`http://127.0.0.1:${port}/api/complete/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-Token": secret },
+        body: JSON.stringify({ success: true, result: HASH }),
+      });
+      await seen;
+      end(id);
+      release();
+      return await response;
+    };
+
+    try {
+      // Another tab completed it first
+      const completed = await completeDuring((id) => pendingStore.complete(id, { success: true, result: HASH }));
+      assertEquals(completed.status, 409);
+      assertEquals(await completed.json(), { error: "Request already completed" });
+
+      // The agent cancelled it
+      const cancelled = await completeDuring((id) => pendingStore.cancel(id));
+      assertEquals(cancelled.status, 410);
+      assertEquals(await cancelled.json(), { error: "Request cancelled" });
+    } finally {
+      Deno.env.delete(`EVM_MCP_RPC_${CHAIN_ID}`);
+      await stop();
+      await rpc.shutdown();
+    }
+  },
+});
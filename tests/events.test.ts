@@ -0,0 +1,47 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { RequestEvents } from "../src/events.ts";
+
+Deno.test("RequestEvents - pushes events to subscribed streams until they unsubscribe", () => {
+  const events = new RequestEvents();
+  const chunks: string[] = [];
+  const unsubscribe = events.subscribe({ write: (chunk) => chunks.push(chunk) });
+  assertEquals(events.listenerCount, 1);
+
+  events.publish({ type: "created", id: "abc", requestType: "sign_message" });
+  assertEquals(chunks, ['data: {"type":"created","id":"abc","requestType":"sign_message"}\n\n']);
+
+  unsubscribe();
+  assertEquals(events.listenerCount, 0);
+  events.publish({ type: "finished", id: "abc", status: "approved" });
+  assertEquals(chunks.length, 1);
+});
+
+Deno.test("RequestEvents - a failing stream doesn't stop the others", () => {
+  const events = new RequestEvents();
+  const chunks: string[] = [];
+  const unsubscribeBroken = events.subscribe({
+    write: () => {
+      throw new Error("socket closed");
+    },
+  });
+  const unsubscribe = events.subscribe({ write: (chunk) => chunks.push(chunk) });
+
+  events.publish({ type: "finished", id: "abc", status: "expired" });
+  assertEquals(chunks.length, 1);
+
+  unsubscribeBroken();
+  unsubscribe();
+});
+
+Deno.test("RequestEvents - in-process listeners get events without counting as open tabs", () => {
+  const events = new RequestEvents();
+  const received: string[] = [];
+  const stop = events.listen((event) => received.push(event.type));
+  assertEquals(events.listenerCount, 0);
+
+  events.publish({ type: "stage", id: "abc", stage: "page_loaded" });
+  stop();
+  events.publish({ type: "finished", id: "abc", status: "approved" });
+  assertEquals(received, ["stage"]);
+});
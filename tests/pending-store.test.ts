@@ -2,7 +2,8 @@ import { assertEquals, assertExists, assertRejects } from "https://deno.land/std
 
 // Import the pending store
 // Note: We need to import from source since tests run with Deno
-import { pendingStore } from "../src/pending-store.ts";
+import { PendingStore, pendingStore } from "../src/pending-store.ts";
+import { PolicyEngine } from "../src/policy.ts";
 
 Deno.test("PendingStore - creates connect request", async () => {
   const { id, promise } = pendingStore.createConnectRequest(1);
@@ -49,6 +50,34 @@ Deno.test("PendingStore - creates send transaction request", async () => {
   assertEquals(result.success, true);
 });
 
+Deno.test("PendingStore - creates send transactions request", async () => {
+  const { id, promise } = pendingStore.createSendTransactionsRequest({
+    transactions: [{ to: "0xToken", data: "0x095ea7b3" }, { to: "0xRouter", value: "1000" }],
+    chainId: 1,
+    atomic: false,
+  });
+
+  const request = pendingStore.get(id);
+  assertExists(request);
+  assertEquals(request.type, "send_transactions");
+
+  if (request.type === "send_transactions") {
+    assertEquals(request.transactions.length, 2);
+    assertEquals(request.atomic, false);
+  }
+
+  // A partly sent batch reports the hashes that went through and where it stopped
+  pendingStore.complete(id, {
+    success: false,
+    error: "Transaction 2 reverted",
+    batch: { hashes: ["0xFirst", "0xSecond"], failedIndex: 1 },
+  });
+
+  const result = await promise;
+  assertEquals(result.success, false);
+  assertEquals(result.batch?.failedIndex, 1);
+});
+
 Deno.test("PendingStore - creates sign message request", async () => {
   const { id, promise } = pendingStore.createSignMessageRequest({
     message: "Hello, world!",
@@ -117,3 +146,151 @@ Deno.test("PendingStore - complete returns false for non-existent request", () =
   const result = pendingStore.complete("non-existent", { success: true, result: "test" });
   assertEquals(result, false);
 });
+
+Deno.test("PendingStore - getRecord tracks pending and approved requests", async () => {
+  const { id, promise } = pendingStore.createSignMessageRequest({ message: "status", chainId: 1 });
+
+  assertEquals(pendingStore.getRecord(id)?.status, "pending");
+
+  pendingStore.complete(id, { success: true, result: "0xSig" });
+  await promise;
+
+  const record = pendingStore.getRecord(id);
+  assertExists(record);
+  assertEquals(record.status, "approved");
+  assertEquals(record.result, { success: true, result: "0xSig" });
+  assertExists(record.completedAt);
+  assertEquals(pendingStore.has(id), false);
+});
+
+Deno.test("PendingStore - getRecord retains rejected and cancelled outcomes", async () => {
+  const rejected = pendingStore.createConnectRequest();
+  pendingStore.complete(rejected.id, { success: false, error: "User rejected" });
+  await rejected.promise;
+  assertEquals(pendingStore.getRecord(rejected.id)?.status, "rejected");
+
+  const cancelled = pendingStore.createConnectRequest();
+  pendingStore.cancel(cancelled.id, "Cancelled by test");
+  await assertRejects(() => cancelled.promise);
+
+  const record = pendingStore.getRecord(cancelled.id);
+  assertEquals(record?.status, "cancelled");
+  assertEquals(record?.error, "Cancelled by test");
+});
+
+Deno.test("PendingStore - restores pending requests saved by a previous run", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/requests.json`;
+  try {
+    const before = new PendingStore(path);
+    const { id, promise } = before.createSignMessageRequest({ message: "restart", chainId: 1 });
+    const secret = before.getSecret(id);
+    const expiresAt = before.getExpiresAt(id);
+
+    const after = new PendingStore(path);
+    assertEquals(after.restore(), 1);
+    assertEquals(after.getCompletable(id)?.type, "sign_message");
+    assertEquals(after.getExpiresAt(id), expiresAt);
+    assertEquals(after.verifySecret(id, secret), true);
+
+    assertEquals(after.complete(id, { success: true, result: "0xSig" }), true);
+    assertEquals(after.getRecord(id)?.status, "approved");
+    assertEquals(new PendingStore(path).restore(), 0);
+
+    before.cancel(id);
+    await assertRejects(() => promise);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("PendingStore - completes requests that expired while the server was down", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/requests.json`;
+  try {
+    const request = { id: "expired-request", type: "connect", createdAt: Date.now() - 600_000 };
+    await Deno.writeTextFile(
+      path,
+      JSON.stringify({ pending: [{ request, secret: "s3cret", expiresAt: Date.now() - 1000 }], finished: [] }),
+    );
+
+    const store = new PendingStore(path);
+    assertEquals(store.restore(), 1);
+    assertEquals(store.getRecord(request.id)?.status, "expired");
+    assertEquals(store.verifySecret(request.id, "s3cret"), true);
+
+    assertEquals(store.complete(request.id, { success: true, result: "0xAddress" }), true);
+    const record = store.getRecord(request.id);
+    assertEquals(record?.status, "approved");
+    assertEquals(record?.late, true);
+
+    // Only one late completion is accepted
+    assertEquals(store.verifySecret(request.id, "s3cret"), false);
+    assertEquals(store.complete(request.id, { success: false, error: "again" }), false);
+
+    const reloaded = new PendingStore(path);
+    reloaded.restore();
+    assertEquals(reloaded.getRecord(request.id)?.late, true);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("PendingStore - keeps the spending of an expired request until it can no longer be completed", async () => {
+  const policy = new PolicyEngine({ chains: { "1": { maxNativePerDay: "1" } } });
+  const store = new PendingStore(null, () => policy);
+  const tx = { chainId: 1, to: "0x742d35Cc6634C0532925a3b844Bc9e7595f1E7eC", value: "600000000000000000" };
+  const send = async () => {
+    const { id, promise } = store.createSendTransactionRequest(tx, 10);
+    policy.recordSpending(id, 1, policy.checkTransaction(tx).spending);
+    await assertRejects(() => promise);
+    return id;
+  };
+
+  // The approval tab may still send it, so the spending stays reserved after the request expires
+  const rejected = await send();
+  assertEquals(policy.checkTransaction(tx).violations.map((violation) => violation.rule), ["native_daily_limit"]);
+  assertEquals(store.complete(rejected, { success: false, error: "User rejected" }), true);
+  assertEquals(policy.checkTransaction(tx).violations, []);
+
+  // Sent late, it keeps counting
+  const sent = await send();
+  assertEquals(store.complete(sent, { success: true, result: "0xHash" }), true);
+  assertEquals(policy.checkTransaction(tx).violations.map((violation) => violation.rule), ["native_daily_limit"]);
+});
+
+Deno.test("PendingStore - uses a per-request timeout", async () => {
+  const { id, promise } = pendingStore.createConnectRequest(1, 90_000);
+  const request = pendingStore.get(id);
+  assertExists(request);
+  assertEquals(pendingStore.getExpiresAt(id), request.createdAt + 90_000);
+
+  pendingStore.cancel(id);
+  await assertRejects(() => promise);
+});
+
+Deno.test("PendingStore - extends a pending request up to an hour after creation", async () => {
+  const { id, promise } = pendingStore.createSignMessageRequest({ message: "more time" }, 50 * 60_000);
+  const createdAt = pendingStore.get(id)!.createdAt;
+
+  assertEquals(pendingStore.extend(id), createdAt + 55 * 60_000);
+  assertEquals(pendingStore.getExpiresAt(id), createdAt + 55 * 60_000);
+  assertEquals(pendingStore.extend(id), createdAt + 60 * 60_000);
+  assertEquals(pendingStore.extend(id), undefined);
+  assertEquals(pendingStore.extend("non-existent"), undefined);
+
+  pendingStore.cancel(id);
+  await assertRejects(() => promise);
+});
+
+Deno.test("PendingStore - expires at the extended deadline", async () => {
+  const { id, promise } = pendingStore.createConnectRequest(1, 0);
+  pendingStore.extend(id, 50);
+
+  // The original (immediate) timeout must not fire
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assertEquals(pendingStore.has(id), true);
+
+  await assertRejects(() => promise, Error, "timed out");
+  assertEquals(pendingStore.getRecord(id)?.status, "expired");
+});
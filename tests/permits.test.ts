@@ -0,0 +1,180 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  type Address,
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  domainSeparator,
+  encodeFunctionResult,
+  type Hex,
+  keccak256,
+  maxUint160,
+  parseAbi,
+  recoverTypedDataAddress,
+  toHex,
+  type TypedDataDefinition,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { buildErc2612Permit, buildPermit2, PERMIT2_ADDRESS, splitPermitSignature } from "../src/permits.ts";
+import { TEST_ACCOUNTS } from "./fixtures/test-wallet.ts";
+
+const OWNER = TEST_ACCOUNTS[0];
+const SPENDER = TEST_ACCOUNTS[1].address;
+const TOKEN: Address = "0x1111111111111111111111111111111111111111";
+const NOW = new Date("2026-03-01T12:00:00Z");
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+
+const tokenAbi = parseAbi([
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function PERMIT_TYPEHASH() view returns (bytes32)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+]);
+
+const permit2Abi = parseAbi([
+  "function allowance(address user, address token, address spender) view returns (uint160, uint48, uint48)",
+]);
+
+interface FakeToken {
+  version?: string;
+  // Version the DOMAIN_SEPARATOR is built with, when version() isn't exposed
+  domainVersion?: string;
+  typehash?: Hex;
+  permit2Allowance?: bigint;
+}
+
+/**
+ * Public client whose eth_call answers as a 6-decimal token named "Test Coin" and the Permit2 contract
+ */
+function mockClient(token: FakeToken = {}) {
+  const answer = (to: string, data: Hex): Hex => {
+    if (to.toLowerCase() === PERMIT2_ADDRESS.toLowerCase()) {
+      return encodeFunctionResult({ abi: permit2Abi, functionName: "allowance", result: [0n, 0, 7] });
+    }
+
+    const call = decodeFunctionData({ abi: tokenAbi, data });
+    const result = (value: unknown) =>
+      encodeFunctionResult({ abi: tokenAbi, functionName: call.functionName, result: value } as never);
+    switch (call.functionName) {
+      case "name":
+        return result("Test Coin");
+      case "version":
+        if (token.version === undefined) break;
+        return result(token.version);
+      case "nonces":
+        return result(3n);
+      case "DOMAIN_SEPARATOR": {
+        const version = token.version ?? token.domainVersion ?? "1";
+        return result(domainSeparator({ domain: { name: "Test Coin", version, chainId: 1, verifyingContract: TOKEN } }));
+      }
+      case "PERMIT_TYPEHASH":
+        if (token.typehash === undefined) break;
+        return result(token.typehash);
+      case "decimals":
+        return result(6);
+      case "symbol":
+        return result("TEST");
+      case "allowance":
+        return result(token.permit2Allowance ?? 0n);
+    }
+    throw Object.assign(new Error("execution reverted"), { code: 3 });
+  };
+
+  return createPublicClient({
+    transport: custom({
+      request: ({ method, params }) => {
+        if (method !== "eth_call") {
+          return Promise.reject(new Error(`unexpected RPC method ${method}`));
+        }
+        const [{ to, data }] = params as [{ to: string; data: Hex }];
+        try {
+          return Promise.resolve(answer(to, data));
+        } catch (error) {
+          return Promise.reject(error);
+        }
+      },
+    }, { retryCount: 0 }),
+  });
+}
+
+const params = { token: TOKEN, owner: OWNER.address, spender: SPENDER, amount: "12.5", chainId: 1 };
+
+Deno.test("Permits - builds an ERC-2612 permit from on-chain reads", async () => {
+  const { typedData, summary } = await buildErc2612Permit(mockClient({ version: "2" }), params, NOW);
+
+  assertEquals(typedData.domain, { name: "Test Coin", version: "2", chainId: 1, verifyingContract: TOKEN });
+  assertEquals(typedData.primaryType, "Permit");
+  assertEquals(typedData.message, {
+    owner: OWNER.address,
+    spender: SPENDER,
+    value: "12500000",
+    nonce: "3",
+    deadline: String(NOW_SECONDS + 30 * 60),
+  });
+  assertEquals(summary.amount, "12.5");
+  assertEquals(summary.symbol, "TEST");
+  assertEquals(summary.expiresAt, undefined);
+
+  const signature = await privateKeyToAccount(OWNER.privateKey).signTypedData(
+    typedData as unknown as TypedDataDefinition,
+  );
+  assertEquals(
+    await recoverTypedDataAddress({ ...(typedData as unknown as TypedDataDefinition), signature }),
+    OWNER.address,
+  );
+});
+
+Deno.test("Permits - finds the domain version of tokens without version()", async () => {
+  const { typedData } = await buildErc2612Permit(mockClient({ domainVersion: "2" }), params, NOW);
+  assertEquals(typedData.domain.version, "2");
+
+  await assertRejects(
+    () => buildErc2612Permit(mockClient({ domainVersion: "3" }), params, NOW),
+    Error,
+    "Could not reproduce the EIP-712 domain",
+  );
+});
+
+Deno.test("Permits - refuses non-standard permits", async () => {
+  const daiTypehash = keccak256(
+    toHex("Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)"),
+  );
+  await assertRejects(
+    () => buildErc2612Permit(mockClient({ version: "1", typehash: daiTypehash }), params, NOW),
+    Error,
+    "non-standard permit",
+  );
+});
+
+Deno.test("Permits - builds a Permit2 allowance and warns when Permit2 isn't approved", async () => {
+  const { typedData, summary } = await buildPermit2(mockClient(), { ...params, amount: "unlimited" }, NOW);
+
+  assertEquals(typedData.domain, { name: "Permit2", chainId: 1, verifyingContract: PERMIT2_ADDRESS });
+  assertEquals(typedData.message, {
+    details: {
+      token: TOKEN,
+      amount: maxUint160.toString(),
+      expiration: String(NOW_SECONDS + 24 * 60 * 60),
+      nonce: "7",
+    },
+    spender: SPENDER,
+    sigDeadline: String(NOW_SECONDS + 30 * 60),
+  });
+  assertEquals(summary.amount, "unlimited");
+  assertEquals(summary.warnings.length, 1);
+
+  const approved = await buildPermit2(mockClient({ permit2Allowance: 100_000_000n }), params, NOW);
+  assertEquals(approved.summary.warnings, []);
+});
+
+Deno.test("Permits - splits signatures into v, r, s", () => {
+  const r = `0x${"11".repeat(32)}` as Hex;
+  const s = `0x${"22".repeat(32)}` as Hex;
+  assertEquals(splitPermitSignature(`${r}${s.slice(2)}1c`), { v: 28, r, s });
+  assertEquals(splitPermitSignature(`${r}${s.slice(2)}00`), { v: 27, r, s });
+});
@@ -0,0 +1,211 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { encodeFunctionData, erc20Abi, maxUint256 } from "viem";
+
+import { PolicyEngine } from "../src/policy.ts";
+import { TEST_ACCOUNTS } from "./fixtures/test-wallet.ts";
+
+const RECIPIENT = TEST_ACCOUNTS[1].address;
+const STRANGER = TEST_ACCOUNTS[2].address;
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+function transferData(to: `0x${string}`, amount: bigint) {
+  return encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [to, amount] });
+}
+
+function rules(decision: { violations: Array<{ rule: string }> }) {
+  return decision.violations.map((violation) => violation.rule);
+}
+
+Deno.test("Policy - allows everything without a policy", () => {
+  const decision = new PolicyEngine().checkTransaction({ chainId: 1, to: RECIPIENT, value: "10".padEnd(22, "0") });
+  assertEquals(decision.violations, []);
+  assertEquals(decision.warnings, []);
+});
+
+Deno.test("Policy - enforces per-transaction native limits and warns near them", () => {
+  const policy = new PolicyEngine({ chains: { "1": { maxNativePerTx: "1" } } });
+
+  const over = policy.checkTransaction({ chainId: 1, to: RECIPIENT, value: "1500000000000000000" });
+  assertEquals(rules(over), ["native_per_tx_limit"]);
+  assertEquals(over.violations[0].message, "1.5 ETH exceeds the per-transaction limit of 1 ETH");
+
+  const near = policy.checkTransaction({ chainId: 1, to: RECIPIENT, value: "900000000000000000" });
+  assertEquals(near.violations, []);
+  assertEquals(near.warnings, ["0.9 ETH is close to the per-transaction limit of 1 ETH"]);
+});
+
+Deno.test("Policy - counts pending and approved spending towards daily token limits", () => {
+  const policy = new PolicyEngine({ chains: { "1": { tokens: { USDC: { maxPerDay: "100" } } } } });
+  const tx = { chainId: 1, to: USDC, data: transferData(RECIPIENT, 60_000_000n) };
+
+  const first = policy.checkTransaction(tx);
+  assertEquals(first.violations, []);
+  policy.recordSpending("first", 1, first.spending);
+
+  assertEquals(rules(policy.checkTransaction(tx)), ["token_daily_limit"]);
+
+  // A rejected request no longer counts
+  policy.releaseSpending("first");
+  assertEquals(policy.checkTransaction(tx).violations, []);
+});
+
+Deno.test("Policy - counts earlier transactions in a batch towards later ones", () => {
+  const policy = new PolicyEngine({ chains: { "1": { tokens: { USDC: { maxPerTx: "100", maxPerDay: "100" } } } } });
+  const tx = { to: USDC, data: transferData(RECIPIENT, 60_000_000n) };
+
+  const decision = policy.checkTransactions(1, [tx, tx]);
+  assertEquals(rules(decision), ["token_daily_limit"]);
+  assertEquals(decision.violations[0].message.startsWith("Transaction 2: "), true);
+  assertEquals(decision.spending.length, 2);
+
+  // Checking a batch doesn't record its spending
+  assertEquals(policy.checkTransactions(1, [tx]).violations, []);
+});
+
+Deno.test("Policy - applies allowlists, deny lists and allowed chains", () => {
+  const policy = new PolicyEngine({
+    allowedChains: [1, 8453],
+    deniedAddresses: [STRANGER],
+    chains: { "1": { allowedRecipients: [RECIPIENT], allowedContracts: [USDC] } },
+  });
+
+  assertEquals(policy.checkTransaction({ chainId: 1, to: RECIPIENT, value: "1" }).violations, []);
+  assertEquals(rules(policy.checkTransaction({ chainId: 137, to: RECIPIENT, value: "1" })), ["chain_not_allowed"]);
+  assertEquals(rules(policy.checkTransaction({ chainId: 8453, to: STRANGER, value: "1" })), ["address_denied"]);
+  assertEquals(
+    rules(policy.checkTransaction({ chainId: 1, to: USDC, data: transferData(STRANGER, 1n) })),
+    ["address_denied", "recipient_not_allowed"],
+  );
+  // Revoking an approval is allowed whoever the spender is
+  const approveStranger = (amount: bigint) =>
+    encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [STRANGER, amount] });
+  assertEquals(policy.checkTransaction({ chainId: 1, to: USDC, data: approveStranger(0n) }).violations, []);
+  assertEquals(
+    rules(policy.checkTransaction({ chainId: 1, to: USDC, data: approveStranger(1n) })),
+    ["address_denied", "recipient_not_allowed"],
+  );
+  assertEquals(
+    rules(policy.checkTransaction({ chainId: 1, to: RECIPIENT, data: "0xd0e30db0" })),
+    ["contract_not_allowed"],
+  );
+});
+
+Deno.test("Policy - checks the target of value-carrying or unrecognised calls against the recipient allowlist", () => {
+  const policy = new PolicyEngine({ chains: { "1": { allowedRecipients: [RECIPIENT] } } });
+
+  assertEquals(
+    rules(policy.checkTransaction({ chainId: 1, to: STRANGER, value: "1000", data: "0x00" })),
+    ["recipient_not_allowed"],
+  );
+  assertEquals(rules(policy.checkTransaction({ chainId: 1, to: STRANGER, data: "0xd0e30db0" })), ["recipient_not_allowed"]);
+  assertEquals(policy.checkTransaction({ chainId: 1, to: RECIPIENT, value: "1000", data: "0x00" }).violations, []);
+  assertEquals(policy.checkTransaction({ chainId: 1, to: USDC, data: transferData(RECIPIENT, 1n) }).violations, []);
+
+  // With a contract allowlist, calls to listed contracts are judged by what they transfer, but value still counts
+  const contracts = new PolicyEngine({ chains: { "1": { allowedRecipients: [RECIPIENT], allowedContracts: [USDC] } } });
+  assertEquals(contracts.checkTransaction({ chainId: 1, to: USDC, data: "0xd0e30db0" }).violations, []);
+  assertEquals(
+    rules(contracts.checkTransaction({ chainId: 1, to: USDC, value: "1", data: "0xd0e30db0" })),
+    ["recipient_not_allowed"],
+  );
+});
+
+Deno.test("Policy - bans selectors and unlimited approvals", () => {
+  const policy = new PolicyEngine({
+    bannedSelectors: ["setApprovalForAll(address,bool)"],
+    denyUnlimitedApprovals: true,
+  });
+  const approve = (amount: bigint) => encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [RECIPIENT, amount] });
+
+  assertEquals(rules(policy.checkTransaction({ chainId: 1, to: USDC, data: approve(maxUint256) })), [
+    "unlimited_approval",
+  ]);
+  assertEquals(policy.checkTransaction({ chainId: 1, to: USDC, data: approve(1_000_000n) }).violations, []);
+  assertEquals(
+    rules(policy.checkTransaction({ chainId: 1, to: USDC, data: `0xa22cb465${"00".repeat(64)}` })),
+    ["selector_banned"],
+  );
+  const permit = (value: bigint) => ({
+    domain: { verifyingContract: USDC },
+    primaryType: "Permit",
+    message: { value: String(value) },
+  });
+  assertEquals(rules(policy.checkTypedData(1, permit(maxUint256))), ["unlimited_approval"]);
+  assertEquals(policy.checkTypedData(1, permit(1_000_000n)).violations, []);
+  assertThrows(() => new PolicyEngine({ bannedSelectors: ["not a signature"] }), Error, "Invalid policy");
+});
+
+Deno.test("Policy - applies message-signing rules", () => {
+  const policy = new PolicyEngine({
+    messages: { allowPersonalSign: false, deniedPrimaryTypes: ["PermitSingle"], allowedVerifyingContracts: [USDC] },
+  });
+
+  assertEquals(rules(policy.checkMessage(1)), ["personal_sign_disabled"]);
+  assertEquals(
+    rules(policy.checkTypedData(1, { domain: { verifyingContract: USDC }, primaryType: "Permit" })),
+    [],
+  );
+  assertEquals(
+    rules(policy.checkTypedData(1, { domain: { verifyingContract: RECIPIENT }, primaryType: "PermitSingle" })),
+    ["primary_type_denied", "verifying_contract_not_allowed"],
+  );
+});
+
+Deno.test("Policy - checks permit spenders against the address lists", () => {
+  const policy = new PolicyEngine({
+    deniedAddresses: [STRANGER],
+    chains: { "1": { allowedRecipients: [RECIPIENT] }, "10": { deniedAddresses: [RECIPIENT] } },
+  });
+  const permit = (spender: string, chainId = 1) => ({
+    domain: { chainId, verifyingContract: USDC },
+    primaryType: "Permit",
+    message: { owner: TEST_ACCOUNTS[0].address, spender, value: "1000000" },
+  });
+  const permitSingle = (spender: string) => ({
+    domain: { chainId: 1 },
+    primaryType: "PermitSingle",
+    message: { details: { token: USDC, amount: "1000000" }, spender, sigDeadline: "0" },
+  });
+  const permitBatch = (spender: string) => ({
+    domain: { chainId: 1 },
+    primaryType: "PermitBatch",
+    message: { details: [{ token: USDC, amount: "1000000" }], spender, sigDeadline: "0" },
+  });
+
+  assertEquals(rules(policy.checkTypedData(1, permit(RECIPIENT))), []);
+  assertEquals(rules(policy.checkTypedData(1, permit(STRANGER))), ["address_denied", "recipient_not_allowed"]);
+  assertEquals(rules(policy.checkTypedData(10, permit(RECIPIENT, 10))), ["address_denied"]);
+
+  assertEquals(rules(policy.checkTypedData(1, permitSingle(RECIPIENT))), []);
+  assertEquals(rules(policy.checkTypedData(1, permitSingle(USDC))), ["recipient_not_allowed"]);
+  assertEquals(rules(policy.checkTypedData(1, permitBatch(STRANGER))), ["address_denied", "recipient_not_allowed"]);
+});
+
+Deno.test("Policy - daily spending survives restarts and is shared through the ledger file", async () => {
+  const dir = await Deno.makeTempDir();
+  const ledgerPath = `${dir}/spending.json`;
+  const config = { chains: { "1": { maxNativePerDay: "1" } } };
+  const tx = { chainId: 1, to: RECIPIENT, value: "600000000000000000" };
+  try {
+    const first = new PolicyEngine(config, ledgerPath);
+    first.recordSpending("first", 1, first.checkTransaction(tx).spending);
+
+    // A restarted or second process sees the spending and stops at the same daily limit
+    const second = new PolicyEngine(config, ledgerPath);
+    assertEquals(rules(second.checkTransaction(tx)), ["native_daily_limit"]);
+
+    first.releaseSpending("first");
+    assertEquals(second.checkTransaction(tx).violations, []);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Policy - requires decimals for unregistered tokens", () => {
+  assertThrows(
+    () => new PolicyEngine({ chains: { "1": { tokens: { [STRANGER]: { maxPerTx: "5" } } } } }),
+    Error,
+    "set decimals",
+  );
+  assertThrows(() => new PolicyEngine({ chains: { "1": { tokens: { NOPE: { maxPerTx: "5" } } } } }), Error, "unknown token");
+});
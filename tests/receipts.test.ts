@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { type Abi, encodeErrorResult, parseAbi } from "viem";
+
+import { decodeRevertData } from "../src/receipts.ts";
+
+const solidityErrors = parseAbi(["error Error(string)", "error Panic(uint256)"]);
+const customErrors: Abi = parseAbi(["error InsufficientBalance(address account, uint256 needed)"]);
+
+Deno.test("Receipts - decodes Error(string) reverts", () => {
+  const data = encodeErrorResult({ abi: solidityErrors, errorName: "Error", args: ["Ownable: caller is not the owner"] });
+  assertEquals(decodeRevertData(data), "Ownable: caller is not the owner");
+});
+
+Deno.test("Receipts - decodes Panic(uint256) reverts", () => {
+  const data = encodeErrorResult({ abi: solidityErrors, errorName: "Panic", args: [0x11n] });
+  assertEquals(decodeRevertData(data), "Panic(0x11): arithmetic overflow or underflow");
+});
+
+Deno.test("Receipts - decodes custom errors when an ABI is supplied", () => {
+  const data = encodeErrorResult({
+    abi: customErrors,
+    errorName: "InsufficientBalance",
+    args: ["0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266", 5n],
+  });
+
+  assertEquals(
+    decodeRevertData(data, customErrors),
+    'InsufficientBalance("0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266", 5)',
+  );
+  assertEquals(decodeRevertData(data), `custom error ${data.slice(0, 10)} (pass the contract ABI to decode it)`);
+});
+
+Deno.test("Receipts - handles empty revert data", () => {
+  assertEquals(decodeRevertData("0x"), "reverted without a reason");
+});
@@ -0,0 +1,92 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { pendingStore } from "../src/pending-store.ts";
+import { getUpdatedResources, readResource } from "../src/resources.ts";
+import { walletSession } from "../src/session.ts";
+
+/**
+ * Read a resource and parse its JSON
+ */
+async function read(uri: string) {
+  const contents = await readResource(uri);
+  assertEquals(contents.mimeType, "application/json");
+  return JSON.parse(contents.text);
+}
+
+Deno.test("Resources - lists pending requests and reads them by ID", async () => {
+  const { id, promise } = pendingStore.createSignMessageRequest({ message: "resource", chainId: 1 });
+  pendingStore.setStage(id, "page_loaded");
+
+  const pending = await read("wallet://pending");
+  const listed = pending.requests.find((record: { request: { id: string } }) => record.request.id === id);
+  assertEquals(listed.status, "pending");
+  assertEquals(listed.stage, "page_loaded");
+  assertEquals(listed.expiresAt, pendingStore.getExpiresAt(id));
+
+  pendingStore.complete(id, { success: true, result: "0xSig" });
+  await promise;
+
+  const record = await read(`wallet://requests/${id}`);
+  assertEquals(record.status, "approved");
+  assertEquals(record.result, { success: true, result: "0xSig" });
+  assertEquals(record.expiresAt, undefined);
+});
+
+Deno.test("Resources - rejects unknown URIs and requests", async () => {
+  await assertRejects(() => readResource("wallet://unknown"), Error, "Resource not found");
+  await assertRejects(
+    () => readResource("wallet://requests/00000000-0000-0000-0000-000000000000"),
+    Error,
+    "Resource not found",
+  );
+});
+
+Deno.test("Resources - reads chains with redacted RPC URLs, and the wallet session", async () => {
+  const chains = await read("wallet://chains");
+  assertEquals(typeof chains.defaultChainId, "number");
+  const mainnet = chains.chains.find((chain: { id: number }) => chain.id === 1);
+  assertEquals(mainnet.nativeCurrency.symbol, "ETH");
+  assertStringIncludes(mainnet.rpcUrl, "https://");
+
+  walletSession.clear();
+  assertEquals(await read("wallet://session"), { connected: false });
+  walletSession.setConnected("0x1234567890123456789012345678901234567890", 8453);
+  const session = await read("wallet://session");
+  assertEquals([session.connected, session.address, session.chainId], [
+    true,
+    "0x1234567890123456789012345678901234567890",
+    8453,
+  ]);
+  walletSession.clear();
+});
+
+Deno.test("Resources - maps request events to the resources they change", async () => {
+  const { id, promise } = pendingStore.createConnectRequest(1);
+  assertEquals(getUpdatedResources({ type: "stage", id, stage: "wallet_connected" }), [
+    "wallet://pending",
+    `wallet://requests/${id}`,
+  ]);
+  assertEquals(getUpdatedResources({ type: "created", id, requestType: "connect" }), [
+    "wallet://pending",
+    `wallet://requests/${id}`,
+    "wallet://history",
+  ]);
+
+  pendingStore.cancel(id);
+  await assertRejects(() => promise);
+  assertEquals(getUpdatedResources({ type: "finished", id, status: "cancelled" }), [
+    "wallet://pending",
+    `wallet://requests/${id}`,
+    "wallet://history",
+  ]);
+
+  const connected = pendingStore.createConnectRequest(1);
+  pendingStore.complete(connected.id, { success: true, result: "0x1234567890123456789012345678901234567890" });
+  await connected.promise;
+  assertEquals(getUpdatedResources({ type: "finished", id: connected.id, status: "approved" }), [
+    "wallet://pending",
+    `wallet://requests/${connected.id}`,
+    "wallet://history",
+    "wallet://session",
+  ]);
+});
@@ -0,0 +1,82 @@
+import { assertEquals, assertExists, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { custom } from "viem";
+
+import { getRpcUrls } from "../src/config.ts";
+import { redactRpcUrl, RpcClients } from "../src/rpc.ts";
+import { TEST_ACCOUNTS } from "./fixtures/test-wallet.ts";
+
+const ADDRESS = TEST_ACCOUNTS[0].address;
+
+/**
+ * RPC clients backed by fake endpoints; `handler` answers each request and sees which endpoint got it
+ */
+function mockClients(handler: (url: string, method: string) => unknown) {
+  const calls: Array<{ url: string; method: string }> = [];
+  const clients = new RpcClients({
+    rank: false,
+    retryDelay: 0,
+    transport: (url) =>
+      custom({
+        request: ({ method }) => {
+          calls.push({ url, method });
+          return Promise.resolve().then(() => handler(url, method));
+        },
+      }),
+  });
+  return { clients, calls };
+}
+
+Deno.test("RPC - falls back to the next endpoint and records failures", async () => {
+  const [primary, secondary] = getRpcUrls(1);
+  const { clients } = mockClients((url) => {
+    if (url === primary) {
+      throw new Error("429 Too Many Requests");
+    }
+    return "0x64";
+  });
+
+  const client = clients.getClient(1);
+  assertExists(client);
+  assertEquals(await client.getBalance({ address: ADDRESS }), 100n);
+
+  const [first, second] = clients.getStatus(1);
+  assertEquals(first.url, primary);
+  assertEquals(first.failures, 1);
+  assertEquals(first.consecutiveFailures, 1);
+  assertStringIncludes(first.lastError ?? "", "429 Too Many Requests");
+  assertEquals(second.url, secondary);
+  assertEquals(second.requests, 1);
+  assertEquals(second.failures, 0);
+  assertExists(second.averageLatencyMs);
+});
+
+Deno.test("RPC - caches idempotent reads but not pending results", async () => {
+  const { clients, calls } = mockClients((_url, method) => (method === "eth_getTransactionReceipt" ? null : "0x1"));
+  const client = clients.getClient(1)!;
+
+  await Promise.all([client.getBalance({ address: ADDRESS }), client.getBalance({ address: ADDRESS })]);
+  await client.getBalance({ address: ADDRESS });
+  assertEquals(calls.filter((call) => call.method === "eth_getBalance").length, 1);
+
+  const hash = `0x${"ab".repeat(32)}` as const;
+  await client.request({ method: "eth_getTransactionReceipt", params: [hash] });
+  await client.request({ method: "eth_getTransactionReceipt", params: [hash] });
+  assertEquals(calls.filter((call) => call.method === "eth_getTransactionReceipt").length, 2);
+});
+
+Deno.test("RPC - reuses one client per chain and skips unconfigured chains", () => {
+  const { clients } = mockClients(() => "0x1");
+  assertEquals(clients.getClient(1) === clients.getClient(1), true);
+  assertEquals(clients.getClient(999999999), null);
+  assertEquals(clients.getStatus().every((endpoint) => endpoint.chainId === 1), true);
+});
+
+Deno.test("RPC - redacts API keys from endpoint URLs", () => {
+  assertEquals(redactRpcUrl("https://eth.llamarpc.com"), "https://eth.llamarpc.com");
+  assertEquals(redactRpcUrl("https://api.avax.network/ext/bc/C/rpc"), "https://api.avax.network/ext/bc/C/rpc");
+  assertEquals(
+    redactRpcUrl("https://eth-mainnet.g.alchemy.com/v2/abcdefghijklmnopqrstuvwxyz123456"),
+    "https://eth-mainnet.g.alchemy.com/v2/***",
+  );
+  assertEquals(redactRpcUrl("https://rpc.example.com/?apikey=secret"), "https://rpc.example.com?***");
+});
@@ -0,0 +1,90 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createPublicClient, custom, encodeErrorResult, type Hex, parseAbi } from "viem";
+
+import { simulateTransaction } from "../src/simulate.ts";
+import { ANVIL_CHAIN_ID, DEFAULT_TEST_ACCOUNT, TEST_ACCOUNTS } from "./fixtures/test-wallet.ts";
+
+const RECIPIENT = TEST_ACCOUNTS[1].address;
+const customErrors = parseAbi(["error InsufficientBalance(address account, uint256 needed)"]);
+
+/**
+ * Public client backed by a fake RPC; `onCall` decides what eth_call does
+ */
+function mockClient(onCall: () => Hex) {
+  return createPublicClient({
+    transport: custom({
+      request: ({ method }) => {
+        switch (method) {
+          case "eth_call":
+            return Promise.resolve(onCall());
+          case "eth_estimateGas":
+            return Promise.resolve("0x5208"); // 21000
+          case "eth_gasPrice":
+            return Promise.resolve("0x3b9aca00"); // 1 gwei
+          default:
+            return Promise.reject(new Error(`unexpected RPC method ${method}`));
+        }
+      },
+    }, { retryCount: 0 }),
+  });
+}
+
+function revert(data?: Hex): never {
+  throw Object.assign(new Error("execution reverted"), { code: 3, data });
+}
+
+Deno.test("Simulate - reports gas and fee for a successful call", async () => {
+  const client = mockClient(() => "0x");
+  const report = await simulateTransaction(client, ANVIL_CHAIN_ID, {
+    from: DEFAULT_TEST_ACCOUNT.address,
+    to: RECIPIENT,
+    value: 1n,
+  });
+
+  assertEquals(report.success, true);
+  assertEquals(report.gasEstimate, 21000n);
+  assertEquals(report.gasPrice, 1000000000n);
+  assertEquals(report.estimatedFee, 21000000000000n);
+});
+
+Deno.test("Simulate - decodes Error(string) reverts", async () => {
+  const data = encodeErrorResult({
+    abi: parseAbi(["error Error(string)"]),
+    errorName: "Error",
+    args: ["ERC20: transfer amount exceeds balance"],
+  });
+  const client = mockClient(() => revert(data));
+  const report = await simulateTransaction(client, ANVIL_CHAIN_ID, { to: RECIPIENT, data: "0xa9059cbb" });
+
+  assertEquals(report.success, false);
+  assertEquals(report.revertReason, "ERC20: transfer amount exceeds balance");
+  assertEquals(report.gasEstimate, undefined);
+});
+
+Deno.test("Simulate - decodes custom errors with the supplied ABI", async () => {
+  const data = encodeErrorResult({
+    abi: customErrors,
+    errorName: "InsufficientBalance",
+    args: [RECIPIENT, 5n],
+  });
+  const client = mockClient(() => revert(data));
+  const report = await simulateTransaction(client, ANVIL_CHAIN_ID, { to: RECIPIENT }, customErrors);
+
+  assertEquals(report.success, false);
+  assertEquals(report.revertReason, `InsufficientBalance("${RECIPIENT}", 5)`);
+});
+
+Deno.test("Simulate - reports reverts without data", async () => {
+  const client = mockClient(() => revert());
+  const report = await simulateTransaction(client, ANVIL_CHAIN_ID, { to: RECIPIENT });
+
+  assertEquals(report.success, false);
+  assertEquals(report.revertReason, "Execution reverted for an unknown reason.");
+});
+
+Deno.test("Simulate - throws when the RPC fails", async () => {
+  const client = mockClient(() => {
+    throw new Error("connection refused");
+  });
+  await assertRejects(() => simulateTransaction(client, ANVIL_CHAIN_ID, { to: RECIPIENT }));
+});
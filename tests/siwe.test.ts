@@ -0,0 +1,98 @@
+import { assertEquals, assertMatch, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { buildSiweMessage, checkSiweMessage, siweWarnings } from "../src/siwe.ts";
+import { verifyMessageSigner } from "../src/verify.ts";
+import { TEST_ACCOUNTS } from "./fixtures/test-wallet.ts";
+
+const SIGNER = TEST_ACCOUNTS[0];
+const ISSUED_AT = new Date("2026-03-01T12:00:00.000Z");
+
+function build(overrides: Partial<Parameters<typeof buildSiweMessage>[0]> = {}) {
+  return buildSiweMessage(
+    {
+      domain: "app.example.com",
+      uri: "https://app.example.com/login",
+      address: SIGNER.address,
+      chainId: 1,
+      nonce: "abcdef1234",
+      statement: "Sign in to Example",
+      ...overrides,
+    },
+    ISSUED_AT,
+  );
+}
+
+Deno.test("SIWE - builds an EIP-4361 message", () => {
+  const { message, details } = build({ expirationTime: "2026-03-02T12:00:00Z", resources: ["https://app.example.com/tos"] });
+
+  assertEquals(
+    message,
+    [
+      "app.example.com wants you to sign in with your Ethereum account:",
+      SIGNER.address,
+      "",
+      "Sign in to Example",
+      "",
+      "URI: https://app.example.com/login",
+      "Version: 1",
+      "Chain ID: 1",
+      "Nonce: abcdef1234",
+      "Issued At: 2026-03-01T12:00:00.000Z",
+      "Expiration Time: 2026-03-02T12:00:00.000Z",
+      "Resources:",
+      "- https://app.example.com/tos",
+    ].join("\n"),
+  );
+  assertEquals(details.domain, "app.example.com");
+  assertEquals(details.warnings, []);
+});
+
+Deno.test("SIWE - generates a nonce and rejects malformed fields", () => {
+  const { message } = build({ nonce: undefined });
+  assertMatch(message, /\nNonce: [a-zA-Z0-9]{8,}\n/);
+
+  assertThrows(() => build({ nonce: "short" }), Error, 'field "nonce"');
+  assertThrows(() => build({ statement: "two\nlines" }), Error, 'field "statement"');
+});
+
+Deno.test("SIWE - warns about lookalike and mismatched domains", () => {
+  assertEquals(siweWarnings({ domain: "app.example.com", uri: "https://app.example.com" }), []);
+  assertEquals(siweWarnings({ domain: "localhost:3000", uri: "http://localhost:3000" }), []);
+  assertEquals(siweWarnings({ domain: "xn--exmple-cua.com", uri: "https://xn--exmple-cua.com" }), [
+    "xn--exmple-cua.com uses internationalized characters, which can imitate the name of another site",
+  ]);
+  assertEquals(siweWarnings({ domain: "app.example.com", uri: "http://evil.example.net/login" }), [
+    "The URI http://evil.example.net/login is on evil.example.net, not app.example.com",
+    "The sign-in is not over HTTPS",
+  ]);
+});
+
+Deno.test("SIWE - checks messages against expectations and time", () => {
+  const { message } = build({ expirationTime: "2026-03-02T12:00:00Z" });
+  const during = new Date("2026-03-01T13:00:00Z");
+
+  assertEquals(checkSiweMessage(message, { domain: "app.example.com", nonce: "abcdef1234", time: during }).problems, []);
+  assertEquals(
+    checkSiweMessage(message, { domain: "other.example.com", address: TEST_ACCOUNTS[1].address, time: during }).problems,
+    [
+      "domain is app.example.com, expected other.example.com",
+      `address is ${SIGNER.address}, expected ${TEST_ACCOUNTS[1].address}`,
+    ],
+  );
+  assertEquals(checkSiweMessage(message, { time: new Date("2026-03-03T00:00:00Z") }).problems, [
+    "expired at 2026-03-02T12:00:00.000Z",
+  ]);
+  assertMatch(checkSiweMessage("Hello, world!").problems[0], /^not a valid EIP-4361 message: missing domain/);
+});
+
+Deno.test("SIWE - verifies the signer of a signed message", async () => {
+  const { message } = build();
+  const signature = await privateKeyToAccount(SIGNER.privateKey).signMessage({ message });
+
+  assertEquals(await verifyMessageSigner(SIGNER.address, 1, message, signature), null);
+  assertEquals(
+    await verifyMessageSigner(TEST_ACCOUNTS[1].address, undefined, message, signature),
+    `signed by ${SIGNER.address}, expected ${TEST_ACCOUNTS[1].address}`,
+  );
+});
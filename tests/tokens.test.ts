@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { isAddress } from "viem";
+
+import { CHAINS } from "../src/config.ts";
+import { getTokenBySymbol, resolveTokenAddress, TOKENS } from "../src/tokens.ts";
+
+Deno.test("Tokens - registry only covers configured chains", () => {
+  for (const chainId of Object.keys(TOKENS)) {
+    assertEquals(CHAINS[Number(chainId)] !== undefined, true, `chain ${chainId} is not in CHAINS`);
+  }
+});
+
+Deno.test("Tokens - registry addresses are checksummed", () => {
+  for (const [chainId, tokens] of Object.entries(TOKENS)) {
+    for (const token of tokens) {
+      assertEquals(isAddress(token.address), true, `${token.symbol} on chain ${chainId}`);
+    }
+  }
+});
+
+Deno.test("Tokens - looks up symbols case-insensitively", () => {
+  const usdc = getTokenBySymbol(1, "usdc");
+  assertEquals(usdc?.address, "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48");
+  assertEquals(usdc?.decimals, 6);
+
+  assertEquals(getTokenBySymbol(1, "NOPE"), undefined);
+  assertEquals(getTokenBySymbol(999999, "USDC"), undefined);
+});
+
+Deno.test("Tokens - resolves addresses and symbols", () => {
+  const arbitrary = "0x1111111111111111111111111111111111111111";
+  assertEquals(resolveTokenAddress(1, arbitrary), arbitrary);
+  assertEquals(resolveTokenAddress(8453, "WETH"), "0x4200000000000000000000000000000000000006");
+  assertEquals(resolveTokenAddress(8453, "WBTC"), undefined);
+});
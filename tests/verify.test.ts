@@ -0,0 +1,87 @@
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { custom } from "viem";
+
+import { RpcClients } from "../src/rpc.ts";
+import type { SendTransactionRequest } from "../src/types.ts";
+import { verifyResult } from "../src/verify.ts";
+import { TEST_ACCOUNTS } from "./fixtures/test-wallet.ts";
+
+const HASH = "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef";
+
+const request: SendTransactionRequest = {
+  id: "verify-request",
+  type: "send_transaction",
+  createdAt: Date.now(),
+  to: TEST_ACCOUNTS[1].address,
+  value: "1000",
+  chainId: 1,
+};
+
+/**
+ * RPC clients whose eth_getTransactionByHash answers with `transaction` (null: not seen)
+ */
+function mockClients(transaction: Record<string, unknown> | null) {
+  return new RpcClients({
+    rank: false,
+    retryDelay: 0,
+    transport: () =>
+      custom({
+        request: ({ method }) => Promise.resolve(method === "eth_getTransactionByHash" ? transaction : null),
+      }),
+  });
+}
+
+/**
+ * A mined legacy transaction, as the RPC returns it
+ */
+function rpcTransaction(to: string, value: bigint) {
+  return {
+    hash: HASH,
+    from: TEST_ACCOUNTS[0].address,
+    to,
+    value: `0x${value.toString(16)}`,
+    input: "0x",
+    nonce: "0x0",
+    gas: "0x5208",
+    gasPrice: "0x1",
+    type: "0x0",
+    chainId: "0x1",
+    blockHash: HASH,
+    blockNumber: "0x1",
+    transactionIndex: "0x0",
+    v: "0x25",
+    r: "0x1",
+    s: "0x1",
+  };
+}
+
+Deno.test("Verify - accepts a transaction that matches the request", async () => {
+  const result = { success: true as const, result: HASH };
+  const clients = mockClients(rpcTransaction(request.to, 1000n));
+  assertEquals(await verifyResult(request, result, { clients, lookupTimeoutMs: 0 }), result);
+});
+
+Deno.test("Verify - marks a hash the RPC hasn't seen as unverified", async () => {
+  const verified = await verifyResult(request, { success: true, result: HASH }, {
+    clients: mockClients(null),
+    lookupTimeoutMs: 0,
+  });
+  assertEquals(verified.success, true);
+  if (verified.success) {
+    assertEquals(verified.result, HASH);
+    assertEquals(verified.unverified, `transaction ${HASH} not yet seen on chain 1`);
+  }
+});
+
+Deno.test("Verify - fails a transaction that doesn't match the request", async () => {
+  const verified = await verifyResult(request, { success: true, result: HASH }, {
+    clients: mockClients(rpcTransaction(TEST_ACCOUNTS[2].address, 5n)),
+    lookupTimeoutMs: 0,
+  });
+  assertEquals(verified.success, false);
+  if (!verified.success) {
+    assertStringIncludes(verified.error, "does not match the request");
+    assertStringIncludes(verified.error, `expected ${request.to}`);
+    assertStringIncludes(verified.error, "value is 5 wei, expected 1000 wei");
+  }
+});
@@ -1,10 +1,49 @@
 // API client for communicating with the MCP server
 
+// Human-readable description of a token transfer (mirrors TransferIntent in src/types.ts)
+export interface TransferIntent {
+  kind: "transfer";
+  amount: string;
+  symbol: string;
+  decimals: number;
+  recipient: string;
+  token?: string;
+}
+
+// Human-readable description of an approval being revoked (mirrors RevokeIntent in src/types.ts)
+export interface RevokeIntent {
+  kind: "revoke";
+  token: string;
+  symbol: string;
+  decimals: number;
+  spender: string;
+  currentAllowance?: string;
+}
+
+export type TransactionIntent = TransferIntent | RevokeIntent;
+
+// One transaction of a send_transactions batch
+export interface BatchTransaction {
+  to: string;
+  value?: string;
+  data?: string;
+  gasLimit?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  intent?: TransactionIntent;
+  abi?: Record<string, unknown>[];
+  functionSignature?: string;
+}
+
 export interface PendingRequest {
   id: string;
-  type: "connect" | "send_transaction" | "sign_message" | "sign_typed_data";
+  type: "connect" | "send_transaction" | "send_transactions" | "sign_message" | "sign_typed_data" | "calls_status";
   chainId?: number;
   createdAt: number;
+  // Name of the MCP client that made the request, when several share this server
+  client?: string;
+  // Set when the request is allowed but close to a spending limit
+  policyWarnings?: string[];
   // send_transaction fields
   to?: string;
   value?: string;
@@ -12,9 +51,20 @@ export interface PendingRequest {
   gasLimit?: string;
   maxFeePerGas?: string;
   maxPriorityFeePerGas?: string;
+  intent?: TransactionIntent;
+  abi?: Record<string, unknown>[];
+  functionSignature?: string;
+  // send_transactions fields
+  transactions?: BatchTransaction[];
+  atomic?: boolean;
+  paymasterUrl?: string;
+  // calls_status fields
+  callsId?: string;
+  wait?: boolean;
   // sign_message fields
   message?: string;
   address?: string;
+  siwe?: SiweDetails;
   // sign_typed_data fields
   domain?: {
     name?: string;
@@ -25,44 +75,281 @@ export interface PendingRequest {
   };
   types?: Record<string, Array<{ name: string; type: string }>>;
   primaryType?: string;
+  permit?: PermitSummary;
+}
+
+// What a sign_permit / sign_permit2 request grants (mirrors PermitSummary in src/types.ts); times are Unix seconds
+export interface PermitSummary {
+  kind: "erc2612" | "permit2";
+  token: string;
+  tokenName?: string;
+  symbol?: string;
+  spender: string;
+  amount: string;
+  expiresAt?: number;
+  deadline: number;
+  warnings: string[];
+}
+
+// Fields of a Sign-In With Ethereum message (mirrors SiweDetails in src/types.ts)
+export interface SiweDetails {
+  domain: string;
+  uri: string;
+  statement?: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  resources?: string[];
+  requestId?: string;
+  warnings: string[];
+}
+
+// Chain details from the server's chain config, so custom chains can be switched to or added
+export interface ApiChain {
+  id: number;
+  name: string;
+  rpcUrl: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  blockExplorer?: string;
 }
 
 export interface PendingApiResponse {
   request: PendingRequest;
+  chain?: ApiChain;
+  dashboardToken?: string;
+  // When the request times out (milliseconds since the epoch)
+  expiresAt?: number;
+}
+
+// Pending request as listed on the dashboard
+export interface PendingListItem {
+  request: PendingRequest;
+  chain?: ApiChain;
+  // Approval page URL, including the request secret
+  approvalUrl: string;
+  expiresAt: number;
+  stage?: RequestStage;
+}
+
+// Past request from the audit log (mirrors AuditRecord in src/types.ts)
+export interface HistoryRecord {
+  request: PendingRequest;
+  status: "pending" | "approved" | "rejected" | "cancelled" | "expired";
+  result?: CompleteRequest;
+  error?: string;
+  createdAt: number;
+  openedAt?: number;
+  completedAt?: number;
+}
+
+// Dry-run outcome from /api/simulate; amounts are decimal strings in wei
+export interface Simulation {
+  chainId: number;
+  success: boolean;
+  revertReason?: string;
+  gasEstimate?: string;
+  gasPrice?: string;
+  estimatedFee?: string;
+  returnData?: string;
+}
+
+// What happened to the transactions of a batch (mirrors BatchOutcome in src/types.ts)
+export interface BatchOutcome {
+  hashes: string[];
+  callsId?: string;
+  failedIndex?: number;
+}
+
+// EIP-5792 capabilities by hex chain ID (mirrors WalletCapabilities in src/types.ts)
+export type WalletCapabilities = Record<string, Record<string, unknown>>;
+
+// Normalized call bundle status (mirrors CallsStatus in src/types.ts)
+export interface CallsStatus {
+  status: "pending" | "confirmed" | "failed";
+  receipts: Array<{ transactionHash: string; status: "success" | "reverted"; blockNumber?: number }>;
+  atomic?: boolean;
 }
 
 export interface CompleteRequest {
   success: boolean;
   result?: string;
   error?: string;
+  batch?: BatchOutcome;
+  capabilities?: WalletCapabilities;
+  callsStatus?: CallsStatus;
+}
+
+// Header carrying the per-request secret; must match the server's REQUEST_TOKEN_HEADER
+const REQUEST_TOKEN_HEADER = "X-Request-Token";
+
+// Header carrying the dashboard secret; must match the server's DASHBOARD_TOKEN_HEADER
+const DASHBOARD_TOKEN_HEADER = "X-Dashboard-Token";
+
+/**
+ * Get the request secret from the URL fragment (/sign/:id#secret)
+ */
+function getRequestToken(): string {
+  return window.location.hash.slice(1);
 }
 
 /**
  * Fetch pending request details from the server
  */
-export async function fetchPendingRequest(id: string): Promise<PendingRequest> {
-  const response = await fetch(`/api/pending/${id}`);
+export async function fetchPendingRequest(id: string): Promise<PendingApiResponse> {
+  const response = await fetch(`/api/pending/${id}`, {
+    headers: {
+      [REQUEST_TOKEN_HEADER]: getRequestToken(),
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(error.error || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Dry-run a pending transaction on the server against the chain RPC
+ */
+export async function simulateRequest(id: string, from?: string): Promise<Simulation> {
+  const response = await fetch(`/api/simulate/${id}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [REQUEST_TOKEN_HEADER]: getRequestToken(),
+    },
+    body: JSON.stringify({ from }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(error.error || `HTTP ${response.status}`);
+  }
+
+  const data: { simulation: Simulation } = await response.json();
+  return data.simulation;
+}
+
+/**
+ * Ask the server for more time to act on a pending request; returns the new expiry
+ */
+export async function extendRequest(id: string): Promise<number> {
+  const response = await fetch(`/api/extend/${id}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [REQUEST_TOKEN_HEADER]: getRequestToken(),
+    },
+    body: "{}",
+  });
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: "Unknown error" }));
     throw new Error(error.error || `HTTP ${response.status}`);
   }
 
-  const data: PendingApiResponse = await response.json();
-  return data.request;
+  const data: { expiresAt: number } = await response.json();
+  return data.expiresAt;
+}
+
+/**
+ * Tell the server how far the user has got, so the waiting agent can follow along.
+ * Best effort: the request may already have finished, and signing goes ahead either way.
+ */
+export function reportStage(id: string, stage: RequestStage): void {
+  fetch(`/api/status/${id}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [REQUEST_TOKEN_HEADER]: getRequestToken(),
+    },
+    body: JSON.stringify({ stage }),
+  }).catch(() => {});
+}
+
+/**
+ * List all pending requests (dashboard)
+ */
+export async function fetchPendingList(dashboardToken: string): Promise<PendingListItem[]> {
+  const response = await fetch("/api/pending", {
+    headers: {
+      [DASHBOARD_TOKEN_HEADER]: dashboardToken,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(error.error || `HTTP ${response.status}`);
+  }
+
+  const data: { requests: PendingListItem[] } = await response.json();
+  return data.requests;
+}
+
+/**
+ * Fetch finished requests from the audit log, newest first (dashboard)
+ */
+export async function fetchHistory(dashboardToken: string, limit: number): Promise<HistoryRecord[]> {
+  const response = await fetch(`/api/history?limit=${limit}`, {
+    headers: {
+      [DASHBOARD_TOKEN_HEADER]: dashboardToken,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(error.error || `HTTP ${response.status}`);
+  }
+
+  const data: { records: HistoryRecord[] } = await response.json();
+  return data.records;
+}
+
+// How far the user has got with a pending request (mirrors RequestStage in src/types.ts)
+export type RequestStage = "browser_opened" | "page_loaded" | "wallet_connected" | "awaiting_signature" | "broadcast";
+
+// Request lifecycle event pushed by the server (mirrors RequestEvent in src/types.ts)
+export type RequestEvent =
+  | { type: "created"; id: string; requestType: PendingRequest["type"] }
+  | { type: "finished"; id: string; status: HistoryRecord["status"] }
+  | { type: "extended"; id: string; expiresAt: number }
+  | { type: "stage"; id: string; stage: RequestStage };
+
+/**
+ * Listen for requests being created or finished; returns a function that stops listening.
+ * `onOpen` runs on every (re)connect, since events may have been missed while disconnected.
+ */
+export function subscribeToEvents(
+  dashboardToken: string,
+  onEvent: (event: RequestEvent) => void,
+  onOpen?: () => void
+): () => void {
+  // EventSource can't send headers, so the token goes in the query string
+  const source = new EventSource(`/api/events?token=${encodeURIComponent(dashboardToken)}`);
+  source.onmessage = (message) => onEvent(JSON.parse(message.data));
+  if (onOpen) {
+    source.onopen = onOpen;
+  }
+  return () => source.close();
 }
 
 /**
- * Complete a pending request with a result
+ * Complete a pending request with a result.
+ * `token` defaults to the secret of the request this page was opened for.
  */
 export async function completeRequest(
   id: string,
-  result: CompleteRequest
+  result: CompleteRequest,
+  token: string = getRequestToken()
 ): Promise<void> {
   const response = await fetch(`/api/complete/${id}`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
+      [REQUEST_TOKEN_HEADER]: token,
     },
     body: JSON.stringify(result),
   });
@@ -83,6 +370,6 @@ export async function completeSuccess(id: string, result: string): Promise<void>
 /**
  * Complete a request with error
  */
-export async function completeError(id: string, error: string): Promise<void> {
-  await completeRequest(id, { success: false, error });
+export async function completeError(id: string, error: string, token?: string): Promise<void> {
+  await completeRequest(id, { success: false, error }, token);
 }
@@ -0,0 +1,214 @@
+// Calldata decoding for the transaction approval page
+
+import {
+  type Abi,
+  type AbiFunction,
+  type AbiParameter,
+  decodeFunctionData,
+  formatUnits,
+  getAddress,
+  type Hex,
+  maxUint256,
+  parseAbi,
+  parseAbiItem,
+  toFunctionSelector,
+} from "viem";
+import { SIGNATURES } from "./signatures";
+
+// Where the function definition used for decoding came from
+export type DecodeSource = "agent" | "known" | "database";
+
+export interface DecodedArg {
+  name: string;
+  type: string;
+  value: unknown;
+  // Nested calls, for multicall-style bytes[] arguments
+  calls?: (DecodedCall | null)[];
+}
+
+export interface DecodedCall {
+  functionName: string;
+  args: DecodedArg[];
+  source: DecodeSource;
+}
+
+// Common token, wrapper and router functions, decoded with named arguments.
+// ERC-721 transferFrom/approve share selectors with ERC-20 and decode with the ERC-20 names.
+const KNOWN_ABI = parseAbi([
+  // ERC-20
+  "function transfer(address to, uint256 amount)",
+  "function approve(address spender, uint256 amount)",
+  "function transferFrom(address from, address to, uint256 amount)",
+  "function increaseAllowance(address spender, uint256 addedValue)",
+  "function decreaseAllowance(address spender, uint256 subtractedValue)",
+  // ERC-721
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+  "function setApprovalForAll(address operator, bool approved)",
+  // ERC-1155
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+  "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+  // WETH
+  "function deposit()",
+  "function withdraw(uint256 amount)",
+  // Multicall
+  "function multicall(bytes[] data)",
+  "function multicall(uint256 deadline, bytes[] data)",
+  // Uniswap v2 router
+  "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+  "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)",
+  "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+  "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+  "function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
+  "function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+  // Uniswap v3 SwapRouter
+  "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)",
+  "function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params)",
+  "function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)",
+  "function exactOutput((bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params)",
+  // Uniswap SwapRouter02 (no deadline in params)
+  "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)",
+  "function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params)",
+  "function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)",
+  "function exactOutput((bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params)",
+  // Uniswap Universal Router
+  "function execute(bytes commands, bytes[] inputs, uint256 deadline)",
+  "function execute(bytes commands, bytes[] inputs)",
+]);
+
+// Selector -> candidate functions from the signature database, built on first use
+let signatureIndex: Map<string, AbiFunction[]> | null = null;
+
+function getSignatureIndex(): Map<string, AbiFunction[]> {
+  if (signatureIndex === null) {
+    signatureIndex = new Map();
+    for (const signature of SIGNATURES) {
+      const item = parseAbiItem(`function ${signature}`) as AbiFunction;
+      const selector = toFunctionSelector(item);
+      signatureIndex.set(selector, [...(signatureIndex.get(selector) ?? []), item]);
+    }
+  }
+  return signatureIndex;
+}
+
+/**
+ * Flatten decoded values into named rows; tuple components become "params.tokenIn" etc.
+ */
+function flattenArgs(params: readonly AbiParameter[], values: readonly unknown[], prefix = ""): DecodedArg[] {
+  return params.flatMap((param, index) => {
+    const name = `${prefix}${param.name || `arg${index}`}`;
+    const value = values[index];
+    if (param.type === "tuple" && "components" in param && value !== null && typeof value === "object") {
+      const components = param.components;
+      const componentValues = Array.isArray(value)
+        ? value
+        : components.map((component) => (value as Record<string, unknown>)[component.name ?? ""]);
+      return flattenArgs(components, componentValues, `${name}.`);
+    }
+    return [{ name, type: param.type, value }];
+  });
+}
+
+/**
+ * Try to decode calldata against the given functions, matching on selector
+ */
+function decodeWith(functions: readonly AbiFunction[], data: Hex, source: DecodeSource): DecodedCall | null {
+  const selector = data.slice(0, 10).toLowerCase();
+  for (const item of functions) {
+    try {
+      if (toFunctionSelector(item) !== selector) {
+        continue;
+      }
+      const { args } = decodeFunctionData({ abi: [item], data });
+      return { functionName: item.name, args: flattenArgs(item.inputs, args ?? []), source };
+    } catch {
+      // Malformed ABI entry, or the data doesn't fit this candidate's types
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse the agent-supplied ABI and function signature into function definitions, ignoring anything invalid
+ */
+function agentFunctions(hints: { abi?: unknown[]; functionSignature?: string }): AbiFunction[] {
+  const functions: AbiFunction[] = [];
+  if (hints.functionSignature) {
+    try {
+      const item = parseAbiItem(hints.functionSignature);
+      if (item.type === "function") {
+        functions.push(item);
+      }
+    } catch {
+      // Invalid signature; fall back to the built-in definitions
+    }
+  }
+  for (const item of (hints.abi ?? []) as Abi) {
+    if (item && typeof item === "object" && item.type === "function") {
+      functions.push(item);
+    }
+  }
+  return functions;
+}
+
+/**
+ * Decode calldata into a function name and named, typed arguments.
+ * Agent-supplied definitions are tried first, then the known ABI, then the 4-byte signature database.
+ * Returns null if the selector is unknown.
+ */
+export function decodeCalldata(data: Hex, hints: { abi?: unknown[]; functionSignature?: string } = {}): DecodedCall | null {
+  if (data.length < 10) {
+    return null;
+  }
+
+  const call = decodeWith(agentFunctions(hints), data, "agent") ??
+    decodeWith(KNOWN_ABI, data, "known") ??
+    decodeWith(getSignatureIndex().get(data.slice(0, 10).toLowerCase()) ?? [], data, "database");
+
+  // Multicall batches are calls to the same contract; decode each one
+  if (call?.functionName === "multicall") {
+    for (const arg of call.args) {
+      if (arg.type === "bytes[]" && Array.isArray(arg.value)) {
+        arg.calls = (arg.value as Hex[]).map((inner) => decodeCalldata(inner, hints));
+      }
+    }
+  }
+
+  return call;
+}
+
+/**
+ * Format a decoded argument for display.
+ * When the token's decimals are known, amount-like integers are also shown in whole tokens.
+ */
+export function formatArgValue(arg: DecodedArg, token?: { decimals: number; symbol: string }): string {
+  const { type, value } = arg;
+
+  if (type === "address" && typeof value === "string") {
+    return getAddress(value);
+  }
+
+  if (typeof value === "bigint") {
+    if (value === maxUint256) {
+      return "unlimited (max uint256)";
+    }
+    const grouped = value.toLocaleString("en-US");
+    if (token && /amount|value/i.test(arg.name)) {
+      return `${formatUnits(value, token.decimals)} ${token.symbol} (${grouped})`;
+    }
+    return grouped;
+  }
+
+  if (typeof value === "string" && type.startsWith("bytes") && value.length > 66) {
+    return `${value.slice(0, 66)}... (${(value.length - 2) / 2} bytes)`;
+  }
+
+  if (typeof value === "string" || typeof value === "boolean" || typeof value === "number") {
+    return String(value);
+  }
+
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v));
+}
@@ -0,0 +1,41 @@
+// Keeps one approval tab working through requests instead of closing it after each one
+import { fetchPendingList, subscribeToEvents, type RequestEvent } from "./api";
+
+// Dashboard secret from the server, set once the current request has loaded
+let dashboardToken: string | undefined;
+
+/**
+ * Remember the dashboard secret so this tab can move on to other requests
+ */
+export function setDashboardToken(token: string | undefined): void {
+  dashboardToken = token;
+}
+
+/**
+ * Keep this tab registered as an open approval tab, so new requests are sent here instead of opening a new tab.
+ * `onChange` runs whenever a request is created, extended or finishes.
+ */
+export function listenForRequests(onChange: (event: RequestEvent) => void): () => void {
+  if (!dashboardToken) {
+    return () => {};
+  }
+  return subscribeToEvents(dashboardToken, onChange);
+}
+
+/**
+ * Leave the request that was just handled: open the oldest other pending request,
+ * or the dashboard to wait for new ones. Closes the tab if the server didn't hand out a dashboard secret.
+ */
+export async function showNextRequest(currentId: string): Promise<void> {
+  if (!dashboardToken) {
+    window.close();
+    return;
+  }
+
+  try {
+    const next = (await fetchPendingList(dashboardToken)).find((item) => item.request.id !== currentId);
+    window.location.assign(next ? next.approvalUrl : `/#${dashboardToken}`);
+  } catch {
+    window.location.assign(`/#${dashboardToken}`);
+  }
+}
@@ -0,0 +1,125 @@
+// Local 4-byte signature database, used to decode selectors that aren't in the known ABI.
+// Selectors are derived from the signatures at load time, so entries only need the canonical text.
+
+export const SIGNATURES: string[] = [
+  // Ownership and access control
+  "transferOwnership(address)",
+  "renounceOwnership()",
+  "acceptOwnership()",
+  "grantRole(bytes32,address)",
+  "revokeRole(bytes32,address)",
+  "renounceRole(bytes32,address)",
+  "pause()",
+  "unpause()",
+  "upgradeTo(address)",
+  "upgradeToAndCall(address,bytes)",
+
+  // Token extensions
+  "permit(address,address,uint256,uint256,uint8,bytes32,bytes32)",
+  "mint(address,uint256)",
+  "mint(uint256)",
+  "safeMint(address,uint256)",
+  "burn(uint256)",
+  "burnFrom(address,uint256)",
+  "transferAndCall(address,uint256,bytes)",
+  "delegate(address)",
+
+  // ERC-4626 vaults
+  "deposit(uint256,address)",
+  "mint(uint256,address)",
+  "withdraw(uint256,address,address)",
+  "redeem(uint256,address,address)",
+
+  // Staking and rewards
+  "stake(uint256)",
+  "unstake(uint256)",
+  "withdraw()",
+  "exit()",
+  "claim()",
+  "claim(address)",
+  "claimRewards()",
+  "getReward()",
+
+  // Lido
+  "submit(address)",
+  "wrap(uint256)",
+  "unwrap(uint256)",
+  "requestWithdrawals(uint256[],address)",
+  "claimWithdrawals(uint256[],uint256[])",
+
+  // Aave v3
+  "supply(address,uint256,address,uint16)",
+  "borrow(address,uint256,uint256,uint16,address)",
+  "repay(address,uint256,uint256,address)",
+  "withdraw(address,uint256,address)",
+  "setUserUseReserveAsCollateral(address,bool)",
+
+  // Compound
+  "supply(address,uint256)",
+  "withdraw(address,uint256)",
+  "mint()",
+  "redeem(uint256)",
+  "redeemUnderlying(uint256)",
+  "borrow(uint256)",
+  "repayBorrow(uint256)",
+  "repayBorrow()",
+
+  // Governance
+  "castVote(uint256,uint8)",
+  "castVoteWithReason(uint256,uint8,string)",
+  "propose(address[],uint256[],bytes[],string)",
+  "queue(address[],uint256[],bytes[],bytes32)",
+  "execute(address[],uint256[],bytes[],bytes32)",
+
+  // Safe
+  "execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)",
+  "addOwnerWithThreshold(address,uint256)",
+  "removeOwner(address,address,uint256)",
+  "swapOwner(address,address,address)",
+  "changeThreshold(uint256)",
+  "enableModule(address)",
+  "disableModule(address,address)",
+
+  // Permit2
+  "approve(address,address,uint160,uint48)",
+  "invalidateNonces(address,address,uint48)",
+  "lockdown((address,address)[])",
+
+  // Multicall3
+  "aggregate((address,bytes)[])",
+  "aggregate3((address,bool,bytes)[])",
+  "aggregate3Value((address,bool,uint256,bytes)[])",
+  "tryAggregate(bool,(address,bytes)[])",
+
+  // Uniswap v3 periphery
+  "multicall(bytes32,bytes[])",
+  "refundETH()",
+  "unwrapWETH9(uint256,address)",
+  "sweepToken(address,uint256,address)",
+  "mint((address,address,uint24,int24,int24,uint256,uint256,uint256,uint256,address,uint256))",
+  "increaseLiquidity((uint256,uint256,uint256,uint256,uint256,uint256))",
+  "decreaseLiquidity((uint256,uint128,uint256,uint256,uint256))",
+  "collect((uint256,address,uint128,uint128))",
+
+  // Uniswap v2 router (fee-on-transfer variants)
+  "swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)",
+  "swapExactETHForTokensSupportingFeeOnTransferTokens(uint256,address[],address,uint256)",
+  "swapExactTokensForETHSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)",
+  "removeLiquidityETH(address,uint256,uint256,uint256,address,uint256)",
+
+  // Bridges
+  "depositETH(uint32,bytes)",
+  "depositETHTo(address,uint32,bytes)",
+  "depositERC20(address,address,uint256,uint32,bytes)",
+  "depositERC20To(address,address,address,uint256,uint32,bytes)",
+  "bridgeETHTo(address,uint32,bytes)",
+  "depositEth()",
+  "outboundTransfer(address,address,uint256,bytes)",
+
+  // ENS
+  "setName(string)",
+  "setAddr(bytes32,address)",
+  "setText(bytes32,string,string)",
+  "commit(bytes32)",
+  "renew(string,uint256)",
+];
@@ -0,0 +1,221 @@
+// EIP-712 rendering helpers for the signing page: a formatted message tree and risk summaries
+
+import { getAddress, isAddress, maxUint160, maxUint256, type Hex } from "viem";
+import { decodeCalldata } from "./calldata";
+
+export type TypedDataTypes = Record<string, Array<{ name: string; type: string }>>;
+
+export interface TypedDataNode {
+  name: string;
+  type: string;
+  // Formatted leaf value; absent for structs and arrays
+  value?: string;
+  children?: TypedDataNode[];
+}
+
+export interface TypedDataRisk {
+  title: string;
+  description: string;
+  details: Array<{ label: string; value: string }>;
+}
+
+// Field names that hold Unix timestamps
+const TIMESTAMP_FIELDS = /^(deadline|sigDeadline|expiry|expiration|expires|validAfter|validBefore|validUntil|startTime|endTime|timestamp)$/i;
+
+/**
+ * Convert a JSON value (number, decimal or hex string) to a bigint, or null if it isn't an integer
+ */
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === "bigint") {
+    return value;
+  }
+  if ((typeof value === "number" && Number.isInteger(value)) || typeof value === "string") {
+    try {
+      return BigInt(value);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Format an integer amount; max uint256 / uint160 are the conventional "unlimited" approvals
+ */
+export function formatAmount(value: unknown): string {
+  const n = toBigInt(value);
+  if (n === null) {
+    return String(value);
+  }
+  if (n === maxUint256 || n === maxUint160) {
+    return "unlimited";
+  }
+  return n.toLocaleString("en-US");
+}
+
+/**
+ * Format a Unix timestamp in seconds as a UTC date, keeping the raw value
+ */
+export function formatTimestamp(value: unknown): string {
+  const n = toBigInt(value);
+  if (n === null) {
+    return String(value);
+  }
+  // Far-future deadlines (e.g. max uint) mean "never expires"
+  if (n > 253402300799n) {
+    return `never (${formatAmount(n)})`;
+  }
+  return `${new Date(Number(n) * 1000).toISOString().replace(".000Z", "Z")} (${n})`;
+}
+
+function formatAddress(value: unknown): string {
+  return typeof value === "string" && isAddress(value, { strict: false }) ? getAddress(value) : String(value);
+}
+
+function formatLeaf(name: string, type: string, value: unknown): string {
+  if (type === "address") {
+    return formatAddress(value);
+  }
+  if (/^u?int\d*$/.test(type)) {
+    return TIMESTAMP_FIELDS.test(name) ? formatTimestamp(value) : formatAmount(value);
+  }
+  if (typeof value === "object" && value !== null) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function buildNode(types: TypedDataTypes, name: string, type: string, value: unknown): TypedDataNode {
+  const arrayMatch = type.match(/^(.*)\[(\d*)\]$/);
+  if (arrayMatch && Array.isArray(value)) {
+    return {
+      name,
+      type,
+      children: value.map((item, index) => buildNode(types, `[${index}]`, arrayMatch[1], item)),
+    };
+  }
+
+  const fields = types[type];
+  if (fields && typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    return {
+      name,
+      type,
+      children: fields.map((field) => buildNode(types, field.name, field.type, record[field.name])),
+    };
+  }
+
+  return { name, type, value: formatLeaf(name, type, value) };
+}
+
+/**
+ * Build a display tree of the message, following the struct definitions in `types` from `primaryType` down
+ */
+export function buildTypedDataTree(
+  types: TypedDataTypes,
+  primaryType: string,
+  message: Record<string, unknown>,
+): TypedDataNode[] {
+  return buildNode(types, primaryType, primaryType, message).children ?? [];
+}
+
+function describeToken(domain: { name?: string; verifyingContract?: string }): string {
+  const address = domain.verifyingContract ? formatAddress(domain.verifyingContract) : "unknown contract";
+  return domain.name ? `${domain.name} (${address})` : address;
+}
+
+/**
+ * Recognize typed data that grants spending rights or moves assets, and summarize what is being granted.
+ * Returns null for anything not on the list of well-known dangerous primary types.
+ */
+export function detectTypedDataRisk(
+  primaryType: string,
+  message: Record<string, unknown>,
+  domain: { name?: string; verifyingContract?: string },
+): TypedDataRisk | null {
+  switch (primaryType) {
+    case "Permit": {
+      // ERC-2612: off-chain approval for the token named by the domain (DAI's variant uses allowed/expiry)
+      const amount = message.value !== undefined
+        ? formatAmount(message.value)
+        : String(message.allowed) === "true"
+        ? "unlimited"
+        : "none (revokes the allowance)";
+      return {
+        title: "Token approval (ERC-2612 permit)",
+        description: "Signing lets the spender move your tokens without another confirmation.",
+        details: [
+          { label: "Token", value: describeToken(domain) },
+          { label: "Spender", value: formatAddress(message.spender) },
+          { label: "Amount", value: amount },
+          { label: "Deadline", value: formatTimestamp(message.deadline ?? message.expiry) },
+        ],
+      };
+    }
+
+    case "PermitSingle":
+    case "PermitBatch": {
+      // Permit2 AllowanceTransfer
+      const details = (primaryType === "PermitSingle" ? [message.details] : message.details) as
+        | Array<Record<string, unknown>>
+        | undefined;
+      return {
+        title: "Token approval (Permit2)",
+        description: "Signing lets the spender move your tokens through Permit2 without another confirmation.",
+        details: [
+          { label: "Spender", value: formatAddress(message.spender) },
+          ...(details ?? []).flatMap((detail) => [
+            { label: "Token", value: formatAddress(detail?.token) },
+            { label: "Amount", value: formatAmount(detail?.amount) },
+            { label: "Expires", value: formatTimestamp(detail?.expiration) },
+          ]),
+          { label: "Signature deadline", value: formatTimestamp(message.sigDeadline) },
+        ],
+      };
+    }
+
+    case "OrderComponents": {
+      // Seaport listing/offer: "offer" is what the signer gives up
+      const offer = (message.offer ?? []) as Array<Record<string, unknown>>;
+      const consideration = (message.consideration ?? []) as Array<Record<string, unknown>>;
+      return {
+        title: "Marketplace order (Seaport)",
+        description: "Signing lets anyone fulfilling this order take the offered items.",
+        details: [
+          ...offer.map((item, index) => ({
+            label: `You give #${index + 1}`,
+            value: `${formatAmount(item.startAmount)} of ${formatAddress(item.token)} (id ${formatAmount(item.identifierOrCriteria)})`,
+          })),
+          ...consideration.map((item, index) => ({
+            label: `Payment #${index + 1}`,
+            value: `${formatAmount(item.startAmount)} of ${formatAddress(item.token)} to ${formatAddress(item.recipient)}`,
+          })),
+          { label: "Valid until", value: formatTimestamp(message.endTime) },
+        ],
+      };
+    }
+
+    case "SafeTx": {
+      const data = typeof message.data === "string" && message.data !== "0x" ? (message.data as Hex) : null;
+      const call = data ? decodeCalldata(data) : null;
+      const delegateCall = String(message.operation) === "1";
+      return {
+        title: "Safe transaction",
+        description: delegateCall
+          ? "This is a DELEGATECALL: the target code runs with full control over the Safe."
+          : "Signing approves a transaction executed by your Safe.",
+        details: [
+          { label: "Safe", value: formatAddress(domain.verifyingContract) },
+          { label: "To", value: formatAddress(message.to) },
+          { label: "Value", value: `${formatAmount(message.value)} wei` },
+          { label: "Operation", value: delegateCall ? "DELEGATECALL" : "CALL" },
+          { label: "Call", value: data ? (call?.functionName ?? `unknown (${data.slice(0, 10)})`) : "none" },
+          { label: "Nonce", value: formatAmount(message.nonce) },
+        ],
+      };
+    }
+
+    default:
+      return null;
+  }
+}
@@ -1,18 +1,23 @@
 // Wallet interactions using viem and EIP-6963 wallet discovery (via mipd)
 
 import {
+  type Chain,
   createWalletClient,
   custom,
+  defineChain,
   type WalletClient,
   type Address,
   type Hash,
   type Hex,
+  hexToNumber,
+  toHex,
 } from "viem";
-import { mainnet, sepolia, polygon, arbitrum, optimism, base, avalanche, bsc } from "viem/chains";
+import { mainnet, sepolia, polygon, arbitrum, optimism, base, avalanche, bsc, foundry } from "viem/chains";
 import { createStore, type EIP6963ProviderDetail } from "mipd";
+import type { CallsStatus, WalletCapabilities } from "./api";
 
-// Chain ID to viem chain mapping
-const CHAINS: Record<number, typeof mainnet> = {
+// Chain ID to viem chain mapping; entries are replaced by the server's config via registerChain
+const CHAINS: Record<number, Chain> = {
   1: mainnet,
   11155111: sepolia,
   137: polygon,
@@ -21,8 +26,35 @@ const CHAINS: Record<number, typeof mainnet> = {
   8453: base,
   43114: avalanche,
   56: bsc,
+  31337: foundry, // local Anvil / Hardhat node
 };
 
+/**
+ * Register a chain from the server's config, replacing the built-in entry so
+ * custom chains and RPC URLs are used when switching or adding the chain
+ */
+export function registerChain(chain: {
+  id: number;
+  name: string;
+  rpcUrl: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  blockExplorer?: string;
+}): void {
+  CHAINS[chain.id] = defineChain({
+    id: chain.id,
+    name: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: { default: { http: [chain.rpcUrl] } },
+    blockExplorers: chain.blockExplorer
+      ? { default: { name: chain.name, url: chain.blockExplorer } }
+      : undefined,
+  });
+}
+
+// How often, and how long, to poll while waiting for transactions of a batch to be mined
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
 // EIP-6963 provider store — discovers wallets via standardized events.
 // Lazily initialized on first access to ensure browser init scripts
 // (e.g. Playwright mock wallets) have run before mipd dispatches
@@ -121,6 +153,13 @@ export async function connectWallet(chainId?: number): Promise<Address> {
   return accounts[0];
 }
 
+/**
+ * Get the native currency symbol for a chain (ETH for unknown chains)
+ */
+export function getNativeSymbol(chainId: number): string {
+  return CHAINS[chainId]?.nativeCurrency.symbol ?? "ETH";
+}
+
 /**
  * Get currently connected accounts (without prompting)
  */
@@ -282,3 +321,160 @@ export async function signTypedData(params: {
 
   return signature;
 }
+
+/**
+ * Poll until `check` returns a value, giving up after POLL_TIMEOUT_MS
+ */
+async function poll<T>(check: () => Promise<T | null>, what: string): Promise<T> {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const value = await check();
+    if (value !== null) {
+      return value;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  throw new Error(`Timed out waiting for ${what}`);
+}
+
+/**
+ * Wait for a transaction to be mined; returns whether it succeeded
+ */
+export async function waitForReceipt(hash: Hash): Promise<boolean> {
+  const provider = getProvider();
+  if (!provider) throw new Error("No wallet detected");
+
+  const receipt = await poll(
+    async () =>
+      (await provider.request({
+        method: "eth_getTransactionReceipt",
+        params: [hash],
+      })) as { status: Hex } | null,
+    `transaction ${hash}`
+  );
+  return receipt.status === "0x1";
+}
+
+/**
+ * Get the EIP-5792 capabilities the wallet reports for an account, or null if it doesn't implement wallet_getCapabilities
+ */
+export async function getCapabilities(address: Address): Promise<WalletCapabilities | null> {
+  const provider = getProvider();
+  if (!provider) return null;
+
+  try {
+    return ((await provider.request({
+      method: "wallet_getCapabilities",
+      params: [address],
+    })) as WalletCapabilities | null) ?? null;
+  } catch {
+    // Wallet doesn't implement EIP-5792
+    return null;
+  }
+}
+
+// Capabilities for one chain; 2.0.0 wallets report capabilities that apply to every chain under 0x0
+function chainCapabilities(
+  capabilities: WalletCapabilities,
+  chainId: number
+): { atomicBatch?: { supported?: boolean }; atomic?: { status?: string }; paymasterService?: { supported?: boolean } } {
+  return { ...capabilities["0x0"], ...capabilities[toHex(chainId)] };
+}
+
+/**
+ * Get the EIP-5792 version the wallet speaks if it can send atomic call bundles on a chain, or null.
+ * Version 1.0 reports an atomicBatch capability; 2.0.0 reports atomic with a status.
+ */
+export function getAtomicBatchVersion(capabilities: WalletCapabilities | null, chainId: number): "1.0" | "2.0.0" | null {
+  const chain = capabilities ? chainCapabilities(capabilities, chainId) : {};
+  if (chain.atomic?.status === "supported" || chain.atomic?.status === "ready") {
+    return "2.0.0";
+  }
+  return chain.atomicBatch?.supported ? "1.0" : null;
+}
+
+/**
+ * Whether the wallet can have a paymaster service (ERC-7677) sponsor the gas of call bundles on a chain
+ */
+export function supportsPaymaster(capabilities: WalletCapabilities | null, chainId: number): boolean {
+  return !!capabilities && chainCapabilities(capabilities, chainId).paymasterService?.supported === true;
+}
+
+/**
+ * Send calls as one atomic bundle with wallet_sendCalls; returns the bundle ID
+ */
+export async function sendCalls(params: {
+  version: "1.0" | "2.0.0";
+  from: Address;
+  chainId: number;
+  calls: Array<{ to: Address; value?: bigint; data?: Hex }>;
+  paymasterUrl?: string;
+}): Promise<string> {
+  const provider = getProvider();
+  if (!provider) throw new Error("No wallet detected");
+
+  const result = (await provider.request({
+    method: "wallet_sendCalls",
+    params: [
+      {
+        version: params.version,
+        chainId: toHex(params.chainId),
+        from: params.from,
+        atomicRequired: true,
+        calls: params.calls.map((call) => ({
+          to: call.to,
+          value: call.value !== undefined ? toHex(call.value) : undefined,
+          data: call.data,
+        })),
+        capabilities: params.paymasterUrl ? { paymasterService: { url: params.paymasterUrl } } : undefined,
+      },
+    ],
+  })) as string | { id: string };
+
+  // 1.0 returns the ID itself, 2.0.0 an object holding it
+  return typeof result === "string" ? result : result.id;
+}
+
+/**
+ * Get the status of a call bundle with wallet_getCallsStatus.
+ * 1.0 reports PENDING / CONFIRMED; 2.0.0 reports 1xx while pending, 200 when confirmed and 4xx-6xx on failure.
+ */
+export async function getCallsStatus(id: string): Promise<CallsStatus> {
+  const provider = getProvider();
+  if (!provider) throw new Error("No wallet detected");
+
+  const response = (await provider.request({
+    method: "wallet_getCallsStatus",
+    params: [id],
+  })) as {
+    status: string | number;
+    atomic?: boolean;
+    receipts?: Array<{ transactionHash: Hash; status: Hex; blockNumber?: Hex }>;
+  };
+
+  const receipts = (response.receipts ?? []).map((receipt) => ({
+    transactionHash: receipt.transactionHash,
+    status: receipt.status === "0x1" ? ("success" as const) : ("reverted" as const),
+    blockNumber: receipt.blockNumber !== undefined ? hexToNumber(receipt.blockNumber) : undefined,
+  }));
+  const pending = response.status === "PENDING" || (typeof response.status === "number" && response.status < 200);
+  const failed =
+    (typeof response.status === "number" && response.status >= 400) ||
+    receipts.some((receipt) => receipt.status === "reverted");
+
+  return {
+    status: pending ? "pending" : failed ? "failed" : "confirmed",
+    receipts,
+    atomic: response.atomic,
+  };
+}
+
+/**
+ * Poll a call bundle until it is confirmed or fails
+ */
+export async function waitForCalls(id: string): Promise<CallsStatus> {
+  return poll(async () => {
+    const status = await getCallsStatus(id);
+    return status.status === "pending" ? null : status;
+  }, `call bundle ${id}`);
+}